@@ -1,6 +1,5 @@
 // Import necessary modules and types
 import { RateLimiter } from "../utils/rateLimiter";
-import axios, { AxiosError, AxiosInstance } from "axios";
 import {
     App,
     EVENT_TYPE,
@@ -48,6 +47,10 @@ import {
     SetMetaData,
     GetUserVar,
     GetMetaData,
+    PatchMetaData,
+    UpdateMetaData,
+    DeleteMetaData,
+    UpdateMetaDataResponse,
     Var,
     CheckBlacklist,
     CheckBlacklistResponse,
@@ -76,10 +79,55 @@ import {
     Download,
     DownloadResponse,
     DownloadParams,
+    EventType,
+    RequestOptions,
+    Session,
+    Transport,
+    TransportResponse,
+    METADATA,
+    BaseResponse,
+    CacheableType,
 } from "../types";
 import Logger from "../utils/logger";
+import SessionManager from "../utils/sessionManager";
+import { createEncKey, verifySignature } from "../utils/signature";
+import { createRequestSignal, RequestSignal, sleep } from "../utils/abort";
+import {
+    createRetryPolicy,
+    getRetryDelay,
+    RetryPolicy,
+    shouldRetry,
+} from "../utils/retry";
 import { BASE_URL, HEADERS } from "../utils/constants";
+import { ResponseCache } from "../utils/cache";
+import { getDedupeKey, MUTATING_TYPES } from "../utils/dedupe";
 import { convertTimestampsToLocalDates } from "../utils/helpers";
+import { FetchTransport, parseBody } from "../utils/transports";
+import {
+    createMetaDataSchema,
+    decodeMetaData,
+    DecodedMetaData,
+    deleteMetaDataKeys,
+    encodeMetaData,
+    getDefaultMetaData,
+    isMissingMetaData,
+    mergeMetaData,
+    MetaDataSchema,
+} from "../utils/metaData";
+import {
+    AbortError,
+    IntegrityError,
+    InvalidApplicationError,
+    KeyAuthError,
+    MetaDataConflictError,
+    MetaDataError,
+    NotInitializedError,
+    NotLoggedInError,
+    RateLimitedError,
+    SessionKilledError,
+    TimeoutError,
+    TransportError,
+} from "../utils/errors";
 
 /**
  * KeyAuth Client API Wrapper
@@ -87,17 +135,25 @@ import { convertTimestampsToLocalDates } from "../utils/helpers";
  * This class provides a TypeScript wrapper for the KeyAuth.cc API.
  *
  * It allows you to interact with various API endpoints for user management and more.
+ *
+ * @template D - A generic parameter representing metaData.
  */
-export default class Api {
+export default class Api<D extends METADATA = METADATA> {
     // ------------------------------------------
     // Private properties
     // ------------------------------------------
 
     /**
-     * Axios instance for making HTTP requests.
+     * Transport for making HTTP requests.
+     * @private
+     */
+    private _transport: Transport;
+
+    /**
+     * The base url of the keyauth api.
      * @private
      */
-    private _axiosInstance: AxiosInstance;
+    private _baseUrl: string;
 
     /**
      * Logger for debugging and logging.
@@ -134,6 +190,88 @@ export default class Api {
      */
     private _convertTimes: boolean;
 
+    /**
+     * Flag to determine whether failed requests reject with a KeyAuthError.
+     * @private
+     */
+    private _throwOnError: boolean;
+
+    /**
+     * Session manager that stores the session from init.
+     * @private
+     */
+    private _session: SessionManager;
+
+    /**
+     * Flag to determine whether to call init again when the session is not found.
+     * @private
+     */
+    private _autoReinit: boolean;
+
+    /**
+     * Flag to determine whether to verify the signature on every response.
+     * @private
+     */
+    private _verifySignature: boolean;
+
+    /**
+     * The encryption key sent with init, used with the app secret to verify responses after init.
+     * @private
+     */
+    private _encKey: string | undefined;
+
+    /**
+     * The retry policy for requests that failed on a transient error.
+     * @private
+     */
+    private _retryPolicy: RetryPolicy;
+
+    /**
+     * The default timeout in milliseconds for each attempt, `0` turns the timeout off.
+     * @private
+     */
+    private _timeoutMs: number;
+
+    /**
+     * The pending re-initialization so concurrent requests share one init call.
+     * @private
+     */
+    private _reinitializing: Promise<string | undefined> | undefined;
+
+    /**
+     * The reads that are in flight so concurrent identical reads share one request.
+     * @private
+     */
+    private _inFlight = new Map<string, Promise<any>>();
+
+    /**
+     * How many writes each session has started and finished and how many of its writes and shared reads are in flight.
+     * Reads only share a read sent in the same generation, a session is forgotten once nothing of it is in flight.
+     * @private
+     */
+    private _generations = new Map<
+        string,
+        { generation: number; pending: number }
+    >();
+
+    /**
+     * The last metadata update of each session, updates from this client wait for the one before them.
+     * @private
+     */
+    private _metaDataUpdates = new Map<string, Promise<unknown>>();
+
+    /**
+     * The validator, version, migrations and defaults for the users metadata.
+     * @private
+     */
+    private _metaDataSchema: MetaDataSchema<D>;
+
+    /**
+     * The cache for read heavy endpoints, `undefined` when caching is off.
+     * @private
+     */
+    private _cache: ResponseCache | undefined;
+
     /**
      * KeyAuth Client API Wrapper
      *
@@ -146,54 +284,123 @@ export default class Api {
      * @param {App['name']} `app.name` - The application name.
      * @param {App['ownerid']} `app.ownerid` - The application ownerID.
      * @param {App['ver']} `app.ownerid` - The application version.
+     * @param {App['secret']} [app.secret] - The application secret, needed to verify response signatures.
      *
      * @param {ClientOptions} [options] - Client api options all optional.
      * @param {ClientOptions['baseUrl']} `options.baseUrl` - To change the base url from https://keyauth.win/api/1.2/ to anything you like.
      * @param {ClientOptions['convertTimes']} `options.convertTimes` - To convert all times to readable times example like sub expiry.
      * @param {ClientOptions['logger']} `options.logger` - All the logger options.
      * @param {ClientOptions['ratelimit']} `options.ratelimit` - override the global rate limit set on the package.
+     * @param {ClientOptions['throwOnError']} `options.throwOnError` - Reject with a `KeyAuthError` when a request fails instead of resolving the failed response.
+     * @param {ClientOptions['session']} `options.session` - The session heartbeat and re-init options.
+     * @param {ClientOptions['retry']} `options.retry` - Retry options for requests that failed on a transient error.
+     * @param {ClientOptions['timeoutMs']} `options.timeoutMs` - How long in milliseconds to wait for each attempt, `0` turns the timeout off.
+     * @param {ClientOptions['transport']} `options.transport` - The transport used to send requests, defaults to fetch.
+     * @param {ClientOptions['metaData']} `options.metaData` - The validator, schema version, migrations and defaults for the users metadata.
+     * @param {ClientOptions['verifySignature']} `options.verifySignature` - Verify the signature on every response, needs `app.secret`.
+     * @param {ClientOptions['cache']} `options.cache` - Cache `fetchStats`, `fetchOnlineUsers` and `var.get` with a ttl for each endpoint.
      */
-    constructor(app: App, options?: ClientOptions) {
+    constructor(app: App, options?: ClientOptions<D>) {
         this.metaData = {
-            get: async ({
-                sessionId,
-                skipError = false,
-                skipResponse = false,
-            }: GetMetaData): Promise<GetMetaDataResponse> => {
+            get: async (
+                {
+                    sessionId,
+                    skipError = false,
+                    skipResponse = false,
+                }: GetMetaData,
+                requestOptions?: RequestOptions,
+            ): Promise<GetMetaDataResponse<D>> => {
                 // Check if API initialization is required
-                if (!this._checkInitialization()) {
-                    throw "API Initialization Required: Please initialize the API first.";
-                }
+                this._checkInitialization(EVENT_TYPE.METADATA);
 
                 // Check if the user is logged in
-                if (!(await this._checkUserLogin(sessionId))) {
-                    return Promise.reject();
-                }
+                await this._checkUserLogin(
+                    sessionId,
+                    EVENT_TYPE.METADATA,
+                    requestOptions,
+                );
+                // A missing variable is not an error when there are defaults to fall back to
+                const defaults = getDefaultMetaData(this._metaDataSchema);
+
                 // Get metadata from the server
-                const { message, success, time, nonce, response } =
-                    await this.var.user.get({
+                const getResponse = await this.var.user.get(
+                    {
                         sessionId,
                         varId: "metaData",
-                        skipError,
+                        skipError: skipError || defaults !== undefined,
                         skipResponse,
-                    });
+                    },
+                    requestOptions,
+                );
+                const { success, time, response } = getResponse;
 
                 if (success) {
+                    // Parse, migrate and validate the stored metadata
+                    let decoded: DecodedMetaData<D>;
+                    try {
+                        decoded = decodeMetaData(
+                            this._metaDataSchema,
+                            response,
+                        );
+                    } catch (error) {
+                        if (!(error instanceof MetaDataError)) throw error;
+                        return this._failMetaData(error, skipError, time);
+                    }
+
                     // Emit an event and return successful response
                     this._eventEmitter.emit(EVENT_TYPE.METADATA, {
                         message: "MetaData Successfully retrieved",
                         success,
                         time,
-                        metaData: JSON.parse(response),
+                        metaData: decoded.metaData,
                     });
 
                     return {
                         message: "MetaData Successfully retrieved",
                         success,
                         time,
-                        metaData: JSON.parse(response),
+                        metaData: decoded.metaData,
+                        version: decoded.version,
+                        revision: decoded.revision,
+                    };
+                } else if (
+                    defaults !== undefined &&
+                    isMissingMetaData(getResponse.message)
+                ) {
+                    // The user has no metadata yet, return the defaults
+                    this._logger.debug(
+                        EVENT_TYPE.METADATA,
+                        "No metaData stored, returning the defaults.",
+                    );
+                    this._eventEmitter.emit(EVENT_TYPE.METADATA, {
+                        message: "MetaData not set, returning the defaults",
+                        success: true,
+                        time,
+                        metaData: defaults,
+                    });
+
+                    return {
+                        message: "MetaData not set, returning the defaults",
+                        success: true,
+                        time,
+                        metaData: defaults,
+                        version: this._metaDataSchema.version,
+                        revision: 0,
+                        isDefault: true,
                     };
                 } else {
+                    // Report the failure that was skipped because of the defaults
+                    if (defaults !== undefined && !skipError) {
+                        const error = this._createResponseError(
+                            {
+                                type: EVENT_TYPE.GET_VAR,
+                                sessionid: this._session.resolve(sessionId),
+                            },
+                            getResponse,
+                        );
+                        this._emitError(error);
+                        if (this._throwOnError) throw error;
+                    }
                     // Return a response for failed metadata retrieval
                     return {
                         message:
@@ -203,37 +410,52 @@ export default class Api {
                     };
                 }
             },
-            set: async ({
-                metaData,
-                sessionId,
-                skipError = false,
-                skipResponse = false,
-            }: SetMetaData): Promise<SetMetaDataResponse> => {
+            set: async (
+                {
+                    metaData,
+                    sessionId,
+                    skipError = false,
+                    skipResponse = false,
+                }: SetMetaData<D>,
+                requestOptions?: RequestOptions,
+            ): Promise<SetMetaDataResponse> => {
                 // Check if API initialization is required
-                if (!this._checkInitialization()) {
-                    throw "API Initialization Required: Please initialize the API first.";
+                this._checkInitialization(EVENT_TYPE.METADATA);
+
+                // Validate the metadata before anything is sent
+                let encoded: { metaData: D; raw: string };
+                try {
+                    encoded = encodeMetaData(this._metaDataSchema, metaData);
+                } catch (error) {
+                    if (!(error instanceof MetaDataError)) throw error;
+                    return this._failMetaData(error, skipError, 0);
                 }
 
                 // Check if the user is logged in
-                if (!(await this._checkUserLogin(sessionId))) {
-                    return Promise.reject();
-                }
-                // Set metadata on the server
+                await this._checkUserLogin(
+                    sessionId,
+                    EVENT_TYPE.METADATA,
+                    requestOptions,
+                );
+                // Set metadata on the server with its schema version
                 const { message, nonce, success, time } =
-                    await this.var.user.set({
-                        sessionId,
-                        skipError,
-                        skipResponse,
-                        varData: JSON.stringify(metaData),
-                        varId: "metaData",
-                    });
+                    await this.var.user.set(
+                        {
+                            sessionId,
+                            skipError,
+                            skipResponse,
+                            varData: encoded.raw,
+                            varId: "metaData",
+                        },
+                        requestOptions,
+                    );
 
                 // Emit an event and return successful response
                 this._eventEmitter.emit(EVENT_TYPE.METADATA, {
                     message: "MetaData Successfully updated",
                     success,
                     time,
-                    metaData,
+                    metaData: encoded.metaData,
                 });
 
                 return {
@@ -243,41 +465,108 @@ export default class Api {
                     nonce,
                 };
             },
+            patch: async (
+                {
+                    metaData,
+                    sessionId,
+                    skipError = false,
+                    skipResponse = false,
+                }: PatchMetaData<D>,
+                requestOptions?: RequestOptions,
+            ): Promise<UpdateMetaDataResponse<D>> => {
+                // Log the patch process
+                this._logger.debug(EVENT_TYPE.METADATA, "Patching metaData.");
+
+                // Merge the patch into the stored metadata
+                return this._updateMetaData(
+                    sessionId,
+                    (current) => mergeMetaData(current, metaData),
+                    { skipError, skipResponse },
+                    requestOptions,
+                );
+            },
+            update: async (
+                {
+                    updater,
+                    sessionId,
+                    skipError = false,
+                    skipResponse = false,
+                }: UpdateMetaData<D>,
+                requestOptions?: RequestOptions,
+            ): Promise<UpdateMetaDataResponse<D>> => {
+                // Log the update process
+                this._logger.debug(EVENT_TYPE.METADATA, "Updating metaData.");
+
+                // Run the updater on the stored metadata
+                return this._updateMetaData(
+                    sessionId,
+                    updater,
+                    { skipError, skipResponse },
+                    requestOptions,
+                );
+            },
+            delete: async (
+                {
+                    keys,
+                    sessionId,
+                    skipError = false,
+                    skipResponse = false,
+                }: DeleteMetaData<D>,
+                requestOptions?: RequestOptions,
+            ): Promise<UpdateMetaDataResponse<D>> => {
+                // Log the delete process
+                this._logger.debug(
+                    EVENT_TYPE.METADATA,
+                    "Deleting metaData keys.",
+                );
+
+                // Remove the keys from the stored metadata
+                return this._updateMetaData(
+                    sessionId,
+                    (current) => deleteMetaDataKeys(current, keys),
+                    { skipError, skipResponse },
+                    requestOptions,
+                );
+            },
         };
         this.var = {
-            get: async ({
-                sessionId,
-                varId,
-                skipResponse = false,
-                skipError = false,
-            }: GlobalVar): Promise<GlobalVarResponse> => {
+            get: async (
+                {
+                    sessionId,
+                    varId,
+                    skipResponse = false,
+                    skipError = false,
+                }: GlobalVar,
+                requestOptions?: RequestOptions,
+            ): Promise<GlobalVarResponse> => {
                 // Log the GLOBAL operation
                 this._logger.debug(EVENT_TYPE.VAR, "Running var.");
 
                 // Check if the API is initialized
-                if (!this._checkInitialization()) {
-                    // If not initialized, reject the operation
-                    return Promise.reject(
-                        "API Initialization Required: Please initialize the API first.",
-                    );
-                }
+                this._checkInitialization(EVENT_TYPE.VAR);
 
                 // Prepare GLOBAL variable parameters
                 const varParams: VarParams = {
                     type: EVENT_TYPE.VAR,
                     var: varId,
-                    sessionid: sessionId,
+                    sessionid: this._session.resolve(sessionId),
                 };
 
                 // Log the GLOBAL request
                 this._logger.debug(EVENT_TYPE.VAR, "Sending var request.");
 
-                // Send the GLOBAL request and wait for the response
-                const response = await this._makeRequest({
-                    params: { ...varParams },
-                    skipError,
-                    skipResponse,
-                });
+                // Send the GLOBAL request, or use the cached response, and wait for the response
+                const response = await this._cachedRequest(
+                    EVENT_TYPE.VAR,
+                    `${varParams.sessionid}:${varId}`,
+                    () =>
+                        this._makeRequest({
+                            params: { ...varParams },
+                            requestOptions,
+                            skipError,
+                            skipResponse,
+                        }),
+                );
 
                 // Log that the GLOBAL operation is complete and return the response
                 this._logger.debug(
@@ -290,12 +579,15 @@ export default class Api {
                 };
             },
             user: {
-                get: async ({
-                    sessionId,
-                    varId,
-                    skipResponse = false,
-                    skipError = false,
-                }: GetUserVar): Promise<GetUserVarResponse> => {
+                get: async (
+                    {
+                        sessionId,
+                        varId,
+                        skipResponse = false,
+                        skipError = false,
+                    }: GetUserVar,
+                    requestOptions?: RequestOptions,
+                ): Promise<GetUserVarResponse> => {
                     // Log the GET operation
                     this._logger.debug(
                         EVENT_TYPE.GET_VAR,
@@ -303,17 +595,12 @@ export default class Api {
                     );
 
                     // Check if the API is initialized
-                    if (!this._checkInitialization()) {
-                        // If not initialized, reject the operation
-                        return Promise.reject(
-                            "API Initialization Required: Please initialize the API first.",
-                        );
-                    }
+                    this._checkInitialization(EVENT_TYPE.GET_VAR);
 
                     // Prepare GET variable parameters
                     const getVarParams: VarParams = {
                         type: EVENT_TYPE.GET_VAR,
-                        sessionid: sessionId,
+                        sessionid: this._session.resolve(sessionId),
                         var: varId,
                     };
 
@@ -326,6 +613,7 @@ export default class Api {
                     // Send the GET request and wait for the response
                     const response = await this._makeRequest({
                         params: { ...getVarParams },
+                        requestOptions,
                         skipResponse,
                         skipError,
                     });
@@ -338,13 +626,16 @@ export default class Api {
 
                     return { ...response };
                 },
-                set: async ({
-                    sessionId,
-                    varData,
-                    varId,
-                    skipResponse = false,
-                    skipError = false,
-                }: SetUserVar): Promise<SetUserVarResponse> => {
+                set: async (
+                    {
+                        sessionId,
+                        varData,
+                        varId,
+                        skipResponse = false,
+                        skipError = false,
+                    }: SetUserVar,
+                    requestOptions?: RequestOptions,
+                ): Promise<SetUserVarResponse> => {
                     // Log the SET operation
                     this._logger.debug(
                         EVENT_TYPE.SET_VAR,
@@ -352,17 +643,12 @@ export default class Api {
                     );
 
                     // Check if the API is initialized
-                    if (!this._checkInitialization()) {
-                        // If not initialized, reject the operation
-                        return Promise.reject(
-                            "API Initialization Required: Please initialize the API first.",
-                        );
-                    }
+                    this._checkInitialization(EVENT_TYPE.SET_VAR);
 
                     // Prepare SET variable parameters
                     const setVarParams: VarParams = {
                         type: EVENT_TYPE.SET_VAR,
-                        sessionid: sessionId,
+                        sessionid: this._session.resolve(sessionId),
                         data: varData,
                         var: varId,
                     };
@@ -376,6 +662,7 @@ export default class Api {
                     // Send the SET request and wait for the response
                     const response = await this._makeRequest({
                         params: { ...setVarParams },
+                        requestOptions,
                         skipResponse,
                         skipError,
                     });
@@ -391,21 +678,19 @@ export default class Api {
             },
         };
         this.chat = {
-            get: async ({
-                channel,
-                sessionId,
-            }: GetChat): Promise<GetChatResponse> => {
+            get: async (
+                { channel, sessionId }: GetChat,
+                requestOptions?: RequestOptions,
+            ): Promise<GetChatResponse> => {
                 this._logger.debug(EVENT_TYPE.CHAT_GET, "Running get chat.");
 
                 // Check if API initialization is required
-                if (!this._checkInitialization()) {
-                    throw "API Initialization Required: Please initialize the API first.";
-                }
+                this._checkInitialization(EVENT_TYPE.CHAT_GET);
 
                 // Construct the get chat parameters
                 const getChatParams: GetChatParams = {
                     type: EVENT_TYPE.CHAT_GET,
-                    sessionid: sessionId,
+                    sessionid: this._session.resolve(sessionId),
                     channel,
                 };
 
@@ -417,6 +702,7 @@ export default class Api {
                 // Make the API request to retrieve chat messages
                 const response = await this._makeRequest({
                     params: { ...getChatParams },
+                    requestOptions,
                 });
 
                 // Emit a 'chatget' event if chat messages were successfully retrieved
@@ -433,23 +719,19 @@ export default class Api {
 
                 return { ...response };
             },
-            send: async ({
-                channel,
-                message,
-                username,
-                sessionId,
-            }: SendChat): Promise<SendChatResponse> => {
+            send: async (
+                { channel, message, username, sessionId }: SendChat,
+                requestOptions?: RequestOptions,
+            ): Promise<SendChatResponse> => {
                 this._logger.debug(EVENT_TYPE.CHAT_SEND, "Running set chat.");
 
                 // Check if API initialization is required
-                if (!this._checkInitialization()) {
-                    throw "API Initialization Required: Please initialize the API first.";
-                }
+                this._checkInitialization(EVENT_TYPE.CHAT_SEND);
 
                 // Construct the send chat parameters
                 const sendChatParams: SendChatParams = {
                     type: EVENT_TYPE.CHAT_SEND,
-                    sessionid: sessionId,
+                    sessionid: this._session.resolve(sessionId),
                     channel,
                     message,
                 };
@@ -462,6 +744,7 @@ export default class Api {
                 // Make the API request to send the chat message
                 const response = await this._makeRequest({
                     params: { ...sendChatParams },
+                    requestOptions,
                 });
 
                 // Emit a 'chatsend' event if the chat message was sent successfully
@@ -486,6 +769,13 @@ export default class Api {
         const eventEmitter = new KeyauthEventEmitter();
         this._eventEmitter = eventEmitter;
 
+        // Initialize the session manager with the heartbeat options
+        this._session = new SessionManager(
+            eventEmitter,
+            options?.session?.heartbeat ?? 0,
+        );
+        this._autoReinit = options?.session?.autoReinit ?? true;
+
         // Initialize logger with provided options or empty object
         this._logger = new Logger(
             { ...options?.logger, name: "Keyauth API" } ?? {},
@@ -496,11 +786,9 @@ export default class Api {
             this._logger.info(EVENT_TYPE.INSTANCE, "Using custom base url");
         }
 
-        // Create Axios instance with base URL and headers
-        this._axiosInstance = axios.create({
-            baseURL: options?.baseUrl ?? BASE_URL,
-            headers: HEADERS,
-        });
+        // Use the provided transport or send requests with fetch
+        this._baseUrl = options?.baseUrl ?? BASE_URL;
+        this._transport = options?.transport ?? new FetchTransport();
 
         // Initialize rate limiter with default or provided options
         this._rateLimiter = new RateLimiter(
@@ -510,10 +798,38 @@ export default class Api {
         // Determine whether to convert timestamps to local dates
         this._convertTimes = options?.convertTimes ?? false;
 
+        // Determine whether failed requests should reject
+        this._throwOnError = options?.throwOnError ?? false;
+
+        // Fill in the retry policy for transient failures
+        this._retryPolicy = createRetryPolicy(options?.retry);
+
+        // Determine the default timeout for each attempt
+        this._timeoutMs = options?.timeoutMs ?? 0;
+
+        // Fill in the metadata schema
+        this._metaDataSchema = createMetaDataSchema(options?.metaData);
+
+        // Create the response cache when caching is turned on
+        if (options?.cache) {
+            this._cache = new ResponseCache(
+                options.cache === true ? {} : options.cache,
+            );
+        }
+
         // Store information about the app
         this._app = app;
 
-        // Log Axios instance creation
+        // Determine whether to verify response signatures, this can not work without the app secret
+        this._verifySignature = options?.verifySignature ?? false;
+        if (this._verifySignature && !app.secret) {
+            throw new InvalidApplicationError(
+                "verifySignature needs the app secret, set app.secret or turn off verifySignature.",
+                { type: EVENT_TYPE.INSTANCE },
+            );
+        }
+
+        // Log instance creation
         this._logger.debug(EVENT_TYPE.INSTANCE, "Keyauth instance created.");
     }
 
@@ -529,216 +845,914 @@ export default class Api {
     }
 
     /**
-     * Register a one-time event listener for a specific event type.
-     * The listener will be automatically removed after it's been called once.
+     * Register a one-time event listener for a specific event type.
+     * The listener will be automatically removed after it's been called once.
+     *
+     * @template E - The type of the event.
+     * @param {E} event - The event type to listen for.
+     * @param {EventMap[E]} callback - The callback function to execute when the event occurs.
+     */
+    public once<E extends keyof EventMap>(event: E, callback: EventMap[E]) {
+        this._eventEmitter.once(event, callback);
+    }
+
+    /**
+     * The current session stored from init, `undefined` before init or after the session was killed.
+     */
+    public get session(): Session | undefined {
+        return this._session.session;
+    }
+
+    /**
+     * Remove cached responses so the next call fetches them again.
+     *
+     * @param {CacheableType | CacheableType[]} [types] - The endpoints to clear, every endpoint is cleared when left out.
+     */
+    public async invalidateCache(
+        types?: CacheableType | CacheableType[],
+    ): Promise<void> {
+        if (!this._cache) return;
+        await this._cache.invalidate(
+            types === undefined || Array.isArray(types) ? types : [types],
+        );
+    }
+
+    // Private functions
+    // ------------------------------------------
+
+    /**
+     * Makes a request to the Keyauth API with the provided parameters.
+     *
+     * @param {MakerRequest} options - The parameters for the API request.
+     * @returns {Promise<ApiResponse>} A promise that resolves to the API response.
+     * @throws {KeyAuthError} If `throwOnError` is enabled and the request failed.
+     * @private
+     */
+    private async _makeRequest({
+        params,
+        skipError = false,
+        skipResponse = false,
+        reinitialized = false,
+        attempt = 1,
+        deduped = false,
+        requestOptions,
+    }: MakeRequest): Promise<any> {
+        if (!deduped && attempt === 1 && !reinitialized) {
+            const session = String(params.sessionid ?? "");
+            if (MUTATING_TYPES.includes(params.type)) {
+                // A write moves its session to a new generation when it starts and when it is done,
+                // so a read that starts after it never shares a read sent before it
+                this._trackSession(session).generation++;
+                return this._makeRequest({
+                    params,
+                    skipError,
+                    skipResponse,
+                    deduped: true,
+                    requestOptions,
+                }).finally(() => this._releaseSession(session, true));
+            }
+
+            // Share the response of an identical read that is already in flight
+            const key = getDedupeKey(
+                {
+                    params,
+                    skipError,
+                    skipResponse,
+                    requestOptions,
+                },
+                this._generations.get(session)?.generation ?? 0,
+            );
+            if (key !== undefined) {
+                let request = this._inFlight.get(key);
+                if (request) {
+                    this._logger.debug(
+                        EVENT_TYPE.REQUEST,
+                        "Sharing an identical request that is already in flight.",
+                    );
+                } else {
+                    this._trackSession(session);
+                    request = this._makeRequest({
+                        params,
+                        skipError,
+                        skipResponse,
+                        deduped: true,
+                        requestOptions,
+                    }).finally(() => {
+                        this._inFlight.delete(key);
+                        this._releaseSession(session, false);
+                    });
+                    this._inFlight.set(key, request);
+                }
+                // Every caller gets its own copy of the response
+                const response = await request;
+                return { ...response };
+            }
+        }
+
+        // Capture the start time to measure request duration
+        const startTime = Date.now();
+        const signal = requestOptions?.signal;
+        let requestSignal: RequestSignal | undefined;
+        let transportResponse: TransportResponse | undefined;
+        let response: { status: number; data: any };
+        let responseTime: number;
+        try {
+            this._logger.debug(
+                EVENT_TYPE.REQUEST,
+                "Making a request to keyauth API.",
+            );
+            // Stop straight away if the caller aborted the request
+            if (signal?.aborted) throw this._createAbortError(params.type);
+
+            // Check if the rate limiter has hit its rate limit
+            if (this._rateLimiter.hasHitRateLimit()) {
+                this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
+                    type: EVENT_TYPE.RATE_LIMIT,
+                    success: false,
+                    message: `Client Api rate limit hit please wait ${this._rateLimiter.getTimeUntilCanMakeRequestString()}`,
+                    time: startTime - Date.now(),
+                } as any);
+                this._logger.debug(
+                    EVENT_TYPE.REQUEST,
+                    `Rate limit hit please wait ${this._rateLimiter.getTimeUntilCanMakeRequestString()}`,
+                );
+
+                // Wait until it's possible to make a request again
+                await this._rateLimiter.waitUntilCanMakeRequest(signal);
+
+                // Retry the request after the rate limit is reset
+                return this._makeRequest({
+                    params,
+                    skipResponse,
+                    skipError,
+                    reinitialized,
+                    attempt,
+                    deduped,
+                    requestOptions,
+                });
+            }
+
+            // Abort the attempt when the caller aborts or the timeout runs out
+            requestSignal = createRequestSignal(
+                signal,
+                requestOptions?.timeoutMs ?? this._timeoutMs,
+            );
+
+            // Send the HTTP request to the Keyauth API with the transport
+            transportResponse = await this._transport.send({
+                url: this._baseUrl,
+                params: {
+                    ...params,
+                    name: this._app.name,
+                    ownerid: this._app.ownerid,
+                },
+                headers: HEADERS,
+                signal: requestSignal.signal,
+            });
+            requestSignal.clear();
+
+            // Only a 2xx response came from the keyauth api
+            if (
+                transportResponse.status < 200 ||
+                transportResponse.status >= 300
+            ) {
+                throw new Error(
+                    `Request failed with status code ${transportResponse.status}`,
+                );
+            }
+
+            // Verify the signature and parse the raw body
+            response = {
+                status: transportResponse.status,
+                data: await this._parseResponse(params.type, transportResponse),
+            };
+            // Calculate the time taken for the request
+            const endTime = Date.now();
+            responseTime = endTime - startTime;
+
+            // Handle different types of API responses
+            if (response.data === "KeyAuth_Invalid") {
+                // Handle the case where the API client is not set up correctly
+                response.data = {
+                    success: false,
+                    message: "Keyauth API client not set up correctly!",
+                    time: responseTime,
+                };
+            }
+            if (params.type === EVENT_TYPE.LOG && response.status === 200) {
+                // Handle a successful log request
+                response.data = {
+                    success: true,
+                    message: "Log successfully sent.",
+                };
+            }
+            // Any other body that is not a json object did not come from the keyauth api, like a proxy error page
+            if (
+                typeof response.data !== "object" ||
+                response.data === null ||
+                Array.isArray(response.data)
+            ) {
+                throw new TransportError("Response body is not a JSON object", {
+                    type: params.type,
+                    response: transportResponse.body,
+                });
+            }
+            if (params.type === EVENT_TYPE.WEBHOOK && response.status === 200) {
+                // Handle a successful webhook request
+                response.data = {
+                    success: response.data.success,
+                    message: response.data.message,
+                    nonce: response.data.nonce,
+                    data: response.data.response,
+                };
+            }
+        } catch (error) {
+            requestSignal?.clear();
+            // Errors we have already handled are passed straight up, a transport error thrown above can still be retried
+            if (
+                error instanceof KeyAuthError &&
+                !(error instanceof TransportError)
+            ) {
+                throw error;
+            }
+
+            // The caller aborted the request, this is never retried
+            if (signal?.aborted) throw this._createAbortError(params.type);
+
+            const transportError =
+                error instanceof TransportError
+                    ? error
+                    : requestSignal?.timedOut()
+                    ? new TimeoutError(
+                          `Request timed out after ${
+                              requestOptions?.timeoutMs ?? this._timeoutMs
+                          }ms`,
+                          { type: params.type, cause: error },
+                      )
+                    : this._createTransportError(
+                          params.type,
+                          error,
+                          transportResponse,
+                      );
+            // Emit the failed attempt so every attempt shows up in the request event
+            this._eventEmitter.emit(EVENT_TYPE.REQUEST, {
+                type: params.type,
+                request: {
+                    url: this._baseUrl,
+                    params,
+                },
+                attempt,
+                response: {
+                    success: false,
+                    message: transportError.message,
+                    time: Date.now() - startTime,
+                } as any,
+            });
+
+            // Send the request again if the error is transient
+            if (
+                shouldRetry(
+                    this._retryPolicy,
+                    transportError,
+                    params.type,
+                    attempt,
+                )
+            ) {
+                const delay = getRetryDelay(this._retryPolicy, attempt);
+                this._logger.warning(
+                    EVENT_TYPE.REQUEST,
+                    `Attempt ${attempt} failed: ${transportError.message}, retrying in ${delay}ms.`,
+                );
+                await sleep(delay, signal);
+                return this._makeRequest({
+                    params,
+                    skipError,
+                    skipResponse,
+                    reinitialized,
+                    attempt: attempt + 1,
+                    requestOptions,
+                });
+            }
+
+            // Log the transport error
+            this._logger.error(EVENT_TYPE.ERROR, transportError.message);
+            if (!skipError) this._emitError(transportError);
+            if (this._throwOnError) throw transportError;
+
+            // Resolve with a failed response so callers always get an object back
+            return {
+                success: false,
+                message: transportError.message,
+                time: Date.now() - startTime,
+            };
+        }
+
+        // Emit an event for the API response (if not skipped)
+        // Events are emitted outside the try so a throwing listener is not mistaken for a transport error
+        if (!skipResponse) {
+            this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
+                ...response.data,
+                time: responseTime,
+                type: params.type,
+            });
+        }
+        // Emit an event for the API request and return the response
+        this._eventEmitter.emit(EVENT_TYPE.REQUEST, {
+            type: params.type,
+            request: {
+                url: this._baseUrl,
+                params,
+            },
+            attempt,
+            response: {
+                ...response.data,
+                time: responseTime,
+            },
+        });
+        if (response.data.success === false) {
+            // Work out which error the failed response maps to
+            const error = this._createResponseError(params, response.data);
+            // The stored session no longer exists on keyauth
+            if (
+                error instanceof SessionKilledError &&
+                params.sessionid === this._session.id
+            ) {
+                this._session.kill();
+                this._initializedClient = false;
+                if (!skipError) this._emitError(error);
+                if (this._autoReinit && !reinitialized) {
+                    // Create a new session and send the request again with it
+                    const sessionid = await this._reinit();
+                    if (sessionid) {
+                        return this._makeRequest({
+                            params: { ...params, sessionid },
+                            skipError,
+                            skipResponse,
+                            reinitialized: true,
+                            requestOptions,
+                        });
+                    }
+                }
+                if (!skipError && this._throwOnError) throw error;
+            } else if (!skipError) {
+                this._emitError(error);
+                if (this._throwOnError) throw error;
+            }
+        } else if (this._cache) {
+            // Clear the cached responses this request changed
+            await this._cache
+                .invalidateAfter(params.type)
+                .catch((error) =>
+                    this._logger.warning(
+                        EVENT_TYPE.REQUEST,
+                        `Clearing the cache failed: ${error}`,
+                    ),
+                );
+        }
+        return {
+            ...response.data,
+            time: responseTime,
+        };
+    }
+
+    /**
+     * Count a write or shared read of a session as in flight.
+     *
+     * @param {string} session - The session ID the request was sent with.
+     * @returns {{ generation: number; pending: number }} The generation of the session.
+     * @private
+     */
+    private _trackSession(session: string): {
+        generation: number;
+        pending: number;
+    } {
+        let state = this._generations.get(session);
+        if (!state) {
+            state = { generation: 0, pending: 0 };
+            this._generations.set(session, state);
+        }
+        state.pending++;
+        return state;
+    }
+
+    /**
+     * Count a write or shared read of a session as done, the session is forgotten when nothing of it is in flight.
+     * A write that is done moves the session to the next generation so reads that start from now on do not share a read sent before.
+     *
+     * @param {string} session - The session ID the request was sent with.
+     * @param {boolean} write - If the request was a write.
+     * @private
+     */
+    private _releaseSession(session: string, write: boolean) {
+        const state = this._generations.get(session);
+        if (!state) return;
+        if (write) state.generation++;
+        // No read can be shared once nothing is in flight, so the generation can start again
+        if (--state.pending === 0) this._generations.delete(session);
+    }
+
+    /**
+     * Return the cached response of an endpoint or send the request when caching is off or nothing is cached.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @param {string} id - What makes the response unique for the endpoint.
+     * @param {() => Promise<T>} request - Sends the request.
+     * @returns {Promise<T>} The cached or fetched response.
+     * @private
+     */
+    private _cachedRequest<T extends { success?: boolean }>(
+        type: CacheableType,
+        id: string,
+        request: () => Promise<T>,
+    ): Promise<T> {
+        if (!this._cache) return request();
+        return this._cache.wrap(type, id, request, (error) =>
+            this._logger.warning(
+                type,
+                `Fetching the stale cached response again failed: ${error}`,
+            ),
+        );
+    }
+
+    /**
+     * Verifies the signature of a raw response if enabled and parses it.
+     *
+     * @param {EventType} type - The request type the response is for.
+     * @param {TransportResponse} response - The raw response from the transport.
+     * @returns {Promise<any>} The parsed response body.
+     * @throws {IntegrityError} If the signature does not match the response, this is thrown even when `throwOnError` is disabled.
+     * @private
+     */
+    private async _parseResponse(
+        type: EventType,
+        response: TransportResponse,
+    ): Promise<any> {
+        const body = response.body;
+        const signature = response.headers["signature"];
+
+        // Log requests and invalid application responses are never signed by keyauth
+        if (
+            this._verifySignature &&
+            type !== EVENT_TYPE.LOG &&
+            body !== "KeyAuth_Invalid"
+        ) {
+            // Init is signed with the secret, everything after init with the enckey and secret
+            const key =
+                type === EVENT_TYPE.INIT || !this._encKey
+                    ? this._app.secret!
+                    : `${this._encKey}-${this._app.secret}`;
+
+            if (!(await verifySignature(body, signature, key))) {
+                const error = new IntegrityError(
+                    "Response signature does not match, the response may have been tampered with.",
+                    { type, response: body },
+                );
+                this._logger.error(EVENT_TYPE.ERROR, error.message);
+                this._emitError(error);
+                throw error;
+            }
+        }
+
+        return parseBody(body);
+    }
+
+    /**
+     * Creates the matching {@link KeyAuthError} for a failed api response.
+     *
+     * @param {MakeRequest['params']} params - The params that were sent with the request.
+     * @param {any} data - The raw response from the keyauth api.
+     * @returns {KeyAuthError} The error matching the failed response.
+     * @private
+     */
+    private _createResponseError(
+        params: MakeRequest["params"],
+        data: any,
+    ): KeyAuthError {
+        const message = String(data.message);
+        const details = { type: params.type, response: data };
+
+        if (
+            params.sessionid === "" &&
+            message.startsWith("Session not found.")
+        ) {
+            return new KeyAuthError(message, {
+                ...details,
+                code: ERROR_CODE.K_NSID,
+            });
+        }
+        if (message.startsWith("Session not found.")) {
+            return new SessionKilledError("The session was killed!", details);
+        }
+        if (message === "Chat channel not found") {
+            return new KeyAuthError(message, {
+                ...details,
+                code: ERROR_CODE.K_NCC,
+            });
+        }
+        if (message.startsWith("Keyauth API client")) {
+            return new InvalidApplicationError(message, details);
+        }
+        return new KeyAuthError(message, { ...details, code: ERROR_CODE.K_U });
+    }
+
+    /**
+     * Creates the {@link AbortError} for a request the caller aborted.
+     *
+     * @param {EventType} type - The request type that was aborted.
+     * @returns {AbortError} The abort error.
+     * @private
+     */
+    private _createAbortError(type: EventType): AbortError {
+        this._logger.debug(
+            EVENT_TYPE.REQUEST,
+            "Request aborted by the caller.",
+        );
+        return new AbortError("The request was aborted.", { type });
+    }
+
+    /**
+     * Wraps an error thrown while sending a request in a {@link TransportError} or {@link RateLimitedError}.
+     *
+     * @param {EventType} type - The request type that failed.
+     * @param {unknown} error - The error that was thrown.
+     * @param {TransportResponse} [response] - The raw response if the server responded.
+     * @returns {KeyAuthError} The wrapped error.
+     * @private
+     */
+    private _createTransportError(
+        type: EventType,
+        error: unknown,
+        response?: TransportResponse,
+    ): KeyAuthError {
+        const message = `${(error as any)?.message ?? error}`;
+        // The keyauth api rate limited the request
+        if (response?.status === 429) {
+            return new RateLimitedError(message, {
+                type,
+                response: parseBody(response.body),
+                cause: error,
+            });
+        }
+        return new TransportError(message, {
+            type,
+            response: response && parseBody(response.body),
+            status: response?.status,
+            cause: error,
+        });
+    }
+
+    /**
+     * Emits a {@link KeyAuthError} to the error event emitter.
+     *
+     * @param {KeyAuthError} error - The error to emit.
+     * @private
+     */
+    private _emitError(error: KeyAuthError) {
+        // Node throws on an `error` event nobody listens for
+        if (this._eventEmitter.listenerCount(EVENT_TYPE.ERROR) === 0) return;
+        this._eventEmitter.emit(EVENT_TYPE.ERROR, {
+            type: error.type,
+            success: false,
+            message: error.message,
+            errorCode: error.code,
+        });
+    }
+
+    /**
+     * Logs and emits a metadata error and turns it into a failed response.
+     *
+     * @param {KeyAuthError} error - The metadata error.
+     * @param {boolean} skipError - If to skip emitting and throwing the error.
+     * @param {number} time - The time the request took.
+     * @returns {BaseResponse} The failed response.
+     * @throws {KeyAuthError} If `throwOnError` is enabled and the error is not skipped.
+     * @private
+     */
+    private _failMetaData(
+        error: KeyAuthError,
+        skipError: boolean,
+        time: number,
+    ): BaseResponse {
+        this._logger.error(EVENT_TYPE.METADATA, error.message);
+        if (!skipError) {
+            this._emitError(error);
+            if (this._throwOnError) throw error;
+        }
+        return { success: false, message: error.message, time };
+    }
+
+    /**
+     * Reads the stored metadata with its revision, a user without metadata gets the defaults at revision `0`.
+     *
+     * @param {string} [sessionId] - The session ID of the user.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
+     * @returns {Promise<{ decoded: DecodedMetaData<D>; time: number } | { error: KeyAuthError; time: number }>} The stored metadata or the error reading it failed with.
+     * @private
+     */
+    private async _readMetaData(
+        sessionId: string | undefined,
+        requestOptions?: RequestOptions,
+    ): Promise<
+        | { decoded: DecodedMetaData<D>; time: number }
+        | { error: KeyAuthError; time: number }
+    > {
+        // Reads for an update are never shared so they always see the latest write
+        const response = await this._makeRequest({
+            params: {
+                type: EVENT_TYPE.GET_VAR,
+                sessionid: this._session.resolve(sessionId),
+                var: "metaData",
+            },
+            skipError: true,
+            skipResponse: true,
+            deduped: true,
+            requestOptions,
+        });
+        const time = response.time;
+
+        if (!response.success) {
+            // A user without metadata starts from the defaults
+            if (isMissingMetaData(response.message)) {
+                const defaults = getDefaultMetaData(this._metaDataSchema);
+                return {
+                    decoded: {
+                        metaData: JSON.parse(JSON.stringify(defaults ?? {})),
+                        version: this._metaDataSchema.version,
+                        revision: 0,
+                        writer: undefined,
+                        writers: [],
+                    },
+                    time,
+                };
+            }
+            const error = this._createResponseError(
+                {
+                    type: EVENT_TYPE.GET_VAR,
+                    sessionid: this._session.resolve(sessionId),
+                },
+                response,
+            );
+            return { error, time };
+        }
+
+        try {
+            return {
+                decoded: decodeMetaData(
+                    this._metaDataSchema,
+                    response.response,
+                ),
+                time,
+            };
+        } catch (error) {
+            if (!(error instanceof MetaDataError)) throw error;
+            return { error, time };
+        }
+    }
+
+    /**
+     * Run a metadata update once the updates this client already started for the session are done.
+     * Keyauth has no compare-and-swap, so concurrent updates from one client are queued instead of racing each other.
      *
-     * @template E - The type of the event.
-     * @param {E} event - The event type to listen for.
-     * @param {EventMap[E]} callback - The callback function to execute when the event occurs.
+     * @param {string} [sessionId] - The session ID of the user.
+     * @param {(metaData: D) => D} updater - Returns the new metadata from the stored metadata.
+     * @param {{ skipError: boolean; skipResponse: boolean }} options - If to skip logging the error and response.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateMetaDataResponse<D>>} The stored metadata and its revision.
+     * @private
      */
-    public once<E extends keyof EventMap>(event: E, callback: EventMap[E]) {
-        this._eventEmitter.once(event, callback);
-    }
+    private _updateMetaData(
+        sessionId: string | undefined,
+        updater: (metaData: D) => D,
+        options: { skipError: boolean; skipResponse: boolean },
+        requestOptions?: RequestOptions,
+    ): Promise<UpdateMetaDataResponse<D>> {
+        const session = this._session.resolve(sessionId);
+        const previous =
+            this._metaDataUpdates.get(session) ?? Promise.resolve();
+        const update = previous.then(() =>
+            this._applyMetaDataUpdate(
+                sessionId,
+                updater,
+                options,
+                requestOptions,
+            ),
+        );
 
-    // Private functions
-    // ------------------------------------------
+        // Only keep the last update, a failed update does not stop the ones after it
+        const settled = update.catch(() => {});
+        this._metaDataUpdates.set(session, settled);
+        settled.then(() => {
+            if (this._metaDataUpdates.get(session) === settled) {
+                this._metaDataUpdates.delete(session);
+            }
+        });
+        return update;
+    }
 
     /**
-     * Makes a request to the Keyauth API with the provided parameters.
+     * Read, change and store the metadata, then read it back to see if the write was kept.
+     * When someone else overwrote it the change runs again on the newest metadata, a later write that was built on top of ours keeps our change.
+     * This is best effort, keyauth has no compare-and-swap so a write from another client that read older metadata
+     * and lands after the read back is not seen and our change is lost even though it is reported as stored.
      *
-     * @param {MakerRequest} options - The parameters for the API request.
-     * @returns {Promise<ApiResponse>} A promise that resolves to the API response.
-     * @throws {AxiosError} If there is an issue with the Axios HTTP request.
+     * @param {string} [sessionId] - The session ID of the user.
+     * @param {(metaData: D) => D} updater - Returns the new metadata from the stored metadata.
+     * @param {{ skipError: boolean; skipResponse: boolean }} options - If to skip logging the error and response.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateMetaDataResponse<D>>} The stored metadata and its revision.
      * @private
      */
-    private async _makeRequest({
-        params,
-        skipError = false,
-        skipResponse = false,
-    }: MakeRequest): Promise<any> {
-        // Capture the start time to measure request duration
-        const startTime = Date.now();
-        try {
-            this._logger.debug(
-                EVENT_TYPE.REQUEST,
-                "Making a request to keyauth API.",
-            );
-            // Check if the rate limiter has hit its rate limit
-            if (this._rateLimiter.hasHitRateLimit()) {
-                this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
-                    type: EVENT_TYPE.RATE_LIMIT,
-                    success: false,
-                    message: `Client Api rate limit hit please wait ${this._rateLimiter.getTimeUntilCanMakeRequestString()}`,
-                    time: startTime - Date.now(),
-                } as any);
-                this._logger.debug(
-                    EVENT_TYPE.REQUEST,
-                    `Rate limit hit please wait ${this._rateLimiter.getTimeUntilCanMakeRequestString()}`,
-                );
+    private async _applyMetaDataUpdate(
+        sessionId: string | undefined,
+        updater: (metaData: D) => D,
+        {
+            skipError,
+            skipResponse,
+        }: { skipError: boolean; skipResponse: boolean },
+        requestOptions?: RequestOptions,
+    ): Promise<UpdateMetaDataResponse<D>> {
+        // Check if API initialization is required
+        this._checkInitialization(EVENT_TYPE.METADATA);
 
-                // Wait until it's possible to make a request again
-                await this._rateLimiter.waitUntilCanMakeRequest();
+        // Check if the user is logged in
+        await this._checkUserLogin(
+            sessionId,
+            EVENT_TYPE.METADATA,
+            requestOptions,
+        );
 
-                // Retry the request after the rate limit is reset
-                return this._makeRequest({ params, skipResponse, skipError });
+        const attempts = this._metaDataSchema.updateAttempts;
+        let time = 0;
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            if (attempt > 1) {
+                // Wait a random moment so clients that conflicted do not try again at the same time
+                await sleep(
+                    Math.random() * 100 * attempt,
+                    requestOptions?.signal,
+                );
+            }
+            if (requestOptions?.signal?.aborted) {
+                throw this._createAbortError(EVENT_TYPE.METADATA);
             }
 
-            // Perform the Axios HTTP request to the Keyauth API
-            const response = await this._axiosInstance.request({
-                params: {
-                    ...params,
-                    name: this._app.name,
-                    ownerid: this._app.ownerid,
-                },
-            });
-            // Calculate the time taken for the request
-            const endTime = Date.now();
-            const responseTime = endTime - startTime;
+            // Read the stored metadata and its revision
+            const current = await this._readMetaData(sessionId, requestOptions);
+            time += current.time;
+            if ("error" in current) {
+                return this._failMetaData(current.error, skipError, time);
+            }
+            const { revision, writers } = current.decoded;
+
+            // Work out the new metadata
+            let encoded: { metaData: D; raw: string; writer: string };
+            try {
+                encoded = encodeMetaData(
+                    this._metaDataSchema,
+                    updater(current.decoded.metaData),
+                    revision + 1,
+                    writers,
+                );
+            } catch (error) {
+                if (!(error instanceof MetaDataError)) throw error;
+                return this._failMetaData(error, skipError, time);
+            }
 
-            // Handle different types of API responses
-            if (response.data === "KeyAuth_Invalid") {
-                // Handle the case where the API client is not set up correctly
-                response.data = {
+            // Store the new metadata
+            const setResponse = await this.var.user.set(
+                {
+                    sessionId,
+                    varId: "metaData",
+                    varData: encoded.raw,
+                    skipError,
+                    skipResponse: true,
+                },
+                requestOptions,
+            );
+            time += setResponse.time;
+            if (!setResponse.success) {
+                return {
                     success: false,
-                    message: "Keyauth API client not set up correctly!",
-                    time: responseTime,
+                    message: setResponse.message,
+                    time,
                 };
             }
-            if (params.type === EVENT_TYPE.LOG && response.status === 200) {
-                // Handle a successful log request
-                response.data = {
-                    success: true,
-                    message: "Log successfully sent.",
-                };
+
+            // Read the metadata back to make sure our write was not overwritten, a later write built on top of ours still keeps it
+            const confirm = await this._readMetaData(sessionId, requestOptions);
+            time += confirm.time;
+            if ("error" in confirm) {
+                return this._failMetaData(confirm.error, skipError, time);
             }
-            if (params.type === EVENT_TYPE.WEBHOOK && response.status === 200) {
-                // Handle a successful webhook request
-                response.data = {
-                    success: response.data.success,
-                    message: response.data.message,
-                    nonce: response.data.nonce,
-                    data: response.data.response,
-                };
+            if (!confirm.decoded.writers.includes(encoded.writer)) {
+                this._logger.debug(
+                    EVENT_TYPE.METADATA,
+                    `MetaData was overwritten on attempt ${attempt}, trying again.`,
+                );
+                continue;
             }
-            // Emit an event for the API response (if not skipped)
+
+            // Emit an event and return successful response
             if (!skipResponse) {
-                this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
-                    ...response.data,
-                    time: responseTime,
-                    type: params.type,
+                this._eventEmitter.emit(EVENT_TYPE.METADATA, {
+                    message: "MetaData Successfully updated",
+                    success: true,
+                    time,
+                    metaData: encoded.metaData,
                 });
             }
-            // Emit an event for the API request and return the response
-            this._eventEmitter.emit(EVENT_TYPE.REQUEST, {
-                type: params.type,
-                request: {
-                    url: this._axiosInstance.defaults.baseURL!,
-                    params,
-                },
-                response: {
-                    ...response.data,
-                    time: responseTime,
-                },
-            });
-            if (response.data.success === false) {
-                if (skipError) return;
-                if (
-                    params.sessionid === "" &&
-                    String(response.data.message).startsWith(
-                        "Session not found.",
-                    )
-                ) {
-                    this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                        type: params.type,
-                        success: false,
-                        message: response.data.message,
-                        errorCode: ERROR_CODE.K_NSID,
-                    });
-                } else if (
-                    String(response.data.message).startsWith(
-                        "Session not found.",
-                    )
-                ) {
-                    this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                        type: params.type,
-                        success: false,
-                        message: "The session was killed!",
-                        errorCode: ERROR_CODE.K_SK,
-                    });
-                } else if (
-                    String(response.data.message) === "Chat channel not found"
-                ) {
-                    this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                        type: params.type,
-                        success: false,
-                        message: "Chat channel not found",
-                        errorCode: ERROR_CODE.K_NCC,
-                    });
-                } else if (
-                    String(response.data.message).startsWith(
-                        "Keyauth API client",
-                    )
-                ) {
-                    this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                        type: params.type,
-                        success: false,
-                        message: response.data.message,
-                        errorCode: ERROR_CODE.K_ICA,
-                    });
-                } else {
-                    this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                        type: params.type,
-                        success: false,
-                        message: response.data.message,
-                        errorCode: ERROR_CODE.K_U,
-                    });
-                }
-            }
+            this._logger.debug(
+                EVENT_TYPE.METADATA,
+                "MetaData update complete, Returning response.",
+            );
             return {
-                ...response.data,
-                time: responseTime,
+                message: "MetaData Successfully updated",
+                success: true,
+                time,
+                metaData: encoded.metaData,
+                revision: revision + 1,
+                attempts: attempt,
+                nonce: setResponse.nonce,
             };
-        } catch (error) {
-            if (error instanceof AxiosError) {
-                // Handle Axios HTTP request errors
-                this._logger.error(EVENT_TYPE.ERROR, error.message);
-                this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                    type: params.type,
-                    success: false,
-                    message: error.message,
-                    errorCode: ERROR_CODE.K_U,
-                });
-            } else {
-                // Handle other types of errors
-                this._logger.error(EVENT_TYPE.ERROR, `${error as any}`);
-                this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                    type: params.type,
-                    success: false,
-                    message: (error as any).message,
-                    errorCode: ERROR_CODE.K_U,
+        }
+
+        // Someone else kept changing the metadata
+        return this._failMetaData(
+            new MetaDataConflictError(
+                `MetaData changed on every one of ${attempts} attempts`,
+                { type: EVENT_TYPE.METADATA },
+            ),
+            skipError,
+            time,
+        );
+    }
+
+    /**
+     * Calls init again after the session was killed, concurrent callers share the same init call.
+     *
+     * @returns {Promise<string | undefined>} The new session ID or `undefined` if init failed.
+     * @private
+     */
+    private async _reinit(): Promise<string | undefined> {
+        if (!this._reinitializing) {
+            this._logger.info(
+                EVENT_TYPE.SESSION,
+                "Session killed, re-initializing.",
+            );
+            this._initializedClient = false;
+            this._reinitializing = this.init()
+                .then((response) => response.sessionid)
+                .finally(() => {
+                    this._reinitializing = undefined;
                 });
-            }
-            // TODO Add more specific error handling if needed
         }
+        return this._reinitializing;
+    }
+
+    /**
+     * Checks the current session is still logged in, runs on the session heartbeat.
+     *
+     * @private
+     */
+    private async _heartbeat(): Promise<void> {
+        const sessionid = this._session.id;
+        if (!sessionid) return;
+        this._logger.debug(EVENT_TYPE.SESSION, "Running session heartbeat.");
+        // The check is not sent again on a new session as a new session is never logged in
+        const response = await this._makeRequest({
+            params: { type: EVENT_TYPE.CHECK, sessionid },
+            skipResponse: true,
+            skipError: true,
+            reinitialized: true,
+        });
+        if (response.success) return;
+
+        // A killed session has been removed in _makeRequest, create a new one
+        if (this._session.id === undefined) {
+            if (this._autoReinit) await this._reinit();
+            return;
+        }
+        // Anything else means the login expired
+        if (this._session.id === sessionid) this._session.expire();
     }
 
     /**
      * Checks if the API client has been properly initialized with required configurations.
      *
-     * @returns {boolean} True if the API client is initialized, false otherwise.
-     * @throws {Error} Throws an error if the API client is not properly initialized.
+     * @param {EventType} [type] - The request type that needs the API client initialized.
+     * @returns {boolean} True if the API client is initialized.
+     * @throws {NotInitializedError} Throws an error if `init()` has not been called.
      * @private
      */
-    private _checkInitialization(): boolean {
+    private _checkInitialization(type: EventType = EVENT_TYPE.INIT): boolean {
         if (!this._app) {
             throw new Error(
                 "API client is not properly initialized. Missing 'app' configuration.",
             );
         }
 
-        if (!this._axiosInstance) {
+        if (!this._transport) {
             throw new Error(
-                "API client is not properly initialized. Missing 'axiosInstance' configuration.",
+                "API client is not properly initialized. Missing 'transport' configuration.",
             );
         }
 
@@ -754,17 +1768,13 @@ export default class Api {
             );
         }
         if (!this._initializedClient) {
-            this._logger.error(
-                EVENT_TYPE.INIT,
+            const error = new NotInitializedError(
                 "API Initialization Required: Please initialize the API first.",
+                { type },
             );
-            this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-                type: EVENT_TYPE.INIT,
-                success: false,
-                message:
-                    "API Initialization Required: Please initialize the API first.",
-                errorCode: ERROR_CODE.K_NI,
-            });
+            this._logger.error(EVENT_TYPE.INIT, error.message);
+            this._emitError(error);
+            throw error;
         }
         return true;
     }
@@ -772,31 +1782,42 @@ export default class Api {
     /**
      * Checks if a user is logged in based on their session ID.
      *
-     * @param {string} sessionId - The session ID of the user to check.
-     * @returns {Promise<void>} Resolves if the user is logged in, rejects with an error otherwise.
-     * @throws {Error} Throws an error if the user is not logged in or if the API client is not initialized.
+     * @param {string} [sessionId] - The session ID of the user to check, defaults to the current session.
+     * @param {EventType} [type] - The request type that needs the user logged in.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for the check request.
+     * @returns {Promise<boolean>} Resolves true if the user is logged in.
+     * @throws {NotLoggedInError} Throws an error if the user is not logged in.
+     * @throws {NotInitializedError} Throws an error if the API client is not initialized.
      * @private
      */
-    private async _checkUserLogin(sessionId: string): Promise<boolean> {
+    private async _checkUserLogin(
+        sessionId: string | undefined,
+        type: EventType = EVENT_TYPE.LOG_IN,
+        requestOptions?: RequestOptions,
+    ): Promise<boolean> {
         // Ensure that the API client is properly initialized
-        if (!this._checkInitialization()) return false;
+        this._checkInitialization(type);
+
+        // The session manager already knows this session is logged in
+        const sessionid = this._session.resolve(sessionId);
+        if (this._session.isValidated(sessionid)) return true;
 
         // Check if the user is logged in by making a request to keyauth api
-        const { success } = await this.check({ sessionId, skipResponse: true });
-        if (success) return true;
-        this._logger.error(
-            EVENT_TYPE.ERROR,
+        const response = await this._makeRequest({
+            params: { type: EVENT_TYPE.CHECK, sessionid },
+            skipResponse: true,
+            skipError: true,
+            requestOptions,
+        });
+        if (response.success) return true;
+
+        const error = new NotLoggedInError(
             "User Not Logged In: Please login before accessing user data.",
+            { type, response },
         );
-
-        this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-            type: EVENT_TYPE.LOG_IN,
-            success: false,
-            message:
-                "User Not Logged In: Please login before accessing user data.",
-            errorCode: ERROR_CODE.K_NLI,
-        });
-        return false;
+        this._logger.error(EVENT_TYPE.ERROR, error.message);
+        this._emitError(error);
+        throw error;
     }
 
     // ------------------------------------------
@@ -808,9 +1829,10 @@ export default class Api {
      * This function initializes the API client, ensuring it's ready for use.
      *
      * @see https://keyauth.readme.io/reference/initialization
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<InitResponse>} - A promise containing the initialization response.
      */
-    async init(): Promise<InitResponse> {
+    async init(requestOptions?: RequestOptions): Promise<InitResponse> {
         // Capture the start time to measure execution time
         const startTime = Date.now();
 
@@ -829,22 +1851,34 @@ export default class Api {
             };
         }
 
+        // Create a new encryption key so keyauth signs the responses for this session
+        if (this._verifySignature) this._encKey = createEncKey();
+
         // Prepare initialization parameters
         const initParams: InitParams = {
             type: EVENT_TYPE.INIT,
             ver: this._app.ver,
             name: this._app.name,
             ownerid: this._app.ownerid,
+            enckey: this._encKey,
         };
 
         // Log the initialization request
         this._logger.debug(EVENT_TYPE.INIT, "Sending initialization request.");
 
         // Send the initialization request and wait for the response
-        const response = await this._makeRequest({ params: { ...initParams } });
+        const response = await this._makeRequest({
+            params: { ...initParams },
+            requestOptions,
+        });
 
         // Update the internal state to mark the API as initialized
-        this._initializedClient = true;
+        this._initializedClient = response.success === true;
+
+        // Store the new session so it does not need to be passed to every call
+        if (response.success && response.sessionid) {
+            this._session.create(response.sessionid, !!response.newSession);
+        }
 
         // Emit an event to indicate the completion of initialization
         this._eventEmitter.emit(EVENT_TYPE.INIT, { ...response });
@@ -866,34 +1900,29 @@ export default class Api {
      *
      * @see https://keyauth.readme.io/reference/login
      *
-     * @template D - A generic parameter representing metaData.
      * @param {Login} `options` - The login options including username, password, and session information.
      * @param {Login['sessionId']} `options.sessionId` - The current session ID.
      * @param {Login['username']} `options.username` - The username of the person logging in.
      * @param {Login['password']} `options.password` - The password of the person logging in.
      * @param {Login['hwid']} [options.hwid] - The hwid of the person logging in if needed.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<LoginResponse<D>>} - A promise containing the login response, including user metadata.
      */
-    async login({
-        username,
-        password,
-        hwid,
-        sessionId,
-    }: Login): Promise<LoginResponse> {
+    async login(
+        { username, password, hwid, sessionId }: Login,
+        requestOptions?: RequestOptions,
+    ): Promise<LoginResponse<D>> {
         // Log the login process
         this._logger.debug(EVENT_TYPE.LOG_IN, "Logging in user.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization())
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
+        this._checkInitialization(EVENT_TYPE.LOG_IN);
 
         // Prepare login parameters
         const loginParams: LoginParams = {
             type: EVENT_TYPE.LOG_IN,
             pass: password,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             username,
             hwid,
         };
@@ -904,20 +1933,28 @@ export default class Api {
         // Send the login request and wait for the response
         const response = await this._makeRequest({
             params: { ...loginParams },
+            requestOptions,
         });
 
         // Check if the login was successful
         if (response?.success) {
+            // Mark the session as logged in
+            this._session.validate(loginParams.sessionid, () =>
+                this._heartbeat(),
+            );
             // If requested & convert timestamps [true], convert timestamps in the response to local dates
             if (this._convertTimes) {
                 response.info = convertTimestampsToLocalDates(response.info);
             }
             // Fetch user metadata
-            const { metaData } = await this.metaData.get({
-                sessionId,
-                skipResponse: true,
-                skipError: true,
-            });
+            const { metaData } = await this.metaData.get(
+                {
+                    sessionId,
+                    skipResponse: true,
+                    skipError: true,
+                },
+                requestOptions,
+            );
             // Emit an event to indicate a successful login
             if (response.info) {
                 this._eventEmitter.emit(EVENT_TYPE.LOG_IN, {
@@ -955,22 +1992,27 @@ export default class Api {
      *
      * @param {Logout} `options` - The logout options including the session ID.
      * @param {Logout['sessionId']} `options.sessionId` - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<LogoutResponse>} - A promise containing the logout response.
      */
-    async logout({ sessionId }: Logout): Promise<LogoutResponse> {
+    async logout(
+        { sessionId }: Logout = {},
+        requestOptions?: RequestOptions,
+    ): Promise<LogoutResponse> {
         // Log the logout process
         this._logger.debug(EVENT_TYPE.LOG_OUT, "Logging out user.");
 
         // Check if the user is currently logged in
-        if (!(await this._checkUserLogin(sessionId))) {
-            // If not logged in, reject the logout request
-            return Promise.reject();
-        }
+        await this._checkUserLogin(
+            sessionId,
+            EVENT_TYPE.LOG_OUT,
+            requestOptions,
+        );
 
         // Prepare logout parameters
         const logoutParams: LogoutParams = {
             type: EVENT_TYPE.LOG_OUT,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the logout request
@@ -979,8 +2021,14 @@ export default class Api {
         // Send the logout request and wait for the response
         const response = await this._makeRequest({
             params: { ...logoutParams },
+            requestOptions,
         });
 
+        // Remove the stored session after a successful logout
+        if (response.success && logoutParams.sessionid === this._session.id) {
+            this._session.kill();
+        }
+
         // Clear user info and update nonce after successful logout
         this._logger.debug(
             EVENT_TYPE.LOG_OUT,
@@ -1008,34 +2056,25 @@ export default class Api {
      *
      * @see https://keyauth.readme.io/reference/register
      *
-     * @template D - A generic parameter representing metaData.
      * @param {Register} `options` - The registration options including username, password, key, etc.
      * @param {Register<D>['username']} `options.username` - The username of the new user.
      * @param {Register<D>['password']} `options.password` - The password of the new user.
      * @param {Register<D>['key']} `options.key` - The key needed for the user to register.
      * @param {Register<D>['sessionId']} `options.sessionId` - The session Id of the current session.
-     * @param {Register<D>['metaData']} `options.metaData` - The metaData to set upon registering.
+     * @param {Register<D>['metaData']} [options.metaData] - The metaData to set upon registering.
      * @param {Register<D>['email']} [options.email] - The email address of the new user if you would to set one.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<RegisterResponse>} - A promise containing the registration response.
      */
-    async register({
-        username,
-        password,
-        key,
-        sessionId,
-        email,
-        metaData,
-    }: Register): Promise<RegisterResponse> {
+    async register(
+        { username, password, key, sessionId, email, metaData }: Register<D>,
+        requestOptions?: RequestOptions,
+    ): Promise<RegisterResponse<D>> {
         // Log the registration process
         this._logger.debug(EVENT_TYPE.REGISTER, "Registering a new user.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the registration request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.REGISTER);
 
         // Prepare registration parameters
         const registerParams: RegisterParams = {
@@ -1043,7 +2082,7 @@ export default class Api {
             username,
             pass: password,
             key,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             email,
         };
 
@@ -1056,7 +2095,15 @@ export default class Api {
         // Send the registration request and wait for the response
         const response = await this._makeRequest({
             params: { ...registerParams },
+            requestOptions,
         });
+
+        // Mark the session as logged in
+        if (response?.success) {
+            this._session.validate(registerParams.sessionid, () =>
+                this._heartbeat(),
+            );
+        }
         // Log and emit an event if user info is available
         this._logger.debug(
             EVENT_TYPE.REGISTER,
@@ -1075,11 +2122,14 @@ export default class Api {
 
         // If metadata is provided, set it for the user
         if (metaData) {
-            await this.metaData.set({
-                sessionId,
-                metaData,
-                skipResponse: true,
-            });
+            await this.metaData.set(
+                {
+                    sessionId,
+                    metaData,
+                    skipResponse: true,
+                },
+                requestOptions,
+            );
         }
 
         return {
@@ -1096,9 +2146,13 @@ export default class Api {
      * @param {License} options - The license options including the license key, session ID, etc.
      * @param {License['license']} `options.license` - The license key needed to register.
      * @param {License['sessionId']} `options.sessionId` - The session ID of the current session.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<LicenseResponse>} - A promise containing the license response.
      */
-    async license({ license, sessionId }: License): Promise<LicenseResponse> {
+    async license(
+        { license, sessionId }: License,
+        requestOptions?: RequestOptions,
+    ): Promise<LicenseResponse> {
         // Log the license process
         this._logger.debug(
             EVENT_TYPE.LICENSE,
@@ -1106,18 +2160,13 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the license request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.LICENSE);
 
         // Prepare license parameters
         const licenseParams: LicenseParams = {
             type: EVENT_TYPE.LICENSE,
             key: license,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the license request
@@ -1126,8 +2175,16 @@ export default class Api {
         // Send the license request and wait for the response
         const response = await this._makeRequest({
             params: { ...licenseParams },
+            requestOptions,
         });
 
+        // Mark the session as logged in
+        if (response?.success) {
+            this._session.validate(licenseParams.sessionid, () =>
+                this._heartbeat(),
+            );
+        }
+
         // Log and emit an event if user info is available
         this._logger.debug(
             EVENT_TYPE.LICENSE,
@@ -1156,27 +2213,26 @@ export default class Api {
      * @param {Ban} `options` - The ban options including the ban reason, session ID, etc.
      * @param {Ban['sessionId']} `options.sessionId` - The current session ID.
      * @param {Ban['reason']} `options.reason` - The reason for banning the current user.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<BanResponse>} - A promise containing the ban response.
      */
-    async ban({ reason, sessionId }: Ban): Promise<BanResponse> {
+    async ban(
+        { reason, sessionId }: Ban,
+        requestOptions?: RequestOptions,
+    ): Promise<BanResponse> {
         // Log the user ban initiation
         this._logger.debug(EVENT_TYPE.BAN, "Initiating user ban.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the ban request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.BAN);
 
         // Ensure the user is logged in by checking the session ID
-        await this._checkUserLogin(sessionId);
+        await this._checkUserLogin(sessionId, EVENT_TYPE.BAN, requestOptions);
 
         // Prepare ban parameters
         const banParams: BanParams = {
             type: EVENT_TYPE.BAN,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             reason,
         };
 
@@ -1186,8 +2242,14 @@ export default class Api {
         // Send the ban request and wait for the response
         const response = await this._makeRequest({
             params: { ...banParams },
+            requestOptions,
         });
 
+        // Remove the stored session, a banned user can not use it anymore
+        if (response.success && banParams.sessionid === this._session.id) {
+            this._session.kill();
+        }
+
         // Log and emit a ban event with relevant information
         this._logger.debug(EVENT_TYPE.BAN, "Clearing user info.");
         this._eventEmitter.emit(EVENT_TYPE.BAN, {
@@ -1215,12 +2277,13 @@ export default class Api {
      * @param {Check} `options` - The check options including the session ID and skipResponse flag.
      * @param {Check['sessionId']} `options.sessionID` - The current session ID.
      * @param {Check['skipResponse']} `options.skipResponse` - This will just not trigger the response event. [Not really needed]
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<CheckResponse>} - A promise containing the check response.
      */
-    async check({
-        sessionId,
-        skipResponse = false,
-    }: Check): Promise<CheckResponse> {
+    async check(
+        { sessionId, skipResponse = false }: Check = {},
+        requestOptions?: RequestOptions,
+    ): Promise<CheckResponse> {
         // Log the check operation
         this._logger.debug(
             EVENT_TYPE.CHECK,
@@ -1228,17 +2291,12 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the check request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.CHECK);
 
         // Prepare check parameters
         const checkParams: CheckParams = {
             type: EVENT_TYPE.CHECK,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the check request
@@ -1247,6 +2305,7 @@ export default class Api {
         // Send the check request and wait for the response
         const response = await this._makeRequest({
             params: { ...checkParams },
+            requestOptions,
             skipResponse,
         });
 
@@ -1269,12 +2328,13 @@ export default class Api {
      * @param {CheckBlacklist} options - The check blacklist options including the hardware ID and session ID.
      * @param {CheckBlacklist['hwid']} options.hwid - The HWID of the user you would like to check.
      * @param {CheckBlacklist['sessionId']} options.sessionId - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<CheckBlacklistResponse>} - A promise containing the check blacklist response.
      */
-    async checkBlacklist({
-        hwid,
-        sessionId,
-    }: CheckBlacklist): Promise<CheckBlacklistResponse> {
+    async checkBlacklist(
+        { hwid, sessionId }: CheckBlacklist,
+        requestOptions?: RequestOptions,
+    ): Promise<CheckBlacklistResponse> {
         // Log the check blacklist operation
         this._logger.debug(
             EVENT_TYPE.CHECK_BLACKLIST,
@@ -1282,21 +2342,20 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the check blacklist request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.CHECK_BLACKLIST);
 
         // Check if the user is logged in by waiting for the login check
-        await this._checkUserLogin(sessionId);
+        await this._checkUserLogin(
+            sessionId,
+            EVENT_TYPE.CHECK_BLACKLIST,
+            requestOptions,
+        );
 
         // Prepare check blacklist parameters
         const checkBlacklistParams: CheckBlacklistParams = {
             type: EVENT_TYPE.CHECK_BLACKLIST,
             hwid,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the check blacklist request
@@ -1308,6 +2367,7 @@ export default class Api {
         // Send the check blacklist request and wait for the response
         const response = await this._makeRequest({
             params: { ...checkBlacklistParams },
+            requestOptions,
         });
 
         // Log that the check blacklist operation is complete and return the response
@@ -1331,12 +2391,13 @@ export default class Api {
      * @param {ChangeUsername} options - The change username options including the new username and session ID.
      * @param {ChangeUsername['newUsername']} options.newUsername - The new username.
      * @param {ChangeUsername['sessionId']} options.sessionId - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<ChangeUsernameResponse>} - A promise containing the change username response.
      */
-    async changeUsername({
-        newUsername,
-        sessionId,
-    }: ChangeUsername): Promise<ChangeUsernameResponse> {
+    async changeUsername(
+        { newUsername, sessionId }: ChangeUsername,
+        requestOptions?: RequestOptions,
+    ): Promise<ChangeUsernameResponse> {
         // Log the change username operation
         this._logger.debug(
             EVENT_TYPE.CHANGE_USERNAME,
@@ -1344,24 +2405,20 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the change username request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.CHANGE_USERNAME);
 
         // Check if the user is logged in by waiting for the login check
-        if (!(await this._checkUserLogin(sessionId))) {
-            // If not logged in, reject the change username request
-            return Promise.reject();
-        }
+        await this._checkUserLogin(
+            sessionId,
+            EVENT_TYPE.CHANGE_USERNAME,
+            requestOptions,
+        );
 
         // Prepare change username parameters
         const changeUsernameParams: ChangeUsernameParams = {
             type: EVENT_TYPE.CHANGE_USERNAME,
             newUsername,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the change username request
@@ -1373,6 +2430,7 @@ export default class Api {
         // Send the change username request and wait for the response
         const response = await this._makeRequest({
             params: { ...changeUsernameParams },
+            requestOptions,
         });
 
         // Emit an event indicating the username change
@@ -1401,13 +2459,13 @@ export default class Api {
      * @param {ForgotPassword['email']} options.email - The email address of the user requesting the password reset.
      * @param {ForgotPassword['sessionId']} options.sessionId - The current session ID.
      * @param {ForgotPassword['username']} options.username - The current users username.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<ForgotPasswordResponse>} - A promise containing the forgot password response.
      */
-    async forgotPassword({
-        email,
-        username,
-        sessionId,
-    }: ForgotPassword): Promise<ForgotPasswordResponse> {
+    async forgotPassword(
+        { email, username, sessionId }: ForgotPassword,
+        requestOptions?: RequestOptions,
+    ): Promise<ForgotPasswordResponse> {
         // Log the forgot password operation
         this._logger.debug(
             EVENT_TYPE.FORGOT_PASSWORD,
@@ -1415,17 +2473,12 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the forgot password request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.FORGOT_PASSWORD);
 
         // Prepare forgot password parameters
         const forgotPasswordParams: ForgotPasswordParams = {
             type: EVENT_TYPE.FORGOT_PASSWORD,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             email,
             username,
         };
@@ -1439,6 +2492,7 @@ export default class Api {
         // Send the forgot password request and wait for the response
         const response = await this._makeRequest({
             params: { ...forgotPasswordParams },
+            requestOptions,
         });
 
         // Log that the forgot password operation is complete and return the response
@@ -1467,28 +2521,23 @@ export default class Api {
      * @param {Upgrade['key']} options.key - The license key they are upgrading to.
      * @param {Upgrade['username']} options.username - The current users username.
      * @param {Upgrade['sessionId']} options.sessionId - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<UpgradeResponse>} - A promise containing the upgrade response.
      */
-    async upgrade({
-        key,
-        username,
-        sessionId,
-    }: Upgrade): Promise<UpgradeResponse> {
+    async upgrade(
+        { key, username, sessionId }: Upgrade,
+        requestOptions?: RequestOptions,
+    ): Promise<UpgradeResponse> {
         // Log the upgrade operation
         this._logger.debug(EVENT_TYPE.UPGRADE, "Running upgrade on user.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the upgrade request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.UPGRADE);
 
         // Prepare upgrade parameters
         const upgradeParams: UpgradeParams = {
             type: EVENT_TYPE.UPGRADE,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             username,
             key,
         };
@@ -1499,6 +2548,7 @@ export default class Api {
         // Send the upgrade request and wait for the response
         const response = await this._makeRequest({
             params: { ...upgradeParams },
+            requestOptions,
         });
 
         // Log that the upgrade operation is complete and return the response
@@ -1528,11 +2578,13 @@ export default class Api {
      *
      * @param {FetchOnlineUsers} options - The fetch online users options including the session ID.
      * @param {FetchOnlineUsers['sessionId']} options.sessionID - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<FetchOnlineUsersResponse>} - A promise containing the response with the list of online users.
      */
-    async fetchOnlineUsers({
-        sessionId,
-    }: FetchOnlineUsers): Promise<FetchOnlineUsersResponse> {
+    async fetchOnlineUsers(
+        { sessionId }: FetchOnlineUsers = {},
+        requestOptions?: RequestOptions,
+    ): Promise<FetchOnlineUsersResponse> {
         // Log the fetch online users operation
         this._logger.debug(
             EVENT_TYPE.FETCH_ONLINE,
@@ -1540,17 +2592,12 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the fetch online users request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.FETCH_ONLINE);
 
         // Prepare fetch online users parameters
         const fetchOnlineUsersParams: FetchOnlineUsersParams = {
             type: EVENT_TYPE.FETCH_ONLINE,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the fetch online users request
@@ -1559,10 +2606,16 @@ export default class Api {
             "Sending fetch online users request.",
         );
 
-        // Send the fetch online users request and wait for the response
-        const response = await this._makeRequest({
-            params: { ...fetchOnlineUsersParams },
-        });
+        // Send the fetch online users request, or use the cached response, and wait for the response
+        const response = await this._cachedRequest(
+            EVENT_TYPE.FETCH_ONLINE,
+            "",
+            () =>
+                this._makeRequest({
+                    params: { ...fetchOnlineUsersParams },
+                    requestOptions,
+                }),
+        );
 
         // Emit an event indicating the successful fetch of online users
         this._eventEmitter.emit(EVENT_TYPE.FETCH_ONLINE, {
@@ -1578,7 +2631,7 @@ export default class Api {
         // Include the count of online users in the response
         return {
             ...response,
-            count: response.users.length ?? 0,
+            count: response.users?.length ?? 0,
         };
     }
 
@@ -1591,9 +2644,13 @@ export default class Api {
      *
      * @param {FetchStats} options - The fetch stats options including the session ID.
      * @param {FetchStats['sessionId']} options.sessionID - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<FetchStatsResponse>} - A promise containing the response with application statistics and information.
      */
-    async fetchStats({ sessionId }: FetchStats): Promise<FetchStatsResponse> {
+    async fetchStats(
+        { sessionId }: FetchStats = {},
+        requestOptions?: RequestOptions,
+    ): Promise<FetchStatsResponse> {
         // Log the fetch stats operation
         this._logger.debug(
             EVENT_TYPE.FETCH_STATS,
@@ -1601,17 +2658,12 @@ export default class Api {
         );
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the fetch stats request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.FETCH_STATS);
 
         // Prepare fetch stats parameters
         const fetchStatsParams: FetchStatsParams = {
             type: EVENT_TYPE.FETCH_STATS,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
         };
 
         // Log the fetch stats request
@@ -1620,10 +2672,16 @@ export default class Api {
             "Sending fetchStats request.",
         );
 
-        // Send the fetch stats request and wait for the response
-        const response = await this._makeRequest({
-            params: { ...fetchStatsParams },
-        });
+        // Send the fetch stats request, or use the cached response, and wait for the response
+        const response = await this._cachedRequest(
+            EVENT_TYPE.FETCH_STATS,
+            "",
+            () =>
+                this._makeRequest({
+                    params: { ...fetchStatsParams },
+                    requestOptions,
+                }),
+        );
 
         // Emit an event indicating the successful fetch of stats
         this._eventEmitter.emit(EVENT_TYPE.FETCH_STATS, { ...response });
@@ -1646,24 +2704,23 @@ export default class Api {
      * @param {Log['msg']} options.msg - The log message you would like to send.
      * @param {Log['pcUser']} options.pcUser - The pcs username or anything else you would like to set it to.
      * @param {Log['sessionId']} options.sessionId - The current session ID.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<LogResponse>} logResponse - A promise containing the response indicating the success of the log operation.
      */
-    async log({ msg, pcUser, sessionId }: Log): Promise<LogResponse> {
+    async log(
+        { msg, pcUser, sessionId }: Log,
+        requestOptions?: RequestOptions,
+    ): Promise<LogResponse> {
         // Log the log operation
         this._logger.debug(EVENT_TYPE.LOG, "Running log.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the log request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.LOG);
 
         // Prepare log parameters
         const logParams: LogParams = {
             type: EVENT_TYPE.LOG,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             message: msg,
             pcuser: pcUser,
         };
@@ -1674,6 +2731,7 @@ export default class Api {
         // Send the log request and wait for the response
         const response = await this._makeRequest({
             params: { ...logParams },
+            requestOptions,
         });
 
         // Emit an event indicating the successful log operation
@@ -1705,30 +2763,23 @@ export default class Api {
      * @param {Webhook['params']} options.params - The optional webhook params.
      * @param {Webhook['body']} options.body - The webhook body.
      * @param {Webhook['contType']} options.contType - The webhook content type default [Application/json].
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<WebhookResponse>} - A promise containing the response indicating the success of the webhook request.
      */
-    async webhook({
-        webId,
-        contType,
-        params,
-        sessionId,
-        body,
-    }: Webhook): Promise<WebhookResponse> {
+    async webhook(
+        { webId, contType, params, sessionId, body }: Webhook,
+        requestOptions?: RequestOptions,
+    ): Promise<WebhookResponse> {
         // Log the webhook operation
         this._logger.debug(EVENT_TYPE.WEBHOOK, "Running webhook on user.");
 
         // Check if the API is initialized
-        if (!this._checkInitialization()) {
-            // If not initialized, reject the webhook request
-            return Promise.reject(
-                "API Initialization Required: Please initialize the API first.",
-            );
-        }
+        this._checkInitialization(EVENT_TYPE.WEBHOOK);
 
         // Prepare webhook parameters
         const webhookParams: WebhookParams = {
             type: EVENT_TYPE.WEBHOOK,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             webid: webId,
             params,
             body,
@@ -1741,6 +2792,7 @@ export default class Api {
         // Send the webhook request and wait for the response
         const response = await this._makeRequest({
             params: { ...webhookParams },
+            requestOptions,
         });
 
         // Emit an event indicating the successful webhook operation
@@ -1765,22 +2817,24 @@ export default class Api {
      * @param {Download} `params` - The parameters for the download request.
      * @param {Download['fileId']} `params.fileId` - The unique identifier of the file to download.
      * @param {Download['sessionId']} `params.sessionId` - The session identifier required for authentication.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout for this call.
      * @returns {Promise<DownloadResponse>} `DownloadResponse` - A promise that resolves with the download response.
      * @throws {Error} `Error` - Throws an error if API initialization is required.
      */
-    async download({ fileId, sessionId }: Download): Promise<DownloadResponse> {
+    async download(
+        { fileId, sessionId }: Download,
+        requestOptions?: RequestOptions,
+    ): Promise<DownloadResponse> {
         // Log the start of the download process
         this._logger.debug(EVENT_TYPE.DOWNLOAD, "Running download file.");
 
         // Check if API initialization is required
-        if (!this._checkInitialization()) {
-            throw "API Initialization Required: Please initialize the API first.";
-        }
+        this._checkInitialization(EVENT_TYPE.DOWNLOAD);
 
         // Construct the download parameters
         const downloadParams: DownloadParams = {
             type: EVENT_TYPE.DOWNLOAD,
-            sessionid: sessionId,
+            sessionid: this._session.resolve(sessionId),
             fileid: fileId,
         };
 
@@ -1790,6 +2844,7 @@ export default class Api {
         // Make the download request and await the response
         const response = await this._makeRequest({
             params: { ...downloadParams },
+            requestOptions,
         });
 
         // Log the completion of the download request
@@ -1805,7 +2860,7 @@ export default class Api {
     /**
      * Manage the current users metadata
      */
-    public metaData: MetaData;
+    public metaData: MetaData<D>;
 
     /**
      * Manage user and global variables
@@ -2,5 +2,8 @@ import ClientApi from "./client";
 export * as Helpers from "./utils/helpers";
 import EmbedBuilder from "./utils/embedBuilder";
 export * from "./types";
+export * from "./utils/errors";
+export { AxiosTransport, FetchTransport } from "./utils/transports";
+export { MemoryCacheStorage } from "./utils/cache";
 
 export { ClientApi, EmbedBuilder };
@@ -0,0 +1,2 @@
+// Node only exports, they are kept out of the main entry so the client still loads in browsers and edge runtimes
+export { FileCacheStorage } from "./utils/fileCache";
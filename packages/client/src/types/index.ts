@@ -20,7 +20,10 @@ export interface App {
      * The applations owners owner ID
      */
     ownerid: string;
-    // secret:string
+    /**
+     * The application secret, needed to verify response signatures
+     */
+    secret?: string;
 }
 
 /**
@@ -41,6 +44,33 @@ export interface Session {
     validated: boolean;
 }
 
+/**
+ * The states a session can move through
+ *
+ * [created] `init` returned a new session
+ *
+ * [validated] A user logged in, registered or used a license on the session
+ *
+ * [expired] The session is no longer validated, the user must log in again
+ *
+ * [killed] The session no longer exists on keyauth
+ */
+export type SessionState = "created" | "validated" | "expired" | "killed";
+
+/**
+ * The data sent to the session event on every session state change
+ */
+export interface SessionEvent {
+    /**
+     * The new state of the session
+     */
+    state: SessionState;
+    /**
+     * The session the state change is for
+     */
+    session: Session;
+}
+
 /**
  * Base response structure
  */
@@ -65,9 +95,61 @@ export interface InitResponse extends BaseResponse {
 
 export type METADATA = Record<string, any>;
 
+/**
+ * Validates metadata, either a zod-like schema with a `parse` function or a plain function.
+ * A plain function can return the validated data, or `true`/`false` to accept or reject the data as it is.
+ * Throwing from either one rejects the data.
+ */
+export type MetaDataValidator<D extends METADATA = METADATA> =
+    | { parse: (data: unknown) => D }
+    | ((data: unknown) => D | boolean);
+
+/**
+ * A function that moves metadata from the version before it to the version it is registered for
+ */
+export type MetaDataMigration = (data: any) => any;
+
+/**
+ * Options for the metadata stored in the `metaData` user variable
+ */
+export interface MetaDataOptions<D extends METADATA = METADATA> {
+    /**
+     * Validates the metadata after it is read and before it is stored
+     */
+    validator?: MetaDataValidator<D>;
+    /**
+     * [Default `1`] The current version of the metadata schema, stored with the metadata.
+     * Metadata stored before versioning counts as version `1`
+     */
+    version?: number;
+    /**
+     * The migrations by the version they migrate to, `{ 2: (v1) => v2 }` moves version 1 metadata to version 2.
+     * Every version between the stored version and the current version needs a migration
+     */
+    migrations?: Record<number, MetaDataMigration>;
+    /**
+     * The metadata to return when a user has none stored yet
+     */
+    defaults?: D | (() => D);
+    /**
+     * [Default `5`] How many times `patch`, `update` and `delete` try again when reading the write back shows someone else overwrote it
+     */
+    updateAttempts?: number;
+}
+
+/**
+ * Makes every key optional, nested objects too
+ */
+export type DeepPartial<T> = {
+    [K in keyof T]?: T[K] extends Record<string, any>
+        ? DeepPartial<T[K]>
+        : T[K];
+};
+
 // Response after a login attempt
-export interface LoginResponse extends BaseResponse {
-    metaData?: METADATA;
+export interface LoginResponse<D extends METADATA = METADATA>
+    extends BaseResponse {
+    metaData?: D;
     info?: Info;
 }
 
@@ -75,16 +157,233 @@ export interface LoginResponse extends BaseResponse {
 export interface LogoutResponse extends BaseResponse {}
 
 // Configuration options
-export interface ClientOptions {
+export interface ClientOptions<D extends METADATA = METADATA> {
     ratelimit?: { maxTokens: number; refillRate: number };
     convertTimes?: boolean;
     baseUrl?: string;
     logger?: Omit<keyauthLogger, "tag" | "name">;
+    /**
+     * [Default `false`] Reject with a `KeyAuthError` when the api responds with `success: false` or the request fails,
+     * instead of resolving with the failed response.
+     */
+    throwOnError?: boolean;
+    /**
+     * Session manager options
+     */
+    session?: {
+        /**
+         * [Default `0`] How often in milliseconds to run `check` on a validated session, `0` disables the heartbeat
+         */
+        heartbeat?: number;
+        /**
+         * [Default `true`] Call `init` again when keyauth reports the session was not found
+         */
+        autoReinit?: boolean;
+    };
+    /**
+     * [Default `false`] Verify the signature header on every response with the app secret,
+     * a response that does not match rejects with an `IntegrityError`
+     */
+    verifySignature?: boolean;
+    /**
+     * Retry options for requests that failed on a transient error
+     */
+    retry?: RetryOptions;
+    /**
+     * [Default `0`] How long in milliseconds to wait for each attempt before it fails with a `TimeoutError`, `0` turns the timeout off
+     */
+    timeoutMs?: number;
+    /**
+     * [Default `FetchTransport`] The transport used to send requests, use `AxiosTransport` to send them with axios
+     */
+    transport?: Transport;
+    /**
+     * The validator, version, migrations and defaults for the users metadata
+     */
+    metaData?: MetaDataOptions<D>;
+    /**
+     * [Default `false`] Cache `fetchStats`, `fetchOnlineUsers` and `var.get`, `true` uses the default cache options.
+     * Cached responses do not use a rate limit token and are cleared when a call that changes them succeeds
+     */
+    cache?: CacheOptions | boolean;
+}
+
+/**
+ * A request to send to the keyauth api
+ */
+export interface TransportRequest {
+    /**
+     * The base url of the keyauth api
+     */
+    url: string;
+    /**
+     * The query params for the request, `undefined` params are not sent
+     */
+    params: Record<string, any>;
+    /**
+     * The headers for the request
+     */
+    headers: Record<string, string>;
+    /**
+     * Aborted when the caller aborts or the timeout runs out
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * The raw response from the keyauth api
+ */
+export interface TransportResponse {
+    /**
+     * The HTTP status code
+     */
+    status: number;
+    /**
+     * The response headers with lower case names
+     */
+    headers: Record<string, string>;
+    /**
+     * The raw response body
+     */
+    body: string;
+}
+
+/**
+ * Sends requests to the keyauth api, implement this to send requests your own way
+ */
+export interface Transport {
+    /**
+     * Send a request and resolve with the raw response, reject only when no response was received
+     */
+    send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Options that can be passed to any call as the last argument
+ */
+export interface RequestOptions {
+    /**
+     * Abort the call, it rejects with an `AbortError`
+     */
+    signal?: AbortSignal;
+    /**
+     * Override the `timeoutMs` client option for this call
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Options for retrying requests that failed on a transient error
+ */
+export interface RetryOptions {
+    /**
+     * [Default `3`] How many times to send a request in total, `1` turns retrying off
+     */
+    maxAttempts?: number;
+    /**
+     * [Default `500`] The delay in milliseconds before the first retry, this doubles every attempt
+     */
+    baseDelay?: number;
+    /**
+     * [Default `10000`] The longest delay in milliseconds between attempts
+     */
+    maxDelay?: number;
+    /**
+     * [Default `true`] Pick a random delay between 0 and the backoff delay so clients do not retry at the same time
+     */
+    jitter?: boolean;
+    /**
+     * [Default `[TransportError, RateLimitedError]`] The error classes that can be retried
+     */
+    retryOn?: Array<abstract new (...args: any[]) => Error>;
+    /**
+     * [Default `[408, 429, 500, 502, 503, 504]`] The HTTP statuses that can be retried, errors without a status are always retried
+     */
+    retryStatuses?: number[];
+    /**
+     * [Default `false`] Also retry requests that change something like `register`, `license` and `webhook`
+     */
+    retryNonIdempotent?: boolean;
+}
+
+/**
+ * The endpoints that can be cached, `var` is cached for each session as some variables need a logged in user
+ */
+export type CacheableType =
+    | EVENT_TYPE.FETCH_STATS
+    | EVENT_TYPE.FETCH_ONLINE
+    | EVENT_TYPE.VAR;
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+    /**
+     * The response that was cached
+     */
+    value: any;
+    /**
+     * The unix time in milliseconds the response goes stale
+     */
+    expiresAt: number;
+    /**
+     * The unix time in milliseconds a stale response stops being returned
+     */
+    staleUntil: number;
+}
+
+/**
+ * Where cached responses are kept, every method can return a promise
+ */
+export interface CacheStorage {
+    get: (
+        key: string,
+    ) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    set: (key: string, entry: CacheEntry) => void | Promise<void>;
+    delete: (key: string) => void | Promise<void>;
+    keys: () => string[] | Promise<string[]>;
+}
+
+/**
+ * How long a single endpoint is cached for
+ */
+export interface CacheEndpointOptions {
+    /**
+     * How long in milliseconds a response is fresh
+     */
+    ttl: number;
+    /**
+     * [Default the `staleWhileRevalidate` cache option] How long in milliseconds a stale response is still returned while it is fetched again in the background
+     */
+    staleWhileRevalidate?: number;
+}
+
+/**
+ * Options for caching the responses of read heavy endpoints
+ */
+export interface CacheOptions {
+    /**
+     * [Default `MemoryCacheStorage`] Where cached responses are kept, use `FileCacheStorage` from `@keyauthjs/client/node` to keep them between restarts
+     */
+    storage?: CacheStorage;
+    /**
+     * [Default `30000`] How long in milliseconds a response is fresh
+     */
+    ttl?: number;
+    /**
+     * [Default `0`] How long in milliseconds a stale response is still returned while it is fetched again in the background
+     */
+    staleWhileRevalidate?: number;
+    /**
+     * The ttl of each endpoint, `false` turns caching off for that endpoint
+     */
+    endpoints?: Partial<Record<CacheableType, CacheEndpointOptions | false>>;
 }
 
 // Parameters for initializing a session
-export interface InitParams extends App {
+export interface InitParams extends Omit<App, "secret"> {
     type: EVENT_TYPE.INIT;
+    enckey?: string;
 }
 
 // Parameters for a login request
@@ -127,9 +426,10 @@ export interface User extends Info {
 }
 
 // Response after a registration attempt
-export interface RegisterResponse extends BaseResponse {
+export interface RegisterResponse<D extends METADATA = METADATA>
+    extends BaseResponse {
     info?: Info;
-    metaData?: METADATA;
+    metaData?: D;
 }
 
 // Parameters for user registration
@@ -421,7 +721,7 @@ export type EventMap = {
     }) => void;
     instance: (data: BaseResponse) => void;
 
-    session: (data: any) => void;
+    session: (data: SessionEvent) => void;
     ratelimit: (data: BaseResponse) => void;
 };
 
@@ -433,7 +733,14 @@ type Error_Code =
     | "unsupportedVarType"
     | "unknown"
     | "noChatChannel"
-    | "invalidClientApi";
+    | "invalidClientApi"
+    | "rateLimited"
+    | "transportError"
+    | "invalidSignature"
+    | "timeout"
+    | "aborted"
+    | "invalidMetaData"
+    | "metaDataConflict";
 
 export enum ERROR_CODE {
     K_SK = "seesionKilled",
@@ -444,6 +751,13 @@ export enum ERROR_CODE {
     K_U = "unknown",
     K_NCC = "noChatChannel",
     K_ICA = "invalidClientApi",
+    K_RL = "rateLimited",
+    K_T = "transportError",
+    K_IS = "invalidSignature",
+    K_TO = "timeout",
+    K_A = "aborted",
+    K_IMD = "invalidMetaData",
+    K_MDC = "metaDataConflict",
 }
 
 export interface RequestResponse<EType extends EventType> {
@@ -451,13 +765,17 @@ export interface RequestResponse<EType extends EventType> {
         url: string;
         params: Record<string, any>;
     };
+    /**
+     * The attempt number of the request, starting at 1
+     */
+    attempt: number;
     response: EventMap[EType];
 }
 
 // Parameters for a webhook request
 export interface Webhook {
     webId: string;
-    sessionId: string;
+    sessionId?: string;
     params?: string;
     body?: string;
     contType?: string | undefined;
@@ -466,40 +784,40 @@ export interface Webhook {
 // Parameters for a file download request
 export interface Download {
     fileId: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for an upgrade request
 export interface Upgrade {
     username: string;
     key: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a log request
 export interface Log {
     pcUser: string;
     msg: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a password reset request
 export interface ForgotPassword {
     username: string;
     email: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for changing a username
 export interface ChangeUsername {
     newUsername: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for banning a user
 export interface Ban {
     reason: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a login request
@@ -507,67 +825,80 @@ export interface Login {
     username: string;
     password: string;
     hwid?: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a logout request
 export interface Logout {
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a license verification request
 export interface License {
     license: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for user registration
-export interface Register {
+export interface Register<D extends METADATA = METADATA> {
     username: string;
     password: string;
     key: string;
-    sessionId: string;
+    sessionId?: string;
     email?: string;
-    metaData: METADATA;
+    metaData?: D;
 }
 
 // Parameters for fetching statistics
 export interface FetchStats {
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for checking blacklist
 export interface CheckBlacklist {
     hwid: string;
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for fetching online users
 export interface FetchOnlineUsers {
-    sessionId: string;
+    sessionId?: string;
 }
 
 // Parameters for a general check
 export interface Check {
-    sessionId: string;
-    skipResponse: boolean;
+    sessionId?: string;
+    skipResponse?: boolean;
 }
 
 export interface GetMetaData {
-    sessionId: string;
+    sessionId?: string;
     skipResponse?: boolean;
     skipError?: boolean;
 }
 
-export interface SetMetaData {
-    sessionId: string;
-    metaData: METADATA;
+export interface SetMetaData<D extends METADATA = METADATA> {
+    sessionId?: string;
+    metaData: D;
     skipResponse?: boolean;
     skipError?: boolean;
 }
 
-export interface GetMetaDataResponse extends BaseResponse {
-    metaData?: METADATA;
+export interface GetMetaDataResponse<D extends METADATA = METADATA>
+    extends BaseResponse {
+    metaData?: D;
+    /**
+     * The schema version of the metadata, after any migrations ran
+     */
+    version?: number;
+    /**
+     * The revision of the stored metadata, it goes up by one with every `patch`, `update` and `delete`
+     */
+    revision?: number;
+    /**
+     * True when the user had no metadata stored and the defaults were returned
+     */
+    isDefault?: boolean;
     nonce?: string;
 }
 
@@ -575,6 +906,54 @@ export interface SetMetaDataResponse extends BaseResponse {
     nonce?: string;
 }
 
+export interface PatchMetaData<D extends METADATA = METADATA> {
+    sessionId?: string;
+    /**
+     * The keys to change, nested objects are merged into the stored metadata
+     */
+    metaData: DeepPartial<D>;
+    skipResponse?: boolean;
+    skipError?: boolean;
+}
+
+export interface UpdateMetaData<D extends METADATA = METADATA> {
+    sessionId?: string;
+    /**
+     * Returns the new metadata from the stored metadata, this runs again on every conflict so keep it free of side effects
+     */
+    updater: (metaData: D) => D;
+    skipResponse?: boolean;
+    skipError?: boolean;
+}
+
+export interface DeleteMetaData<D extends METADATA = METADATA> {
+    sessionId?: string;
+    /**
+     * The keys to remove, nested keys can be reached with a dot path like `settings.theme`
+     */
+    keys: Array<Extract<keyof D, string> | (string & {})>;
+    skipResponse?: boolean;
+    skipError?: boolean;
+}
+
+/**
+ * The result of `patch`, `update` and `delete`, a success means the write was read back and not a guarantee it is kept.
+ * Keyauth has no compare-and-swap so a write from another client that read older metadata can still replace it afterwards.
+ */
+export interface UpdateMetaDataResponse<D extends METADATA = METADATA>
+    extends BaseResponse {
+    metaData?: D;
+    /**
+     * The revision the metadata was written as, another client can still write over it after it was read back
+     */
+    revision?: number;
+    /**
+     * How many attempts it took until the write was read back without being overwritten
+     */
+    attempts?: number;
+    nonce?: string;
+}
+
 // Params needed for making a request
 export interface MakeRequestParams extends Record<string, any> {
     type: EventType;
@@ -584,12 +963,28 @@ export interface MakeRequest {
     params: MakeRequestParams;
     skipResponse?: boolean;
     skipError?: boolean;
+    /**
+     * Set when the request is already a retry after re-initializing, stops it re-initializing again
+     */
+    reinitialized?: boolean;
+    /**
+     * The attempt number of the request, starting at 1
+     */
+    attempt?: number;
+    /**
+     * Set when the request already went through deduplication or must never be shared with other reads
+     */
+    deduped?: boolean;
+    /**
+     * The signal and timeout passed to the call
+     */
+    requestOptions?: RequestOptions;
 }
 export interface SendChat {
     channel: string;
     message: string;
     username: string;
-    sessionId: string;
+    sessionId?: string;
 }
 export interface SendChatResponse extends BaseResponse {}
 export interface SendChatParams {
@@ -600,7 +995,7 @@ export interface SendChatParams {
 }
 export interface GetChat {
     channel: string;
-    sessionId: string;
+    sessionId?: string;
 }
 export interface Message {
     author: string;
@@ -620,7 +1015,7 @@ export interface GetChatParams {
 export interface SetUserVar {
     varId: string;
     varData: string;
-    sessionId: string;
+    sessionId?: string;
     skipResponse: boolean;
     skipError: boolean;
 }
@@ -632,7 +1027,7 @@ export interface SetUserVarResponse extends BaseResponse {
 // Parameters for getting a variable
 export interface GetUserVar {
     varId: string;
-    sessionId: string;
+    sessionId?: string;
     skipResponse: boolean;
     skipError: boolean;
 }
@@ -653,7 +1048,7 @@ export interface VarParams {
 
 export interface GlobalVar {
     varId: string;
-    sessionId: string;
+    sessionId?: string;
     skipResponse: boolean;
     skipError: boolean;
 }
@@ -674,9 +1069,13 @@ export interface Var {
          * @param {GetUserVar['sessionId']} data.sessionID - The session ID from the current session.
          * @param {GetUserVar['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
          * @param {GetUserVar['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<GetUserVarResponse>} `response` - the response from getting the users variable.
          */
-        get: (data: GetUserVar) => Promise<GetUserVarResponse>;
+        get: (
+            data: GetUserVar,
+            options?: RequestOptions,
+        ) => Promise<GetUserVarResponse>;
         /**
          * Set a users variable.
          *
@@ -686,9 +1085,13 @@ export interface Var {
          * @param {SetUserVar['sessionId']} data.sessionID - The session ID from the current session.
          * @param {SetUserVar['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
          * @param {SetUserVar['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<SetUserVarResponse>} `response` - the response from setting the users variable.
          */
-        set: (data: SetUserVar) => Promise<SetUserVarResponse>;
+        set: (
+            data: SetUserVar,
+            options?: RequestOptions,
+        ) => Promise<SetUserVarResponse>;
     };
     /**
      * Get a global variable.
@@ -698,11 +1101,15 @@ export interface Var {
      * @param {GlobalVar['sessionId']} data.sessionID - The session ID from the current session.
      * @param {GlobalVar['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
      * @param {GlobalVar['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<GlobalVarResponse>} `response` - the response from getting a global variable.
      */
-    get: (data: GlobalVar) => Promise<GlobalVarResponse>;
+    get: (
+        data: GlobalVar,
+        options?: RequestOptions,
+    ) => Promise<GlobalVarResponse>;
 }
-export interface MetaData {
+export interface MetaData<D extends METADATA = METADATA> {
     /**
      * Retrieve a users metadata from session ID.
      *
@@ -710,20 +1117,82 @@ export interface MetaData {
      * @param {GetMetaData['sessionId']} data.sessionID - The session ID from the current session.
      * @param {GetMetaData['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
      * @param {GetMetaData['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<GetMetaDataResponse>} `response` - the response from getting the users metadata.
+     * @throws {MetaDataError} If `throwOnError` is enabled and the stored metadata is corrupt, invalid or can not be migrated.
      */
-    get: (data: GetMetaData) => Promise<GetMetaDataResponse>;
+    get: (
+        data: GetMetaData,
+        options?: RequestOptions,
+    ) => Promise<GetMetaDataResponse<D>>;
 
     /**
-     * Set a users metadata from session ID.
+     * Set a users metadata from session ID, this overwrites whatever is stored and starts the revision again.
      *
      * @param {SetMetaData} data - The data needed to set the metadata.
      * @param {SetMetaData['sessionId']} data.sessionID - The session ID from the current session.
      * @param {SetMetaData['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
      * @param {SetMetaData['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<SetMetaDataResponse>} `response` - the response from getting the users metadata.
+     * @throws {MetaDataError} If `throwOnError` is enabled and the metadata is invalid, nothing is stored.
+     */
+    set: (
+        data: SetMetaData<D>,
+        options?: RequestOptions,
+    ) => Promise<SetMetaDataResponse>;
+
+    /**
+     * Deep merge keys into a users metadata, other keys are left as they are.
+     *
+     * @param {PatchMetaData} data - The data needed to patch the metadata.
+     * @param {PatchMetaData['metaData']} data.metaData - The keys to change.
+     * @param {PatchMetaData['sessionId']} data.sessionID - The session ID from the current session.
+     * @param {PatchMetaData['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
+     * @param {PatchMetaData['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateMetaDataResponse>} `response` - the response with the stored metadata and its revision.
+     * @throws {MetaDataConflictError} If `throwOnError` is enabled and the metadata kept changing on every attempt.
+     */
+    patch: (
+        data: PatchMetaData<D>,
+        options?: RequestOptions,
+    ) => Promise<UpdateMetaDataResponse<D>>;
+
+    /**
+     * Read, change and store a users metadata, the write is retried when reading it back shows someone else overwrote it.
+     * This is best effort, a write from another client that lands after the read back can still replace it.
+     *
+     * @param {UpdateMetaData} data - The data needed to update the metadata.
+     * @param {UpdateMetaData['updater']} data.updater - Returns the new metadata from the stored metadata.
+     * @param {UpdateMetaData['sessionId']} data.sessionID - The session ID from the current session.
+     * @param {UpdateMetaData['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
+     * @param {UpdateMetaData['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateMetaDataResponse>} `response` - the response with the stored metadata and its revision.
+     * @throws {MetaDataConflictError} If `throwOnError` is enabled and the metadata kept changing on every attempt.
+     */
+    update: (
+        data: UpdateMetaData<D>,
+        options?: RequestOptions,
+    ) => Promise<UpdateMetaDataResponse<D>>;
+
+    /**
+     * Remove keys from a users metadata.
+     *
+     * @param {DeleteMetaData} data - The data needed to delete the keys.
+     * @param {DeleteMetaData['keys']} data.keys - The keys or dot paths to remove.
+     * @param {DeleteMetaData['sessionId']} data.sessionID - The session ID from the current session.
+     * @param {DeleteMetaData['skipError']} [data.skipError = false] - If to skip logging the error or not default false.
+     * @param {DeleteMetaData['skipResponse']} [data.skipResponse = false] - If to skip logging the response or not default false.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateMetaDataResponse>} `response` - the response with the stored metadata and its revision.
+     * @throws {MetaDataConflictError} If `throwOnError` is enabled and the metadata kept changing on every attempt.
      */
-    set: (data: SetMetaData) => Promise<SetMetaDataResponse>;
+    delete: (
+        data: DeleteMetaData<D>,
+        options?: RequestOptions,
+    ) => Promise<UpdateMetaDataResponse<D>>;
 }
 
 export interface Chat {
@@ -735,10 +1204,11 @@ export interface Chat {
      * @property {GetChat} `params` - The parameters for getting chat messages.
      * @param {GetChat['channel']} `params.channel` - The channel from which to retrieve chat messages.
      * @param {GetChat['sessionId']} `params.sessionId` - The session ID for the request.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<GetChatResponse>} `GetChatResponse` - A Promise that resolves with the response containing chat messages.
      * @throws {Error} `Error` - Throws an error if API initialization is required.
      */
-    get: (data: GetChat) => Promise<GetChatResponse>;
+    get: (data: GetChat, options?: RequestOptions) => Promise<GetChatResponse>;
     /**
      * Send a chat message to a specific channel.
      *
@@ -749,8 +1219,12 @@ export interface Chat {
      * @param {SendChat['message']} `params.message` - The message content to be sent.
      * @param {SendChat['username']} `params.username` - The username of the sender.
      * @param {SendChat['sessionId']} `params.sessionId` - The session ID of the sender.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<SendChatResponse>} `SendChatResponse` - A Promise that resolves with the response of the chat message sending.
      * @throws {Error} `Error` - Throws an error if API initialization is required.
      */
-    send: (data: SendChat) => Promise<SendChatResponse>;
+    send: (
+        data: SendChat,
+        options?: RequestOptions,
+    ) => Promise<SendChatResponse>;
 }
@@ -0,0 +1,191 @@
+// Import necessary modules and types
+import {
+    CacheableType,
+    CacheEndpointOptions,
+    CacheEntry,
+    CacheOptions,
+    CacheStorage,
+    EVENT_TYPE,
+    EventType,
+} from "../types";
+
+/**
+ * The cached endpoints that are cleared when a request of a type succeeds.
+ */
+export const CACHE_INVALIDATIONS: Partial<Record<EventType, CacheableType[]>> =
+    {
+        [EVENT_TYPE.LOG_IN]: [EVENT_TYPE.FETCH_STATS, EVENT_TYPE.FETCH_ONLINE],
+        [EVENT_TYPE.LOG_OUT]: [
+            EVENT_TYPE.FETCH_STATS,
+            EVENT_TYPE.FETCH_ONLINE,
+            EVENT_TYPE.VAR,
+        ],
+        [EVENT_TYPE.REGISTER]: [
+            EVENT_TYPE.FETCH_STATS,
+            EVENT_TYPE.FETCH_ONLINE,
+        ],
+        [EVENT_TYPE.LICENSE]: [EVENT_TYPE.FETCH_STATS, EVENT_TYPE.FETCH_ONLINE],
+        [EVENT_TYPE.BAN]: [EVENT_TYPE.FETCH_STATS, EVENT_TYPE.FETCH_ONLINE],
+        [EVENT_TYPE.CHANGE_USERNAME]: [EVENT_TYPE.FETCH_ONLINE],
+    };
+
+/**
+ * Keeps cached responses in memory, they are lost when the process exits.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+    private _entries = new Map<string, CacheEntry>();
+
+    get(key: string): CacheEntry | undefined {
+        return this._entries.get(key);
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        this._entries.set(key, entry);
+    }
+
+    delete(key: string): void {
+        this._entries.delete(key);
+    }
+
+    keys(): string[] {
+        return [...this._entries.keys()];
+    }
+}
+
+/**
+ * Caches the successful responses of read heavy endpoints with a ttl for each endpoint.
+ * A stale response can still be returned while it is fetched again in the background.
+ */
+export class ResponseCache {
+    private _storage: CacheStorage;
+    private _ttl: number;
+    private _staleWhileRevalidate: number;
+    private _endpoints: CacheOptions["endpoints"];
+    private _revalidating = new Map<string, Promise<unknown>>();
+    /**
+     * Bumped on every invalidation so a fetch that started before it does not store its stale response.
+     */
+    private _generation = 0;
+
+    /**
+     * Creates a ResponseCache instance.
+     *
+     * @param {CacheOptions} [options] - The storage and how long responses are cached for.
+     */
+    constructor(options: CacheOptions = {}) {
+        this._storage = options.storage ?? new MemoryCacheStorage();
+        this._ttl = options.ttl ?? 30000;
+        this._staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+        this._endpoints = options.endpoints ?? {};
+    }
+
+    /**
+     * The ttl and stale while revalidate time of an endpoint.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @returns {Required<CacheEndpointOptions> | undefined} The times in milliseconds, `undefined` if the endpoint is not cached.
+     */
+    private _options(
+        type: CacheableType,
+    ): Required<CacheEndpointOptions> | undefined {
+        const endpoint = this._endpoints?.[type];
+        if (endpoint === false) return undefined;
+        const ttl = endpoint?.ttl ?? this._ttl;
+        if (ttl <= 0) return undefined;
+        return {
+            ttl,
+            staleWhileRevalidate:
+                endpoint?.staleWhileRevalidate ?? this._staleWhileRevalidate,
+        };
+    }
+
+    /**
+     * Fetch a response and store it when it was successful and nothing was invalidated while it was fetched.
+     *
+     * @param {string} key - The key to store the response under.
+     * @param {Required<CacheEndpointOptions>} options - How long the response is cached for.
+     * @param {() => Promise<T>} fetch - Sends the request.
+     * @returns {Promise<T>} The response.
+     */
+    private async _fetch<T extends { success?: boolean }>(
+        key: string,
+        { ttl, staleWhileRevalidate }: Required<CacheEndpointOptions>,
+        fetch: () => Promise<T>,
+    ): Promise<T> {
+        const generation = this._generation;
+        const response = await fetch();
+        if (response.success !== false && generation === this._generation) {
+            const now = Date.now();
+            await this._storage.set(key, {
+                value: { ...response },
+                expiresAt: now + ttl,
+                staleUntil: now + ttl + staleWhileRevalidate,
+            });
+        }
+        return response;
+    }
+
+    /**
+     * Return the cached response of an endpoint or fetch it when there is none.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @param {string} id - What makes the response unique for the endpoint, like the variable name.
+     * @param {() => Promise<T>} fetch - Sends the request when the response is not cached.
+     * @param {(error: unknown) => void} onRevalidateError - Called when fetching a stale response again in the background fails.
+     * @returns {Promise<T>} The cached or fetched response.
+     */
+    async wrap<T extends { success?: boolean }>(
+        type: CacheableType,
+        id: string,
+        fetch: () => Promise<T>,
+        onRevalidateError: (error: unknown) => void,
+    ): Promise<T> {
+        const options = this._options(type);
+        if (!options) return fetch();
+
+        const key = `${type}:${id}`;
+        const entry = await this._storage.get(key);
+        const now = Date.now();
+
+        // A fresh response is returned straight away
+        if (entry && now < entry.expiresAt) return { ...entry.value };
+
+        // A stale response is returned while it is fetched again once in the background
+        if (entry && now < entry.staleUntil) {
+            if (!this._revalidating.has(key)) {
+                const revalidate = this._fetch(key, options, fetch)
+                    .catch(onRevalidateError)
+                    .finally(() => this._revalidating.delete(key));
+                this._revalidating.set(key, revalidate);
+            }
+            return { ...entry.value };
+        }
+        return this._fetch(key, options, fetch);
+    }
+
+    /**
+     * Remove the cached responses of endpoints.
+     *
+     * @param {CacheableType[]} [types] - The endpoints to clear, every endpoint is cleared when left out.
+     */
+    async invalidate(types?: CacheableType[]): Promise<void> {
+        this._generation++;
+        const keys = await this._storage.keys();
+        for (const key of keys) {
+            const type = key.slice(0, key.indexOf(":"));
+            if (!types || types.includes(type as CacheableType)) {
+                await this._storage.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Remove the cached responses a successful request of a type changed.
+     *
+     * @param {EventType} type - The request type that succeeded.
+     */
+    async invalidateAfter(type: EventType): Promise<void> {
+        const types = CACHE_INVALIDATIONS[type];
+        if (types) await this.invalidate(types);
+    }
+}
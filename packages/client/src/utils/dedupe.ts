@@ -0,0 +1,54 @@
+// Import necessary modules and types
+import { EVENT_TYPE, EventType, MakeRequest } from "../types";
+
+/**
+ * Request types that change something on keyauth or the session, identical calls of these are always sent on their own.
+ */
+export const MUTATING_TYPES: EventType[] = [
+    EVENT_TYPE.INIT,
+    EVENT_TYPE.LOG_IN,
+    EVENT_TYPE.LOG_OUT,
+    EVENT_TYPE.REGISTER,
+    EVENT_TYPE.LICENSE,
+    EVENT_TYPE.BAN,
+    EVENT_TYPE.CHANGE_USERNAME,
+    EVENT_TYPE.FORGOT_PASSWORD,
+    EVENT_TYPE.LOG,
+    EVENT_TYPE.CHAT_SEND,
+    EVENT_TYPE.SET_VAR,
+    EVENT_TYPE.UPGRADE,
+    EVENT_TYPE.WEBHOOK,
+];
+
+/**
+ * Work out the key concurrent identical reads share their request under.
+ * Calls with an abort signal are not shared as aborting one call would abort every call.
+ *
+ * @param {MakeRequest} request - The request to send.
+ * @param {number} generation - How many writes the session has started and finished, reads only share within a generation.
+ * @returns {string | undefined} The key, `undefined` if the request can not be shared.
+ */
+export function getDedupeKey(
+    {
+        params,
+        skipError = false,
+        skipResponse = false,
+        requestOptions,
+    }: MakeRequest,
+    generation: number,
+): string | undefined {
+    if (MUTATING_TYPES.includes(params.type)) return undefined;
+    if (requestOptions?.signal) return undefined;
+
+    // Sort the params so the order they were set in does not matter
+    const sorted = Object.keys(params)
+        .sort()
+        .map((key) => [key, params[key]]);
+    return JSON.stringify([
+        generation,
+        sorted,
+        skipError,
+        skipResponse,
+        requestOptions?.timeoutMs,
+    ]);
+}
@@ -0,0 +1,75 @@
+// Import necessary modules and types
+import { readFile, writeFile } from "fs/promises";
+import { CacheEntry, CacheStorage } from "../types";
+
+/**
+ * Keeps cached responses in a json file so they are kept between restarts.
+ * The file is read on first use and written after every change.
+ */
+export class FileCacheStorage implements CacheStorage {
+    private _path: string;
+    private _entries: Promise<Map<string, CacheEntry>> | undefined;
+    private _writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a FileCacheStorage instance.
+     *
+     * @param {string} path - The path of the json file, it is created when it does not exist.
+     */
+    constructor(path: string) {
+        this._path = path;
+    }
+
+    /**
+     * Read the file the first time it is needed, a missing or broken file starts an empty cache.
+     *
+     * @returns {Promise<Map<string, CacheEntry>>} The cached responses by key.
+     */
+    private _load(): Promise<Map<string, CacheEntry>> {
+        this._entries ??= readFile(this._path, "utf8")
+            .then(
+                (raw) =>
+                    new Map<string, CacheEntry>(
+                        Object.entries(JSON.parse(raw)),
+                    ),
+            )
+            .catch(() => new Map<string, CacheEntry>());
+        return this._entries;
+    }
+
+    /**
+     * Write every cached response to the file, writes happen one after the other.
+     *
+     * @param {Map<string, CacheEntry>} entries - The cached responses by key.
+     */
+    private _save(entries: Map<string, CacheEntry>): Promise<void> {
+        this._writing = this._writing
+            .catch(() => {})
+            .then(() =>
+                writeFile(
+                    this._path,
+                    JSON.stringify(Object.fromEntries(entries)),
+                ),
+            );
+        return this._writing;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return (await this._load()).get(key);
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const entries = await this._load();
+        entries.set(key, entry);
+        await this._save(entries);
+    }
+
+    async delete(key: string): Promise<void> {
+        const entries = await this._load();
+        if (entries.delete(key)) await this._save(entries);
+    }
+
+    async keys(): Promise<string[]> {
+        return [...(await this._load()).keys()];
+    }
+}
@@ -0,0 +1,315 @@
+// Import necessary modules and types
+import {
+    EVENT_TYPE,
+    METADATA,
+    MetaDataMigration,
+    MetaDataOptions,
+    MetaDataValidator,
+} from "../types";
+import { MetaDataError } from "./errors";
+import { randomHex } from "./random";
+
+/**
+ * The metadata options with every default filled in.
+ */
+export interface MetaDataSchema<D extends METADATA = METADATA> {
+    validator?: MetaDataValidator<D>;
+    version: number;
+    migrations: Record<number, MetaDataMigration>;
+    defaults?: D | (() => D);
+    updateAttempts: number;
+}
+
+/**
+ * How many earlier write ids are kept with the metadata.
+ */
+const WRITER_HISTORY = 8;
+
+/**
+ * The shape metadata is stored in, the data is kept next to the schema version it was written with.
+ * `$rev` counts the updates and `$writer` is a random id for the write, together they show when someone else wrote in between.
+ * `$writers` holds the ids of the writes before it so a write that was built on top of ours still counts as keeping it.
+ */
+export interface StoredMetaData {
+    $version: number;
+    $rev?: number;
+    $writer?: string;
+    $writers?: string[];
+    data: unknown;
+}
+
+/**
+ * Stored metadata after it was read, migrated and validated.
+ */
+export interface DecodedMetaData<D extends METADATA = METADATA> {
+    metaData: D;
+    version: number;
+    /**
+     * The revision of the stored metadata, `0` if it has never been updated
+     */
+    revision: number;
+    /**
+     * The id of the write that stored the metadata, `undefined` for metadata stored before revisions
+     */
+    writer: string | undefined;
+    /**
+     * The ids of the recent writes the stored metadata includes, oldest first and ending with `writer`
+     */
+    writers: string[];
+}
+
+/**
+ * Fill in the defaults for the metadata options.
+ *
+ * @param {MetaDataOptions} [options] - The metadata options passed to the client.
+ * @returns {MetaDataSchema} The metadata options with every default filled in.
+ */
+export function createMetaDataSchema<D extends METADATA>(
+    options?: MetaDataOptions<D>,
+): MetaDataSchema<D> {
+    return {
+        validator: options?.validator,
+        version: options?.version ?? 1,
+        migrations: options?.migrations ?? {},
+        defaults: options?.defaults,
+        updateAttempts: Math.max(1, options?.updateAttempts ?? 5),
+    };
+}
+
+/**
+ * Get the default metadata for a user that has none stored.
+ *
+ * @param {MetaDataSchema} schema - The metadata schema.
+ * @returns {D | undefined} The default metadata, `undefined` if there are no defaults.
+ */
+export function getDefaultMetaData<D extends METADATA>(
+    schema: MetaDataSchema<D>,
+): D | undefined {
+    return typeof schema.defaults === "function"
+        ? schema.defaults()
+        : schema.defaults;
+}
+
+/**
+ * Check if a failed response means the `metaData` user variable has not been set yet.
+ *
+ * @param {string} message - The message of the failed response.
+ * @returns {boolean} True if the variable does not exist.
+ */
+export function isMissingMetaData(message: string): boolean {
+    return (
+        /not found/i.test(message) && !message.startsWith("Session not found")
+    );
+}
+
+/**
+ * Run the validator on metadata.
+ *
+ * @param {MetaDataSchema} schema - The metadata schema.
+ * @param {unknown} data - The metadata to validate.
+ * @returns {D} The validated metadata, this is what the validator returned when it returns data.
+ * @throws {MetaDataError} If the metadata does not pass the validator.
+ */
+export function validateMetaData<D extends METADATA>(
+    schema: MetaDataSchema<D>,
+    data: unknown,
+): D {
+    const validator = schema.validator;
+    if (!validator) return data as D;
+
+    let result: D | boolean;
+    try {
+        result =
+            typeof validator === "function"
+                ? validator(data)
+                : validator.parse(data);
+    } catch (error) {
+        throw new MetaDataError("MetaData did not pass validation", {
+            type: EVENT_TYPE.METADATA,
+            response: data,
+            cause: error,
+        });
+    }
+    if (result === false) {
+        throw new MetaDataError("MetaData did not pass validation", {
+            type: EVENT_TYPE.METADATA,
+            response: data,
+        });
+    }
+    return result === true ? (data as D) : result;
+}
+
+/**
+ * Read stored metadata, older versions are migrated to the current version before they are validated.
+ *
+ * @param {MetaDataSchema} schema - The metadata schema.
+ * @param {string} raw - The raw value of the `metaData` user variable.
+ * @returns {DecodedMetaData<D>} The validated metadata with its version and revision.
+ * @throws {MetaDataError} If the metadata is not valid json, is newer than the schema, can not be migrated or does not pass the validator.
+ */
+export function decodeMetaData<D extends METADATA>(
+    schema: MetaDataSchema<D>,
+    raw: string,
+): DecodedMetaData<D> {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(raw);
+    } catch (error) {
+        throw new MetaDataError("Stored metaData is not valid JSON", {
+            type: EVENT_TYPE.METADATA,
+            response: raw,
+            cause: error,
+        });
+    }
+
+    // Metadata stored before versioning is the data itself and counts as version 1
+    let version = 1;
+    let revision = 0;
+    let writer: string | undefined;
+    let writers: string[] = [];
+    let data = stored;
+    if (isStoredMetaData(stored)) {
+        version = stored.$version;
+        revision = stored.$rev ?? 0;
+        writer = stored.$writer;
+        if (Array.isArray(stored.$writers)) writers = [...stored.$writers];
+        if (writer) writers.push(writer);
+        data = stored.data;
+    }
+    if (version > schema.version) {
+        throw new MetaDataError(
+            `Stored metaData version ${version} is newer than version ${schema.version}`,
+            { type: EVENT_TYPE.METADATA, response: stored },
+        );
+    }
+
+    // Run every migration between the stored version and the current version
+    for (let next = version + 1; next <= schema.version; next++) {
+        const migration = schema.migrations[next];
+        if (!migration) {
+            throw new MetaDataError(
+                `No metaData migration to version ${next}`,
+                { type: EVENT_TYPE.METADATA, response: stored },
+            );
+        }
+        try {
+            data = migration(data);
+        } catch (error) {
+            throw new MetaDataError(
+                `MetaData migration to version ${next} failed`,
+                { type: EVENT_TYPE.METADATA, response: stored, cause: error },
+            );
+        }
+    }
+
+    return {
+        metaData: validateMetaData(schema, data),
+        version: schema.version,
+        revision,
+        writer,
+        writers,
+    };
+}
+
+/**
+ * Validate metadata and wrap it with the current schema version, the revision and a new write id so it can be stored.
+ *
+ * @param {MetaDataSchema} schema - The metadata schema.
+ * @param {unknown} metaData - The metadata to store.
+ * @param {number} [revision] - [Default `0`] The revision to store the metadata as.
+ * @param {string[]} [writers] - [Default `[]`] The ids of the writes the metadata was built on, only the most recent are kept.
+ * @returns {{ metaData: D; raw: string; writer: string }} The validated metadata, the value to store in the `metaData` user variable and the write id.
+ * @throws {MetaDataError} If the metadata does not pass the validator.
+ */
+export function encodeMetaData<D extends METADATA>(
+    schema: MetaDataSchema<D>,
+    metaData: unknown,
+    revision: number = 0,
+    writers: string[] = [],
+): { metaData: D; raw: string; writer: string } {
+    const validated = validateMetaData(schema, metaData);
+    const stored: StoredMetaData = {
+        $version: schema.version,
+        $rev: revision,
+        $writer: randomHex(8),
+        $writers: writers.slice(-WRITER_HISTORY),
+        data: validated,
+    };
+    return {
+        metaData: validated,
+        raw: JSON.stringify(stored),
+        writer: stored.$writer!,
+    };
+}
+
+/**
+ * Deep merge a patch into metadata, plain objects are merged and everything else is replaced.
+ * Keys set to `undefined` in the patch are left alone.
+ *
+ * @param {unknown} target - The metadata to merge into, it is not changed.
+ * @param {unknown} patch - The partial metadata to merge.
+ * @returns {any} The merged metadata.
+ */
+export function mergeMetaData(target: unknown, patch: unknown): any {
+    if (!isPlainObject(target) || !isPlainObject(patch)) {
+        return patch === undefined ? target : patch;
+    }
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined) continue;
+        merged[key] = mergeMetaData(target[key], value);
+    }
+    return merged;
+}
+
+/**
+ * Remove keys from metadata, nested keys can be reached with a dot path like `settings.theme`.
+ *
+ * @param {unknown} metaData - The metadata to remove the keys from, it is not changed.
+ * @param {string[]} keys - The keys or dot paths to remove.
+ * @returns {any} The metadata without the keys.
+ */
+export function deleteMetaDataKeys(metaData: unknown, keys: string[]): any {
+    if (!isPlainObject(metaData)) return metaData;
+    const result: Record<string, unknown> = { ...metaData };
+    for (const key of keys) {
+        const [head, ...rest] = key.split(".");
+        if (!(head in result)) continue;
+        if (rest.length === 0) {
+            delete result[head];
+        } else {
+            result[head] = deleteMetaDataKeys(result[head], [rest.join(".")]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Check if a value is a plain object that can be merged.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.getPrototypeOf(value) === Object.prototype
+    );
+}
+
+/**
+ * Check if a stored value is wrapped with its schema version.
+ *
+ * @param {unknown} value - The parsed value of the `metaData` user variable.
+ * @returns {boolean} True if the value holds a version and data.
+ */
+function isStoredMetaData(value: unknown): value is StoredMetaData {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as StoredMetaData).$version === "number" &&
+        "data" in value
+    );
+}
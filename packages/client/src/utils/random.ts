@@ -0,0 +1,22 @@
+/**
+ * Creates a random hex string with the web crypto api, it works in node 18 and later, browsers and edge runtimes.
+ *
+ * @param {number} bytes - How many random bytes to use, the string is twice as long.
+ * @returns {string} The random hex string.
+ */
+export function randomHex(bytes: number): string {
+    const values = globalThis.crypto.getRandomValues(new Uint8Array(bytes));
+    return toHex(values);
+}
+
+/**
+ * Turns bytes into a lowercase hex string.
+ *
+ * @param {Uint8Array} bytes - The bytes.
+ * @returns {string} The hex string.
+ */
+export function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+        "",
+    );
+}
@@ -1,3 +1,6 @@
+// Import necessary modules
+import { sleep } from "./abort";
+
 /**
  * RateLimiter is a class that provides rate limiting functionality based on the Token Bucket algorithm.
  * It allows you to control the rate at which requests are allowed to be made.
@@ -75,22 +78,18 @@ export class RateLimiter {
         return timeUntilAvailable;
     }
 
-    /**
-     * Asynchronously waits until a request can be made based on the rate limit.
-     */
-    private async sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms));
-    }
-
     /**
      * Asynchronously waits until a request can be made and resets the token count to the maximum.
+     *
+     * @param {AbortSignal} [signal] - Stops waiting early when aborted, the token count is not reset.
      */
-    public async waitUntilCanMakeRequest(): Promise<void> {
+    public async waitUntilCanMakeRequest(signal?: AbortSignal): Promise<void> {
         const timeToWait = this.getTimeUntilCanMakeRequest();
 
         if (timeToWait > 0) {
-            await this.sleep(timeToWait);
+            await sleep(timeToWait, signal);
         }
+        if (signal?.aborted) return;
 
         // After waiting, reset the token count to the maximum
         this.tokens = this.maxTokens;
@@ -0,0 +1,89 @@
+// Import necessary modules and types
+import { EVENT_TYPE, EventType, RetryOptions } from "../types";
+import { RateLimitedError, TransportError } from "./errors";
+
+/**
+ * Request types that change something on keyauth, these are not retried unless `retryNonIdempotent` is set
+ * because the first attempt may have gone through before the connection failed.
+ */
+export const NON_IDEMPOTENT_TYPES: EventType[] = [
+    EVENT_TYPE.REGISTER,
+    EVENT_TYPE.LICENSE,
+    EVENT_TYPE.UPGRADE,
+    EVENT_TYPE.BAN,
+    EVENT_TYPE.LOG,
+    EVENT_TYPE.WEBHOOK,
+    EVENT_TYPE.CHAT_SEND,
+    EVENT_TYPE.FORGOT_PASSWORD,
+    EVENT_TYPE.CHANGE_USERNAME,
+];
+
+/**
+ * The retry options with every default filled in.
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+/**
+ * Fill in the defaults for the retry options.
+ *
+ * @param {RetryOptions} [options] - The retry options passed to the client.
+ * @returns {RetryPolicy} The retry options with every default filled in.
+ */
+export function createRetryPolicy(options?: RetryOptions): RetryPolicy {
+    return {
+        maxAttempts: Math.max(1, options?.maxAttempts ?? 3),
+        baseDelay: options?.baseDelay ?? 500,
+        maxDelay: options?.maxDelay ?? 10_000,
+        jitter: options?.jitter ?? true,
+        retryOn: options?.retryOn ?? [TransportError, RateLimitedError],
+        retryStatuses: options?.retryStatuses ?? [408, 429, 500, 502, 503, 504],
+        retryNonIdempotent: options?.retryNonIdempotent ?? false,
+    };
+}
+
+/**
+ * Check if a failed attempt should be sent again.
+ *
+ * @param {RetryPolicy} policy - The retry policy.
+ * @param {unknown} error - The error the attempt failed with.
+ * @param {EventType} type - The request type of the attempt.
+ * @param {number} attempt - The attempt number that failed, starting at 1.
+ * @returns {boolean} True if the request should be sent again.
+ */
+export function shouldRetry(
+    policy: RetryPolicy,
+    error: unknown,
+    type: EventType,
+    attempt: number,
+): boolean {
+    if (attempt >= policy.maxAttempts) return false;
+    if (!policy.retryNonIdempotent && NON_IDEMPOTENT_TYPES.includes(type)) {
+        return false;
+    }
+    if (!policy.retryOn.some((errorClass) => error instanceof errorClass)) {
+        return false;
+    }
+
+    // Errors without a status never reached the server, like a dropped connection
+    const status =
+        error instanceof RateLimitedError
+            ? 429
+            : (error as TransportError).status;
+    return status === undefined || policy.retryStatuses.includes(status);
+}
+
+/**
+ * Work out how long to wait before the next attempt, the delay doubles every attempt up to `maxDelay`.
+ *
+ * @param {RetryPolicy} policy - The retry policy.
+ * @param {number} attempt - The attempt number that failed, starting at 1.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+    const delay = Math.min(
+        policy.maxDelay,
+        policy.baseDelay * 2 ** (attempt - 1),
+    );
+    // Full jitter spreads out clients that failed at the same time
+    return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
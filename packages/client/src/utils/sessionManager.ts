@@ -0,0 +1,145 @@
+// Import necessary modules and types
+import {
+    EVENT_TYPE,
+    KeyauthEventEmitter,
+    Session,
+    SessionState,
+} from "../types";
+
+/**
+ * SessionManager keeps track of the session created by `init` so it does not have to be passed to every call.
+ * Every state change is emitted to the `session` event.
+ */
+export default class SessionManager {
+    private _session: Session | undefined;
+    private _eventEmitter: KeyauthEventEmitter;
+    private _heartbeatInterval: number;
+    private _heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+    /**
+     * Constructs a SessionManager instance.
+     * @param {KeyauthEventEmitter} eventEmitter - The event emitter to send session events to.
+     * @param {number} heartbeatInterval - How often in milliseconds to check the session, `0` disables the heartbeat.
+     */
+    constructor(eventEmitter: KeyauthEventEmitter, heartbeatInterval: number) {
+        this._eventEmitter = eventEmitter;
+        this._heartbeatInterval = heartbeatInterval;
+    }
+
+    /**
+     * The current session, `undefined` if there is no session.
+     */
+    get session(): Session | undefined {
+        return this._session ? { ...this._session } : undefined;
+    }
+
+    /**
+     * The current session ID, `undefined` if there is no session.
+     */
+    get id(): string | undefined {
+        return this._session?.id;
+    }
+
+    /**
+     * Resolve the session ID to send with a request.
+     *
+     * @param {string} [sessionId] - The session ID passed by the caller.
+     * @returns {string} The passed session ID or the current session ID.
+     */
+    resolve(sessionId?: string): string {
+        return sessionId ?? this._session?.id ?? "";
+    }
+
+    /**
+     * Check if a session ID is the current session and it has been validated.
+     *
+     * @param {string} sessionId - The session ID to check.
+     * @returns {boolean} True if the session is the current validated session.
+     */
+    isValidated(sessionId: string): boolean {
+        return this._session?.id === sessionId && this._session.validated;
+    }
+
+    /**
+     * Store a new session from `init`.
+     *
+     * @param {string} id - The session ID.
+     * @param {boolean} isNew - If the session is a new session.
+     */
+    create(id: string, isNew: boolean) {
+        this.stopHeartbeat();
+        this._session = { id, new: isNew, validated: false };
+        this._emit("created");
+    }
+
+    /**
+     * Mark the current session as validated, this happens after a login, register or license.
+     *
+     * @param {string} sessionId - The session ID that was validated.
+     * @param {() => Promise<void>} heartbeat - The function that checks the session on each heartbeat.
+     */
+    validate(sessionId: string, heartbeat: () => Promise<void>) {
+        if (!this._session || this._session.id !== sessionId) return;
+        if (!this._session.validated) {
+            this._session = { ...this._session, validated: true };
+            this._emit("validated");
+        }
+        this.startHeartbeat(heartbeat);
+    }
+
+    /**
+     * Mark the current session as no longer validated, the session still exists but the user must log in again.
+     */
+    expire() {
+        this.stopHeartbeat();
+        if (!this._session || !this._session.validated) return;
+        this._session = { ...this._session, validated: false };
+        this._emit("expired");
+    }
+
+    /**
+     * Remove the current session, it no longer exists on keyauth.
+     */
+    kill() {
+        this.stopHeartbeat();
+        if (!this._session) return;
+        this._session = { ...this._session, validated: false };
+        this._emit("killed");
+        this._session = undefined;
+    }
+
+    /**
+     * Start checking the session on an interval, does nothing if the heartbeat is disabled.
+     *
+     * @param {() => Promise<void>} heartbeat - The function that checks the session.
+     */
+    startHeartbeat(heartbeat: () => Promise<void>) {
+        this.stopHeartbeat();
+        if (this._heartbeatInterval <= 0) return;
+        this._heartbeatTimer = setInterval(() => {
+            heartbeat().catch(() => undefined);
+        }, this._heartbeatInterval);
+        // Do not keep the process alive just for the heartbeat
+        this._heartbeatTimer.unref?.();
+    }
+
+    /**
+     * Stop checking the session.
+     */
+    stopHeartbeat() {
+        if (this._heartbeatTimer) clearInterval(this._heartbeatTimer);
+        this._heartbeatTimer = undefined;
+    }
+
+    /**
+     * Emit the current session state to the session event.
+     *
+     * @param {SessionState} state - The new state of the session.
+     */
+    private _emit(state: SessionState) {
+        this._eventEmitter.emit(EVENT_TYPE.SESSION, {
+            state,
+            session: { ...this._session! },
+        });
+    }
+}
@@ -0,0 +1,56 @@
+// Import necessary modules
+import { randomHex, toHex } from "./random";
+
+/**
+ * Creates a random encryption key to send with init, keyauth uses it with the app secret to sign every response after init.
+ *
+ * @returns {string} A random 32 character hex string.
+ */
+export function createEncKey(): string {
+    return randomHex(16);
+}
+
+/**
+ * Checks the signature header keyauth sent matches the HMAC-SHA256 of the raw response body.
+ * It uses the web crypto api so it works in node 18 and later, browsers and edge runtimes.
+ *
+ * @param {string} body - The raw response body.
+ * @param {unknown} signature - The signature header from the response.
+ * @param {string} key - The key the response was signed with, the app secret for init or `enckey-secret` after init.
+ * @returns {Promise<boolean>} True if the signature matches the body.
+ */
+export async function verifySignature(
+    body: string,
+    signature: unknown,
+    key: string,
+): Promise<boolean> {
+    if (typeof signature !== "string" || signature.length === 0) return false;
+
+    // Create the signature we expect for the body
+    const encoder = new TextEncoder();
+    const hmacKey = await globalThis.crypto.subtle.importKey(
+        "raw",
+        encoder.encode(key),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+    );
+    const expected = toHex(
+        new Uint8Array(
+            await globalThis.crypto.subtle.sign(
+                "HMAC",
+                hmacKey,
+                encoder.encode(body),
+            ),
+        ),
+    );
+    const received = signature.toLowerCase();
+
+    // Compare in constant time so the signature can not be guessed from response times
+    if (received.length !== expected.length) return false;
+    let difference = 0;
+    for (let i = 0; i < expected.length; i++) {
+        difference |= received.charCodeAt(i) ^ expected.charCodeAt(i);
+    }
+    return difference === 0;
+}
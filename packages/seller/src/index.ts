@@ -1,3 +1,6 @@
 import SellerApi from "./seller";
 export * from "./types";
+export * from "./utils/errors";
+export { AxiosTransport, FetchTransport } from "./utils/transports";
+export { FileCacheStorage, MemoryCacheStorage } from "./utils/cache";
 export { SellerApi };
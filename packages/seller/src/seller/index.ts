@@ -1,6 +1,13 @@
-import axios, { AxiosError, AxiosInstance, AxiosResponse } from "axios";
 import Logger from "../utils/logger";
 import { BASE_URL, HEADERS } from "../utils/constants";
+import { FetchTransport, parseBody } from "../utils/transports";
+import { createRequestSignal, RequestSignal, sleep } from "../utils/abort";
+import {
+    createRetryPolicy,
+    getRetryDelay,
+    RetryPolicy,
+    shouldRetry,
+} from "../utils/retry";
 import {
     CHARACTER,
     CreateLicenseParams,
@@ -46,8 +53,152 @@ import {
     SubtractUsersSubParams,
     CountSubscriptionsParams,
     ExtendUsersSubParams,
+    BanUserParams,
+    UnbanUserParams,
+    DeleteAllUsersParams,
+    VerifyUserExistsParams,
+    FetchAllUsersResponseParams,
+    FetchAllUsersResponse,
+    FetchAllUsersVarsResponse,
+    FetchAllLicenseResponse,
+    ResetUserPasswordParams,
+    ChangeUsersEmailParams,
+    RetrieveUserDataParams,
+    RetrieveUserDataResponse,
+    FetchAllUsersUsersnamesParams,
+    UserCoolDownParams,
+    ERROR_CODE,
+    EventType,
+    BaseResponse,
+    RequestOptions,
+    BulkCheckpoint,
+    BulkItemResult,
+    BulkLicenseType,
+    BulkOptions,
+    BulkResult,
+    QueryOptions,
+    QueryResponse,
+    Transport,
+    TransportResponse,
+    SubscriptionService,
+    CreateSubscriptionParams,
+    EditSubscriptionParams,
+    DeleteSubscriptionParams,
+    FetchAllSubscriptionsParams,
+    PauseSubscriptionParams,
+    UnpauseSubscriptionParams,
+    GlobalVarService,
+    GlobalVar,
+    CreateGlobalVarParams,
+    UpdateGlobalVarParams,
+    DeleteGlobalVarParams,
+    GetGlobalVarParams,
+    FetchAllGlobalVarsParams,
+    DeleteAllGlobalVarsParams,
+    FileService,
+    FileInfo,
+    UploadFileParams,
+    FetchAllFilesParams,
+    DeleteFileParams,
+    DeleteAllFilesParams,
+    EditFileParams,
+    ChatService,
+    ChatChannel,
+    ChatMute,
+    ChatMessage,
+    CreateChatChannelParams,
+    EditChatChannelParams,
+    DeleteChatChannelParams,
+    ClearChatChannelParams,
+    FetchAllChatChannelsParams,
+    MuteUserParams,
+    UnmuteUserParams,
+    FetchAllMutesParams,
+    ChatHistoryParams,
+    BlacklistService,
+    BlacklistEntry,
+    BlacklistType,
+    AddBlacklistParams,
+    DeleteBlacklistParams,
+    FetchAllBlacklistsParams,
+    DeleteAllBlacklistsParams,
+    WhitelistService,
+    WhitelistEntry,
+    AddWhitelistParams,
+    DeleteWhitelistParams,
+    FetchAllWhitelistsParams,
+    DeleteAllWhitelistsParams,
+    SessionService,
+    ActiveSession,
+    FetchAllSessionsParams,
+    KillSessionParams,
+    KillAllSessionsParams,
+    WebhookService,
+    WebhookInfo,
+    CreateWebhookParams,
+    DeleteWebhookParams,
+    FetchAllWebhooksParams,
+    DeleteAllWebhooksParams,
+    AppService,
+    GetAppSettingsParams,
+    GetAppSettingsResponse,
+    PauseAppParams,
+    UnpauseAppParams,
+    AddHashParams,
+    ResetHashParams,
+    LogsService,
+    LogEntry,
+    FetchAllLogsParams,
+    DeleteAllLogsParams,
+    AccountService,
+    Account,
+    ManagerPermission,
+    CreateAccountParams,
+    DeleteAccountParams,
+    FetchAllAccountsParams,
+    SetAccountBalanceParams,
+    TransferService,
+    ExportFile,
+    ExportResponse,
+    ImportAction,
+    ImportFile,
+    ImportItemResult,
+    ImportResponse,
+    CacheableType,
 } from "../types";
 import { RateLimiter } from "../utils/rateLimiter";
+import { toAppSettings, toSettingsParams } from "../utils/settings";
+import { validateAccount, validateBalance } from "../utils/accounts";
+import { ResponseCache } from "../utils/cache";
+import {
+    runQuery,
+    toLicenseEntry,
+    toUserEntry,
+    toUserVarEntry,
+    validateQuery,
+} from "../utils/query";
+import {
+    freeName,
+    getBanReason,
+    isEmptyListMessage,
+    LICENSE_COLUMNS,
+    readRecords,
+    resolveFormat,
+    SUBSCRIPTION_COLUMNS,
+    USER_COLUMNS,
+    USER_VAR_COLUMNS,
+    validateLicenseRecord,
+    writeRecords,
+} from "../utils/transfer";
+import {
+    AbortError,
+    InvalidApplicationError,
+    InvalidParamsError,
+    KeyAuthError,
+    RateLimitedError,
+    TimeoutError,
+    TransportError,
+} from "../utils/errors";
 
 /**
  * KeyAuth Seller API Wrapper
@@ -62,10 +213,16 @@ export default class Api {
     // ------------------------------------------
 
     /**
-     * Axios instance for making HTTP requests.
+     * Transport for making HTTP requests.
+     * @private
+     */
+    private _transport: Transport;
+
+    /**
+     * The base url of the keyauth seller api.
      * @private
      */
-    private _axiosInstance: AxiosInstance;
+    private _baseUrl: string;
 
     /**
      * Logger for debugging and logging.
@@ -91,6 +248,30 @@ export default class Api {
      */
     private _rateLimiter: RateLimiter;
 
+    /**
+     * Flag to determine whether failed requests reject with a KeyAuthError.
+     * @private
+     */
+    private _throwOnError: boolean;
+
+    /**
+     * The retry policy for requests that failed on a transient error.
+     * @private
+     */
+    private _retryPolicy: RetryPolicy;
+
+    /**
+     * The default timeout in milliseconds for each attempt, `0` turns the timeout off.
+     * @private
+     */
+    private _timeoutMs: number;
+
+    /**
+     * The cache for read heavy endpoints, `undefined` when caching is off.
+     * @private
+     */
+    private _cache: ResponseCache | undefined;
+
     /**
      * KeyAuth Seller API Wrapper
      *
@@ -105,6 +286,11 @@ export default class Api {
      * @param {SellerOptions} [options] - All the options for the seller client these are all optional
      * @param {SellerOptions['baseUrl']} `options.baseUrl` - [Default `https://keyauth.win/api/seller`] This can be changed for if you are self hosting.
      * @param {SellerOptions['logger']} `options.logger` - [Default `inactive`] All the logger options
+     * @param {SellerOptions['throwOnError']} `options.throwOnError` - [Default `false`] Reject with a `KeyAuthError` when a request fails
+     * @param {SellerOptions['retry']} `options.retry` - Retry options for requests that failed on a transient error
+     * @param {SellerOptions['transport']} `options.transport` - [Default `FetchTransport`] The transport used to send requests
+     * @param {SellerOptions['timeoutMs']} `options.timeoutMs` - [Default `0`] How long in milliseconds to wait for each attempt, `0` turns the timeout off
+     * @param {SellerOptions['cache']} `options.cache` - [Default `false`] Cache `license.fetchAll`, `user.allUsernames` and `globalVar.get` with a ttl for each endpoint
      */
     constructor(seller: Seller, options?: SellerOptions) {
         //TODO Finish constructure
@@ -120,6 +306,22 @@ export default class Api {
         // Store the sellerkey to be used later
         this._sellerKey = seller.sellerKey;
 
+        // Determine whether failed requests should reject
+        this._throwOnError = options?.throwOnError ?? false;
+
+        // Fill in the retry policy for transient failures
+        this._retryPolicy = createRetryPolicy(options?.retry);
+
+        // Determine the default timeout for each attempt
+        this._timeoutMs = options?.timeoutMs ?? 0;
+
+        // Create the response cache when caching is turned on
+        if (options?.cache) {
+            this._cache = new ResponseCache(
+                options.cache === true ? {} : options.cache,
+            );
+        }
+
         // Initialize logger with provided options or empty object
         this._logger = new Logger({
             ...options?.logger,
@@ -130,13 +332,11 @@ export default class Api {
         if (options?.baseUrl) {
             this._logger.info(EVENT_TYPE.INSTANCE, "Using custom base url");
         }
-        // Create Axios instance with base URL and headers
-        this._axiosInstance = axios.create({
-            baseURL: options?.baseUrl ?? BASE_URL,
-            headers: HEADERS,
-        });
+        // Use the provided transport or send requests with fetch
+        this._baseUrl = options?.baseUrl ?? BASE_URL;
+        this._transport = options?.transport ?? new FetchTransport();
 
-        // Log Axios instance creation
+        // Log instance creation
         this._logger.debug(EVENT_TYPE.INSTANCE, "Keyauth instance created.");
     }
     /**
@@ -144,21 +344,31 @@ export default class Api {
      *
      * @param {MakerRequest} options - The parameters for the API request.
      * @returns {Promise<ApiResponse>} A promise that resolves to the API response.
-     * @throws {AxiosError} If there is an issue with the Axios HTTP request.
+     * @throws {KeyAuthError} If `throwOnError` is enabled and the request failed.
      * @private
      */
     private async _makeRequest({
         params,
         skipError,
         skipResponse,
+        attempt = 1,
+        requestOptions,
     }: MakeRequest): Promise<any> {
         // Capture the start time to measure request duration
         const startTime = Date.now();
+        const signal = requestOptions?.signal;
+        let requestSignal: RequestSignal | undefined;
+        let transportResponse: TransportResponse | undefined;
+        let response: { status: number; data: any };
+        let responseTime: number;
         this._logger.debug(
             EVENT_TYPE.REQUEST,
             "Making a request to keyauth API.",
         );
         try {
+            // Stop straight away if the caller aborted the request
+            if (signal?.aborted) throw this._createAbortError(params.type);
+
             // Check if the rate limiter has hit its rate limit
             if (this._rateLimiter.hasHitRateLimit()) {
                 this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
@@ -173,87 +383,736 @@ export default class Api {
                 );
 
                 // Wait until it's possible to make a request again
-                await this._rateLimiter.waitUntilCanMakeRequest();
+                await this._rateLimiter.waitUntilCanMakeRequest(signal);
 
                 // Retry the request after the rate limit is reset
-                return this._makeRequest({ params, skipResponse, skipError });
+                return this._makeRequest({
+                    params,
+                    skipResponse,
+                    skipError,
+                    attempt,
+                    requestOptions,
+                });
             }
-            // Perform the Axios HTTP request to the Keyauth API
-            const response = await this._axiosInstance.request({
+            // Abort the attempt when the caller aborts or the timeout runs out
+            requestSignal = createRequestSignal(
+                signal,
+                requestOptions?.timeoutMs ?? this._timeoutMs,
+            );
+
+            // Send the HTTP request to the Keyauth API with the transport
+            transportResponse = await this._transport.send({
+                url: this._baseUrl,
                 params: {
                     ...params,
                     sellerkey: this._sellerKey,
                 },
-                validateStatus: (status) =>
-                    status === 200 ||
-                    status === 302 ||
-                    status === 403 ||
-                    status === 404 ||
-                    status === 406,
+                headers: HEADERS,
+                signal: requestSignal.signal,
             });
-            // Calculate the time taken for the request
-            const endTime = Date.now();
-            const responseTime = endTime - startTime;
+            requestSignal.clear();
 
-            // Log any errors to the error event emitter
-            if (!skipError) {
-                this._ErrorHandler(response, params.type);
+            // The seller api also answers failed requests with these statuses
+            if (![200, 302, 403, 404, 406].includes(transportResponse.status)) {
+                throw new Error(
+                    `Request failed with status code ${transportResponse.status}`,
+                );
             }
-
-            // Emit an event for the API response (if not skipped)
-            if (!skipResponse) {
-                this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
-                    ...response.data,
-                    ...params,
-                    time: responseTime,
+            response = {
+                status: transportResponse.status,
+                data: parseBody(transportResponse.body),
+            };
+            // A body that is not a json object did not come from the keyauth api, like a proxy error page
+            if (
+                typeof response.data !== "object" ||
+                response.data === null ||
+                Array.isArray(response.data)
+            ) {
+                throw new TransportError("Response body is not a JSON object", {
+                    type: params.type,
+                    response: transportResponse.body,
                 });
             }
-            // Emit an event for the API request and return the response
+            // Calculate the time taken for the request
+            const endTime = Date.now();
+            responseTime = endTime - startTime;
+        } catch (error) {
+            requestSignal?.clear();
+            // Errors we have already handled are passed straight up, a transport error thrown above can still be retried
+            if (
+                error instanceof KeyAuthError &&
+                !(error instanceof TransportError)
+            ) {
+                throw error;
+            }
+
+            // The caller aborted the request, this is never retried
+            if (signal?.aborted) throw this._createAbortError(params.type);
+
+            const transportError =
+                error instanceof TransportError
+                    ? error
+                    : requestSignal?.timedOut()
+                    ? new TimeoutError(
+                          `Request timed out after ${
+                              requestOptions?.timeoutMs ?? this._timeoutMs
+                          }ms`,
+                          { type: params.type, cause: error },
+                      )
+                    : this._createTransportError(
+                          params.type,
+                          error,
+                          transportResponse,
+                      );
+            // Emit the failed attempt so every attempt shows up in the request event
             this._eventEmitter.emit(EVENT_TYPE.REQUEST, {
                 type: params.type,
                 request: {
-                    url: this._axiosInstance.defaults.baseURL!,
+                    url: this._baseUrl,
                     params,
                 },
+                attempt,
                 response: {
-                    ...response.data,
-                    time: responseTime,
-                },
+                    success: false,
+                    message: transportError.message,
+                    time: Date.now() - startTime,
+                } as any,
             });
-            // Return the respones
+
+            // Send the request again if the error is transient
+            if (
+                shouldRetry(
+                    this._retryPolicy,
+                    transportError,
+                    params.type,
+                    attempt,
+                )
+            ) {
+                const delay = getRetryDelay(this._retryPolicy, attempt);
+                this._logger.warning(
+                    EVENT_TYPE.REQUEST,
+                    `Attempt ${attempt} failed: ${transportError.message}, retrying in ${delay}ms.`,
+                );
+                await sleep(delay, signal);
+                return this._makeRequest({
+                    params,
+                    skipError,
+                    skipResponse,
+                    attempt: attempt + 1,
+                    requestOptions,
+                });
+            }
+
+            // Log the transport error
+            this._logger.error("Error", transportError.message);
+            if (!skipError) this._emitError(transportError);
+            if (this._throwOnError) throw transportError;
+
+            // Resolve with a failed response so callers always get an object back
             return {
+                success: false,
+                message: transportError.message,
+                time: Date.now() - startTime,
+            };
+        }
+
+        // Emit an event for the API response (if not skipped)
+        // Events are emitted outside the try so a throwing listener is not mistaken for a transport error
+        if (!skipResponse) {
+            this._eventEmitter.emit(EVENT_TYPE.RESPONSE, {
                 ...response.data,
+                ...params,
                 time: responseTime,
-            };
-        } catch (error) {
-            if (error instanceof AxiosError) {
-                // Handle Axios HTTP request errors
-                this._logger.error("Error", error.message);
-            } else {
-                // Handle other types of errors
-                this._logger.error("Error", `${(error as any).message}`);
-            }
-            // TODO Add more specific error handling if needed
+            });
+        }
+        // Emit an event for the API request and return the response
+        this._eventEmitter.emit(EVENT_TYPE.REQUEST, {
+            type: params.type,
+            request: {
+                url: this._baseUrl,
+                params,
+            },
+            attempt,
+            response: {
+                ...response.data,
+                time: responseTime,
+            },
+        });
+
+        // Log any errors to the error event emitter
+        if (!skipError) {
+            this._ErrorHandler(response, params.type);
+        }
+
+        // Clear the cached responses this request changed
+        if (this._cache && response.data.success !== false) {
+            await this._cache
+                .invalidateAfter(params.type)
+                .catch((error) =>
+                    this._logger.warning(
+                        EVENT_TYPE.REQUEST,
+                        `Clearing the cache failed: ${error}`,
+                    ),
+                );
         }
+
+        // Return the respones
+        return {
+            ...response.data,
+            time: responseTime,
+        };
     }
 
     /**
      * This will log any errors to the logger and event emitter
      *
-     * @param {AxiosResponse<any, any>} data - the respone from the axios call
+     * @param {{ data: any }} data - the respone from the transport with the parsed body
+     * @throws {KeyAuthError} If `throwOnError` is enabled and the response failed.
      */
     private _ErrorHandler(
-        data: AxiosResponse<any, any>,
+        data: { data: any },
         type: MakeRequest["params"]["type"],
     ) {
         // Return is successful as no need to log it
         if (data.data.success === true) return;
-        this._eventEmitter.emit(EVENT_TYPE.ERROR, {
-            ...data.data,
-            errorCode: "Unknown",
+        const message = String(data.data.message);
+        const error = message.toLowerCase().includes("seller key")
+            ? new InvalidApplicationError(message, {
+                  type,
+                  response: data.data,
+              })
+            : new KeyAuthError(message, {
+                  code: ERROR_CODE.K_U,
+                  type,
+                  response: data.data,
+              });
+        this._emitError(error);
+        this._logger.error("Error", data.data);
+        if (this._throwOnError) throw error;
+    }
+
+    /**
+     * Creates the {@link AbortError} for a request the caller aborted.
+     *
+     * @param {EventType} type - The request type that was aborted.
+     * @returns {AbortError} The abort error.
+     * @private
+     */
+    private _createAbortError(type: EventType): AbortError {
+        this._logger.debug(
+            EVENT_TYPE.REQUEST,
+            "Request aborted by the caller.",
+        );
+        return new AbortError("The request was aborted.", { type });
+    }
+
+    /**
+     * Return the cached response of an endpoint or send the request when caching is off or nothing is cached.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @param {string} id - What makes the response unique for the endpoint.
+     * @param {() => Promise<T>} request - Sends the request.
+     * @returns {Promise<T>} The cached or fetched response.
+     * @private
+     */
+    private _cachedRequest<T extends { success?: boolean }>(
+        type: CacheableType,
+        id: string,
+        request: () => Promise<T>,
+    ): Promise<T> {
+        if (!this._cache) return request();
+        return this._cache.wrap(type, id, request, (error) =>
+            this._logger.warning(
+                type,
+                `Fetching the stale cached response again failed: ${error}`,
+            ),
+        );
+    }
+
+    /**
+     * Creates the {@link InvalidParamsError} for a call that was rejected before a request was sent.
+     * The error is logged and emitted straight away as it is always thrown.
+     *
+     * @param {EventType} type - The request type that was rejected.
+     * @param {string} message - Why the params are invalid.
+     * @returns {InvalidParamsError} The invalid params error.
+     * @private
+     */
+    private _createInvalidParamsError(
+        type: EventType,
+        message: string,
+    ): InvalidParamsError {
+        const error = new InvalidParamsError(message, { type });
+        this._emitError(error);
+        this._logger.error("Error", message);
+        return error;
+    }
+
+    /**
+     * Runs a license call over a list of license keys with a pool of workers that all wait on the rate limiter.
+     * Every license is reported with the `bulkprogress` event, a failed license is recorded and does not stop the run.
+     *
+     * @param {BulkLicenseType} type - The license call to run.
+     * @param {string[]} licenses - The license keys to run the call for, duplicates are only sent once.
+     * @param {(license: string, requestOptions: RequestOptions) => Promise<T>} send - Sends the call for a single license.
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout.
+     * @returns {Promise<BulkResult<T>>} The result of every license sent in this run.
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     * @throws {AbortError} If the caller aborted, the checkpoint of the last `bulkprogress` event has every license that succeeded so far.
+     * @private
+     */
+    private async _runBulk<T extends BaseResponse>(
+        type: BulkLicenseType,
+        licenses: string[],
+        send: (license: string, requestOptions: RequestOptions) => Promise<T>,
+        options: BulkOptions = {},
+    ): Promise<BulkResult<T>> {
+        const { concurrency = 5, checkpoint, ...requestOptions } = options;
+
+        // Check the options before anything is sent
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw this._createInvalidParamsError(
+                type,
+                "The concurrency has to be a whole number of 1 or more",
+            );
+        }
+        if (checkpoint && checkpoint.type !== type) {
+            throw this._createInvalidParamsError(
+                type,
+                `The checkpoint is for ${checkpoint.type} not ${type}`,
+            );
+        }
+
+        // Carry on from the checkpoint, the licenses that already succeeded are skipped
+        const current: BulkCheckpoint = {
+            type,
+            processed: [...(checkpoint?.processed ?? [])],
+        };
+        const alreadyProcessed = new Set(current.processed);
+        const unique = [...new Set(licenses)];
+        const queue = unique.filter(
+            (license) => !alreadyProcessed.has(license),
+        );
+        const skipped = unique.length - queue.length;
+
+        // Log the bulk process
+        this._logger.debug(
+            EVENT_TYPE.BULK_PROGRESS,
+            `Running ${type} for ${queue.length} licenses with ${skipped} skipped by the checkpoint.`,
+        );
+
+        const results: BulkItemResult<T>[] = [];
+        let failed = 0;
+        let next = 0;
+
+        // Every worker keeps taking the next license until the queue is empty
+        const worker = async () => {
+            while (next < queue.length) {
+                // Stop straight away if the caller aborted the run
+                if (requestOptions.signal?.aborted) {
+                    throw this._createAbortError(type);
+                }
+                const license = queue[next++];
+
+                // Send the call for the license, anything but an abort only fails this license
+                let item: BulkItemResult<T>;
+                try {
+                    const response = await send(license, requestOptions);
+                    item = {
+                        license,
+                        success: response.success,
+                        message: response.message,
+                        response,
+                    };
+                } catch (error) {
+                    if (error instanceof AbortError) throw error;
+                    item = {
+                        license,
+                        success: false,
+                        message:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                        error: error as Error,
+                    };
+                }
+
+                // Record the license in the results, only a successful license goes in the checkpoint so a resume sends failed ones again
+                results.push(item);
+                if (item.success) current.processed.push(license);
+                else failed++;
+
+                // log the progress to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.BULK_PROGRESS, {
+                    type,
+                    item,
+                    completed: skipped + results.length,
+                    failed,
+                    total: unique.length,
+                    checkpoint: current,
+                });
+            }
+        };
+        await Promise.all(
+            Array.from({ length: Math.min(concurrency, queue.length) }, worker),
+        );
+
+        // Log that the bulk process is complete and return the results
+        this._logger.debug(
+            EVENT_TYPE.BULK_PROGRESS,
+            `Bulk ${type} complete with ${failed} failed. Returning results.`,
+        );
+        return {
+            success: failed === 0,
+            total: unique.length,
+            succeeded: results.length - failed,
+            failed,
+            skipped,
+            results,
+            checkpoint: current,
+        };
+    }
+
+    /**
+     * Fetches a list then filters, sorts and paginates it, the result is emitted to the `query` event.
+     * Nothing is filtered when the fetch failed.
+     *
+     * @param {string} name - What is being queried, used in the messages.
+     * @param {QueryOptions<T>} query - The filters, sorting and pagination.
+     * @param {() => Promise<R>} fetch - Fetches the list.
+     * @param {(response: R) => T[]} toEntries - Turns the response of the fetch into entries with proper types.
+     * @returns {Promise<QueryResponse<T>>} The matches on the page that was asked for.
+     * @throws {InvalidParamsError} If the page or page size is invalid, no request is sent.
+     * @private
+     */
+    private async _query<T extends object, R extends BaseResponse>(
+        name: string,
+        query: QueryOptions<T>,
+        fetch: () => Promise<R>,
+        toEntries: (response: R) => T[],
+    ): Promise<QueryResponse<T>> {
+        // Check the pagination before anything is sent
+        const invalidQuery = validateQuery(query);
+        if (invalidQuery !== undefined) {
+            throw this._createInvalidParamsError(
+                EVENT_TYPE.QUERY,
+                invalidQuery,
+            );
+        }
+
+        // Log the query process
+        this._logger.debug(EVENT_TYPE.QUERY, `Querying ${name}.`);
+
+        // Fetch the list and find the matches when the fetch worked
+        const response = await fetch();
+        const found = response.success
+            ? runQuery(toEntries(response), query)
+            : { items: [], total: 0, page: query.page ?? 1, pages: 0 };
+        const result: QueryResponse<T> = {
+            success: response.success,
+            message: response.success
+                ? `Found ${found.total} ${name}`
+                : response.message,
+            time: response.time,
+            ...found,
+        };
+
+        // log the result to the event emitter
+        this._eventEmitter.emit(EVENT_TYPE.QUERY, { ...result });
+        // Log that the query is complete and return the result
+        this._logger.debug(
+            EVENT_TYPE.QUERY,
+            `Query of ${name} complete. Returning response.`,
+        );
+        return result;
+    }
+
+    /**
+     * Writes the records of a fetch to an export file and emits the result to the `export` event.
+     * Nothing is written when the fetch failed.
+     *
+     * @param {string} name - What is being exported, used in the messages.
+     * @param {ExportFile} file - Where and how to write the export.
+     * @param {BaseResponse} response - The response of the fetch.
+     * @param {string[]} columns - The columns to write for every record.
+     * @param {object[]} records - The records to write.
+     * @returns {Promise<ExportResponse>} How many records were written.
+     * @throws {Error} If the file can not be written.
+     * @private
+     */
+    private async _writeExport(
+        name: string,
+        { path, format }: ExportFile,
+        response: BaseResponse,
+        columns: string[],
+        records: object[],
+    ): Promise<ExportResponse> {
+        const resolvedFormat = resolveFormat(path, format);
+        const startTime = Date.now();
+
+        // Only write the file when the fetch worked
+        const count = response.success
+            ? await writeRecords(
+                  path,
+                  resolvedFormat,
+                  columns,
+                  records as Record<string, unknown>[],
+              )
+            : 0;
+        const result: ExportResponse = {
+            success: response.success,
+            message: response.success
+                ? `Successfully exported ${count} ${name}`
+                : response.message,
+            time: response.time + (Date.now() - startTime),
+            path,
+            format: resolvedFormat,
+            count,
+        };
+
+        // log the result to the event emitter
+        this._eventEmitter.emit(EVENT_TYPE.EXPORT, { ...result });
+        // Log that the export is complete and return the result
+        this._logger.debug(
+            EVENT_TYPE.EXPORT,
+            `Export of ${name} complete. Returning response.`,
+        );
+        return result;
+    }
+
+    /**
+     * Reads an import file and imports every record in it one after the other, then emits the result to the `import` event.
+     * A record that fails is recorded and does not stop the import.
+     * Nothing is imported when the records that already exist can not be fetched, an application without any records counts as empty.
+     *
+     * @param {string} name - What is being imported, used in the messages.
+     * @param {ImportFile} file - Where to read the import from and how to import it.
+     * @param {() => Promise<R>} fetchExisting - Fetches the records that already exist.
+     * @param {(response: R) => string[]} toNames - Reads the names of the records that already exist from the fetch.
+     * @param {(record: Record<string, unknown>) => string} getName - Reads the name of a record, an empty name fails the record.
+     * @param {(record: Record<string, unknown>, name: string, overwrite: boolean) => Promise<BaseResponse>} importRecord - Imports a single record under a name.
+     * @param {RequestOptions} [requestOptions] - The abort signal and timeout.
+     * @returns {Promise<ImportResponse>} The result of every record.
+     * @throws {InvalidParamsError} If the conflict policy is invalid, nothing is imported.
+     * @throws {KeyAuthError} If `throwOnError` is enabled and fetching the records that already exist failed.
+     * @throws {Error} If the file can not be read or is not valid for its format.
+     * @private
+     */
+    private async _runImport<R extends BaseResponse>(
+        name: string,
+        { path, format, conflict = "skip", dryRun = false }: ImportFile,
+        fetchExisting: () => Promise<R>,
+        toNames: (response: R) => string[],
+        getName: (record: Record<string, unknown>) => string,
+        importRecord: (
+            record: Record<string, unknown>,
+            name: string,
+            overwrite: boolean,
+        ) => Promise<BaseResponse>,
+        requestOptions?: RequestOptions,
+    ): Promise<ImportResponse> {
+        const startTime = Date.now();
+
+        // Check the conflict policy before anything is imported
+        if (!["skip", "overwrite", "rename"].includes(conflict)) {
+            throw this._createInvalidParamsError(
+                EVENT_TYPE.IMPORT,
+                `Unknown conflict policy ${conflict}, use skip, overwrite or rename`,
+            );
+        }
+
+        // Find the records that already exist, the conflict policy can not be applied without them
+        let existing: R | undefined;
+        try {
+            existing = await fetchExisting();
+        } catch (error) {
+            if (
+                !(error instanceof KeyAuthError) ||
+                !isEmptyListMessage(error.message)
+            ) {
+                throw error;
+            }
+        }
+        if (
+            existing &&
+            !existing.success &&
+            !isEmptyListMessage(existing.message)
+        ) {
+            const result: ImportResponse = {
+                success: false,
+                message: `Could not fetch the existing ${name}: ${existing.message}`,
+                time: Date.now() - startTime,
+                dryRun,
+                total: 0,
+                created: 0,
+                overwritten: 0,
+                renamed: 0,
+                skipped: 0,
+                failed: 0,
+                results: [],
+            };
+            this._eventEmitter.emit(EVENT_TYPE.IMPORT, { ...result });
+            this._logger.error(EVENT_TYPE.IMPORT, result.message);
+            return result;
+        }
+        const taken = new Set(existing?.success ? toNames(existing) : []);
+
+        const results: ImportItemResult[] = [];
+        for await (const record of readRecords(
+            path,
+            resolveFormat(path, format),
+        )) {
+            // Stop straight away if the caller aborted the import
+            if (requestOptions?.signal?.aborted) {
+                throw this._createAbortError(EVENT_TYPE.IMPORT);
+            }
+            const recordName = getName(record);
+            if (!recordName) {
+                results.push({
+                    name: recordName,
+                    action: "create",
+                    success: false,
+                    message: "The record has no name",
+                });
+                continue;
+            }
+
+            // Work out what to do with a record that already exists
+            let action: ImportAction = "create";
+            let importedAs = recordName;
+            if (taken.has(recordName)) {
+                action = conflict;
+                if (conflict === "rename") {
+                    importedAs = freeName(recordName, taken);
+                }
+            }
+            const renamed = action === "rename" ? { importedAs } : {};
+            if (action === "skip") {
+                results.push({
+                    name: recordName,
+                    action,
+                    success: true,
+                    message: "Already exists, skipped",
+                });
+                continue;
+            }
+            if (dryRun) {
+                taken.add(importedAs);
+                results.push({
+                    name: recordName,
+                    action,
+                    ...renamed,
+                    success: true,
+                    message: "Dry run, nothing was changed",
+                });
+                continue;
+            }
+
+            // Import the record, anything but an abort only fails this record
+            try {
+                const response = await importRecord(
+                    record,
+                    importedAs,
+                    action === "overwrite",
+                );
+                if (response.success) taken.add(importedAs);
+                results.push({
+                    name: recordName,
+                    action,
+                    ...renamed,
+                    success: response.success,
+                    message: response.message,
+                });
+            } catch (error) {
+                if (error instanceof AbortError) throw error;
+                results.push({
+                    name: recordName,
+                    action,
+                    ...renamed,
+                    success: false,
+                    message:
+                        error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        // Count what happened to every record
+        const count = (check: (item: ImportItemResult) => boolean) =>
+            results.filter(check).length;
+        const failed = count((item) => !item.success);
+        const result: ImportResponse = {
+            success: failed === 0,
+            message: `${
+                dryRun ? "Dry run of the" : "The"
+            } import of ${name} is complete with ${failed} failed`,
+            time: Date.now() - startTime,
+            dryRun,
+            total: results.length,
+            created: count((i) => i.success && i.action === "create"),
+            overwritten: count((i) => i.success && i.action === "overwrite"),
+            renamed: count((i) => i.success && i.action === "rename"),
+            skipped: count((i) => i.action === "skip"),
+            failed,
+            results,
+        };
+
+        // log the result to the event emitter
+        this._eventEmitter.emit(EVENT_TYPE.IMPORT, { ...result });
+        // Log that the import is complete and return the result
+        this._logger.debug(
+            EVENT_TYPE.IMPORT,
+            `Import of ${name} complete. Returning response.`,
+        );
+        return result;
+    }
+
+    /**
+     * Wraps an error thrown while sending a request in a {@link TransportError} or {@link RateLimitedError}.
+     *
+     * @param {EventType} type - The request type that failed.
+     * @param {unknown} error - The error that was thrown.
+     * @param {TransportResponse} [response] - The raw response if the server responded.
+     * @returns {KeyAuthError} The wrapped error.
+     * @private
+     */
+    private _createTransportError(
+        type: EventType,
+        error: unknown,
+        response?: TransportResponse,
+    ): KeyAuthError {
+        const message = error instanceof Error ? error.message : String(error);
+        // The keyauth api rate limited the request
+        if (response?.status === 429) {
+            return new RateLimitedError(message, {
+                type,
+                response: parseBody(response.body),
+                cause: error,
+            });
+        }
+        return new TransportError(message, {
             type,
+            response: response && parseBody(response.body),
+            status: response?.status,
+            cause: error,
+        });
+    }
+
+    /**
+     * Emits a {@link KeyAuthError} to the error event emitter.
+     *
+     * @param {KeyAuthError} error - The error to emit.
+     * @private
+     */
+    private _emitError(error: KeyAuthError) {
+        // Node throws on an `error` event nobody listens for
+        if (this._eventEmitter.listenerCount(EVENT_TYPE.ERROR) === 0) return;
+        this._eventEmitter.emit(EVENT_TYPE.ERROR, {
+            ...error.response,
+            success: false,
+            message: error.message,
+            errorCode: error.code,
+            type: error.type,
         });
-        this._logger.error("Error", data.data);
     }
 
     /**
@@ -278,11 +1137,25 @@ export default class Api {
     public once<E extends keyof EventMap>(event: E, callback: EventMap[E]) {
         this._eventEmitter.once(event, callback);
     }
+
+    /**
+     * Remove cached responses so the next call fetches them again.
+     *
+     * @param {CacheableType | CacheableType[]} [types] - The endpoints to clear, every endpoint is cleared when left out.
+     */
+    public async invalidateCache(
+        types?: CacheableType | CacheableType[],
+    ): Promise<void> {
+        if (!this._cache) return;
+        await this._cache.invalidate(
+            types === undefined || Array.isArray(types) ? types : [types],
+        );
+    }
     /**
      * Anything to do with the licenses can be found here
      */
     public license: LicenseService = {
-        create: async (data) => {
+        create: async (data, requestOptions) => {
             // Log the create license process
             this._logger.debug(EVENT_TYPE.CREATE_LICENSE, `Creating license.`);
 
@@ -307,6 +1180,7 @@ export default class Api {
             // Send the create license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...createParams },
+                requestOptions,
             });
             const buildResponse: CreateLicenseResponse = {
                 message: response.message,
@@ -326,7 +1200,7 @@ export default class Api {
             // return the response
             return buildResponse;
         },
-        verify: async ({ license }) => {
+        verify: async ({ license }, requestOptions) => {
             // Log the verify license process
             this._logger.debug(
                 EVENT_TYPE.VERIFY_LICENSE,
@@ -347,6 +1221,7 @@ export default class Api {
             // Send the verify license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...verifyLicense },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.VERIFY_LICENSE, {
@@ -361,7 +1236,7 @@ export default class Api {
             return response;
         },
 
-        createUser: async ({ license, password, username }) => {
+        createUser: async ({ license, password, username }, requestOptions) => {
             // Log the create user from license process
             this._logger.debug(
                 EVENT_TYPE.CREATE_USER_FROM_LICENSE,
@@ -384,6 +1259,7 @@ export default class Api {
             // Send the create user from license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...createUserFromLicense },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.CREATE_USER_FROM_LICENSE, {
@@ -398,7 +1274,10 @@ export default class Api {
             return response;
         },
         delete: {
-            single: async ({ license, deleteUserToo = false }) => {
+            single: async (
+                { license, deleteUserToo = false },
+                requestOptions,
+            ) => {
                 // Log the delete license process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_LICENSE,
@@ -422,6 +1301,7 @@ export default class Api {
                 // Send the delete license request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteLicense },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_LICENSE, {
@@ -435,7 +1315,10 @@ export default class Api {
                 // return the response
                 return response;
             },
-            multiple: async ({ licenses, deleteUserToo = false }) => {
+            multiple: async (
+                { licenses, deleteUserToo = false },
+                requestOptions,
+            ) => {
                 // Log the delete multiple license process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_MULTIPLE_LICENSE,
@@ -459,6 +1342,7 @@ export default class Api {
                 // Send the delete multiple licenses request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteMultipleLicense },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_MULTIPLE_LICENSE, {
@@ -473,7 +1357,7 @@ export default class Api {
                 return response;
             },
 
-            unused: async () => {
+            unused: async (requestOptions) => {
                 // Log the delete unused licenses process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_UNUSED_LICENSE,
@@ -493,6 +1377,7 @@ export default class Api {
                 // Send the delete unused licenses request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteUnusedLicense },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_UNUSED_LICENSE, {
@@ -507,7 +1392,7 @@ export default class Api {
                 return response;
             },
 
-            used: async () => {
+            used: async (requestOptions) => {
                 // Log the delete used licenses process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_USED_LICENSE,
@@ -527,6 +1412,7 @@ export default class Api {
                 // Send the delete used licenses request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteUsedLicense },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_USED_LICENSE, {
@@ -540,7 +1426,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            all: async () => {
+            all: async (requestOptions) => {
                 // Log the delete all licenses process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_ALL_LICENSE,
@@ -560,6 +1446,7 @@ export default class Api {
                 // Send the delete All licenses request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteAllLicense },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_LICENSE, {
@@ -575,7 +1462,7 @@ export default class Api {
             },
         },
 
-        fetchAll: async () => {
+        fetchAll: async (requestOptions) => {
             // Log the fetch all license keys process
             this._logger.debug(
                 EVENT_TYPE.FETCH_ALL_LICENSE,
@@ -592,10 +1479,16 @@ export default class Api {
                 EVENT_TYPE.FETCH_ALL_LICENSE,
                 `Sending fetch all license keys request.`,
             );
-            // Send the fetch all license keys request and wait for the response
-            const response = await this._makeRequest({
-                params: { ...fetchAllLicense },
-            });
+            // Send the fetch all license keys request, or use the cached response, and wait for the response
+            const response = await this._cachedRequest(
+                EVENT_TYPE.FETCH_ALL_LICENSE,
+                "",
+                () =>
+                    this._makeRequest({
+                        params: { ...fetchAllLicense },
+                        requestOptions,
+                    }),
+            );
 
             // Check to see if the object has a value called keys if so transform the data
             if ("keys" in response) {
@@ -631,7 +1524,7 @@ export default class Api {
             return response;
         },
 
-        addTime: async ({ time }) => {
+        addTime: async ({ time }, requestOptions) => {
             // Log the add time to all unused license keys process
             this._logger.debug(
                 EVENT_TYPE.ADD_TIME_TO_UNUSED,
@@ -652,6 +1545,7 @@ export default class Api {
             // Send the add time to all unused license keys request and wait for the response
             const response = await this._makeRequest({
                 params: { ...addTimeToUnused },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.ADD_TIME_TO_UNUSED, {
@@ -665,7 +1559,10 @@ export default class Api {
             // return the response
             return response;
         },
-        ban: async ({ license, reason, banUserToo = false }) => {
+        ban: async (
+            { license, reason, banUserToo = false },
+            requestOptions,
+        ) => {
             // Log the ban license process
             this._logger.debug(
                 EVENT_TYPE.BAN_LICENSE,
@@ -688,6 +1585,7 @@ export default class Api {
             // Send the ban license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...banLicense },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.BAN_LICENSE, {
@@ -702,7 +1600,7 @@ export default class Api {
             return response;
         },
 
-        unban: async ({ license }) => {
+        unban: async ({ license }, requestOptions) => {
             // Log the unban license process
             this._logger.debug(
                 EVENT_TYPE.UNBAN_LICENSE,
@@ -723,6 +1621,7 @@ export default class Api {
             // Send the unban license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...unbanLicense },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.UNBAN_LICENSE, {
@@ -736,7 +1635,7 @@ export default class Api {
             // return the response
             return response;
         },
-        retrieve: async ({ username }) => {
+        retrieve: async ({ username }, requestOptions) => {
             // Log the retrieve a license from a user process
             this._logger.debug(
                 EVENT_TYPE.GET_LICENSE,
@@ -757,6 +1656,7 @@ export default class Api {
             // Send the retrieve license from user request and wait for the response
             const response = await this._makeRequest({
                 params: { ...retrieveLicense },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.GET_LICENSE, {
@@ -770,7 +1670,7 @@ export default class Api {
             // return the response
             return response;
         },
-        setNote: async ({ license, note }) => {
+        setNote: async ({ license, note }, requestOptions) => {
             // Log the set note for license process
             this._logger.debug(
                 EVENT_TYPE.SET_LICENSE_NOTE,
@@ -792,6 +1692,7 @@ export default class Api {
             // Send the set note for license request and wait for the response
             const response = await this._makeRequest({
                 params: { ...setLicenseNote },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.SET_LICENSE_NOTE, {
@@ -805,7 +1706,7 @@ export default class Api {
             // return the response
             return response;
         },
-        getInfo: async ({ license }) => {
+        getInfo: async ({ license }, requestOptions) => {
             // Log the get license info process
             this._logger.debug(
                 EVENT_TYPE.GET_LICENSE_INFO,
@@ -826,6 +1727,7 @@ export default class Api {
             // Send the get license info request and wait for the response
             const response = await this._makeRequest({
                 params: { ...licenseInfo },
+                requestOptions,
             });
 
             const buildResponse: GetLicenseInfoResponse = {
@@ -857,13 +1759,78 @@ export default class Api {
             // return the response
             return buildResponse;
         },
+        query: (query = {}, requestOptions) => {
+            // Fetch every license key then find the ones that match
+            return this._query(
+                "license keys",
+                query,
+                () => this.license.fetchAll(requestOptions),
+                (response: FetchAllLicenseResponse) =>
+                    response.keys.map(toLicenseEntry),
+            );
+        },
+        bulk: {
+            ban: ({ licenses, reason, banUserToo }, options) => {
+                // Ban every license key with the same reason
+                return this._runBulk(
+                    "ban",
+                    licenses,
+                    (license, requestOptions) =>
+                        this.license.ban(
+                            { license, reason, banUserToo },
+                            requestOptions,
+                        ),
+                    options,
+                );
+            },
+            unban: ({ licenses }, options) => {
+                // Unban every license key
+                return this._runBulk(
+                    "unban",
+                    licenses,
+                    (license, requestOptions) =>
+                        this.license.unban({ license }, requestOptions),
+                    options,
+                );
+            },
+            setNote: ({ licenses, note }, options) => {
+                // Set the same note for every license key
+                return this._runBulk(
+                    "setnote",
+                    licenses,
+                    (license, requestOptions) =>
+                        this.license.setNote({ license, note }, requestOptions),
+                    options,
+                );
+            },
+            getInfo: ({ licenses }, options) => {
+                // Get the info of every license key
+                return this._runBulk(
+                    "info",
+                    licenses,
+                    (license, requestOptions) =>
+                        this.license.getInfo({ license }, requestOptions),
+                    options,
+                );
+            },
+            verify: ({ licenses }, options) => {
+                // Verify every license key exists
+                return this._runBulk(
+                    "verify",
+                    licenses,
+                    (license, requestOptions) =>
+                        this.license.verify({ license }, requestOptions),
+                    options,
+                );
+            },
+        },
     };
     /**
      * Anything to do with the users can be found here
      */
     public user: UserService = {
         delete: {
-            existing: async ({ username }) => {
+            existing: async ({ username }, requestOptions) => {
                 // Log the delete user process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_EXISTING_USER,
@@ -884,6 +1851,7 @@ export default class Api {
                 // Send the delete user request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteUser },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_EXISTING_USER, {
@@ -897,7 +1865,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            expired: async () => {
+            expired: async (requestOptions) => {
                 // Log the delete all expired users process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_EXPIRED_USERS,
@@ -917,6 +1885,7 @@ export default class Api {
                 // Send the delete all expired users request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteExpiredUser },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_EXPIRED_USERS, {
@@ -932,7 +1901,7 @@ export default class Api {
             },
         },
         hwid: {
-            reset: async ({ username }) => {
+            reset: async ({ username }, requestOptions) => {
                 // Log the reset user hwid process
                 this._logger.debug(
                     EVENT_TYPE.RESET_USER_HWID,
@@ -953,6 +1922,7 @@ export default class Api {
                 // Send the reset users hwid request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...resetUserHwid },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.RESET_USER_HWID, {
@@ -966,7 +1936,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            resetAll: async () => {
+            resetAll: async (requestOptions) => {
                 // Log the reset all users hwid process
                 this._logger.debug(
                     EVENT_TYPE.RESET_ALL_USERS_HWID,
@@ -986,6 +1956,7 @@ export default class Api {
                 // Send the reset all users hwid request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...resetAllUserHwid },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.RESET_ALL_USERS_HWID, {
@@ -999,7 +1970,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            add: async ({ username, hwid }) => {
+            add: async ({ username, hwid }, requestOptions) => {
                 // Log the add users hwid process
                 this._logger.debug(
                     EVENT_TYPE.ADD_USER_HWID,
@@ -1021,6 +1992,7 @@ export default class Api {
                 // Send the add users hwid request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...addUserHwid },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.ADD_USER_HWID, {
@@ -1036,7 +2008,10 @@ export default class Api {
             },
         },
         var: {
-            set: async ({ username, varData, varName, readonly = false }) => {
+            set: async (
+                { username, varData, varName, readonly = false },
+                requestOptions,
+            ) => {
                 // Log the set users var process
                 this._logger.debug(
                     EVENT_TYPE.SET_USER_VAR,
@@ -1060,6 +2035,7 @@ export default class Api {
                 // Send the set users var request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...setUsersVar },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.SET_USER_VAR, {
@@ -1073,7 +2049,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            get: async ({ username, varName }) => {
+            get: async ({ username, varName }, requestOptions) => {
                 // Log the get users var process
                 this._logger.debug(
                     EVENT_TYPE.GET_USER_VAR,
@@ -1095,6 +2071,7 @@ export default class Api {
                 // Send the get users var request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...getUsersVar },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.GET_USER_VAR, {
@@ -1108,7 +2085,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            getAll: async () => {
+            getAll: async (requestOptions) => {
                 // Log the get all users var process
                 this._logger.debug(
                     EVENT_TYPE.FETCH_ALL_USER_VARS,
@@ -1128,6 +2105,7 @@ export default class Api {
                 // Send the get all users var request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...getAllUsersVar },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_USER_VARS, {
@@ -1141,8 +2119,18 @@ export default class Api {
                 // return the response
                 return response;
             },
+            query: (query = {}, requestOptions) => {
+                // Fetch every user variable then find the ones that match
+                return this._query(
+                    "user variables",
+                    query,
+                    () => this.user.var.getAll(requestOptions),
+                    (response: FetchAllUsersVarsResponse) =>
+                        response.vars.map(toUserVarEntry),
+                );
+            },
             delete: {
-                single: async ({ username, varName }) => {
+                single: async ({ username, varName }, requestOptions) => {
                     // Log the delete user var process
                     this._logger.debug(
                         EVENT_TYPE.DELETE_USER_VAR,
@@ -1164,6 +2152,7 @@ export default class Api {
                     // Send the delete users var request and wait for the response
                     const response = await this._makeRequest({
                         params: { ...deleteUsersVar },
+                        requestOptions,
                     });
                     // log the response to the event emitter
                     this._eventEmitter.emit(EVENT_TYPE.DELETE_USER_VAR, {
@@ -1177,7 +2166,7 @@ export default class Api {
                     // return the response
                     return response;
                 },
-                byName: async ({ varName }) => {
+                byName: async ({ varName }, requestOptions) => {
                     // Log the delete user var by name process
                     this._logger.debug(
                         EVENT_TYPE.DELETE_USER_VAR_BY_NAME,
@@ -1198,6 +2187,7 @@ export default class Api {
                     // Send the delete users var by name request and wait for the response
                     const response = await this._makeRequest({
                         params: { ...deleteUsersVarByName },
+                        requestOptions,
                     });
                     // log the response to the event emitter
                     this._eventEmitter.emit(
@@ -1217,7 +2207,7 @@ export default class Api {
             },
         },
         subscription: {
-            delete: async ({ username, subName }) => {
+            delete: async ({ username, subName }, requestOptions) => {
                 // Log the delete user sub process
                 this._logger.debug(
                     EVENT_TYPE.DELETE_USER_SUB,
@@ -1239,6 +2229,7 @@ export default class Api {
                 // Send the delete users sub request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...deleteUsersSub },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.DELETE_USER_SUB, {
@@ -1252,7 +2243,10 @@ export default class Api {
                 // return the response
                 return response;
             },
-            subtract: async ({ username, subName, seconds }) => {
+            subtract: async (
+                { username, subName, seconds },
+                requestOptions,
+            ) => {
                 // Log the subtract user sub process
                 this._logger.debug(
                     EVENT_TYPE.SUBTRACT_USER_SUB,
@@ -1275,6 +2269,7 @@ export default class Api {
                 // Send the subtract users sub request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...subtractUsersSub },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.SUBTRACT_USER_SUB, {
@@ -1288,7 +2283,7 @@ export default class Api {
                 // return the response
                 return response;
             },
-            count: async ({ subName }) => {
+            count: async ({ subName }, requestOptions) => {
                 // Log the count sub process
                 this._logger.debug(EVENT_TYPE.COUNT_SUBS, `Counting subs.`);
 
@@ -1306,6 +2301,7 @@ export default class Api {
                 // Send the count sub request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...countSub },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.COUNT_SUBS, {
@@ -1320,12 +2316,10 @@ export default class Api {
                 return response;
             },
 
-            extend: async ({
-                username,
-                subName,
-                expiry,
-                activeOnly = false,
-            }) => {
+            extend: async (
+                { username, subName, expiry, activeOnly = false },
+                requestOptions,
+            ) => {
                 // Log the extend sub process
                 this._logger.debug(
                     EVENT_TYPE.EXTEND_USERS_SUB,
@@ -1349,6 +2343,7 @@ export default class Api {
                 // Send the extend sub request and wait for the response
                 const response = await this._makeRequest({
                     params: { ...extendSub },
+                    requestOptions,
                 });
                 // log the response to the event emitter
                 this._eventEmitter.emit(EVENT_TYPE.EXTEND_USERS_SUB, {
@@ -1363,12 +2358,10 @@ export default class Api {
                 return response;
             },
         },
-        create: async ({
-            expiry = "1",
-            subName = "default",
-            username,
-            password,
-        }) => {
+        create: async (
+            { expiry = "1", subName = "default", username, password },
+            requestOptions,
+        ) => {
             // Log the create user process
             this._logger.debug(EVENT_TYPE.CREATE_USER, `Creating a new user.`);
 
@@ -1389,6 +2382,7 @@ export default class Api {
             // Send the create user request and wait for the response
             const response = await this._makeRequest({
                 params: { ...newUser },
+                requestOptions,
             });
             // log the response to the event emitter
             this._eventEmitter.emit(EVENT_TYPE.CREATE_USER, {
@@ -1402,5 +2396,2835 @@ export default class Api {
             // return the response
             return response;
         },
+        ban: async ({ username, reason }, requestOptions) => {
+            // Log the ban user process
+            this._logger.debug(EVENT_TYPE.BAN_USER, `Banning a user.`);
+
+            // Prepare ban user parameters
+            const banUser: BanUserParams = {
+                type: "banuser",
+                user: username,
+                reason,
+            };
+
+            // Log the ban user request
+            this._logger.debug(
+                EVENT_TYPE.BAN_USER,
+                `Sending ban user request.`,
+            );
+            // Send the ban user request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...banUser },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.BAN_USER, {
+                ...response,
+            });
+            // Log that the ban user request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.BAN_USER,
+                "Banning user complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        unban: async ({ username }, requestOptions) => {
+            // Log the unban user process
+            this._logger.debug(EVENT_TYPE.UNBAN_USER, `Unbanning a user.`);
+
+            // Prepare unban user parameters
+            const unbanUser: UnbanUserParams = {
+                type: "unbanuser",
+                user: username,
+            };
+
+            // Log the unban user request
+            this._logger.debug(
+                EVENT_TYPE.UNBAN_USER,
+                `Sending unban user request.`,
+            );
+            // Send the unban user request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...unbanUser },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UNBAN_USER, {
+                ...response,
+            });
+            // Log that the unban user request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UNBAN_USER,
+                "Unbanning user complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all users process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_USERS,
+                `Deleting all users.`,
+            );
+
+            // Prepare delete all users parameters
+            const deleteAllUsers: DeleteAllUsersParams = {
+                type: "delallusers",
+            };
+
+            // Log the delete all users request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_USERS,
+                `Sending delete all users request.`,
+            );
+            // Send the delete all users request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllUsers },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_USERS, {
+                ...response,
+            });
+            // Log that the delete all users request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_USERS,
+                "Deleting all users complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        exists: async ({ username }, requestOptions) => {
+            // Log the verify user exists process
+            this._logger.debug(
+                EVENT_TYPE.VERIFY_USER_EXISTS,
+                `Verifying a user exists.`,
+            );
+
+            // Prepare verify user exists parameters
+            const verifyUser: VerifyUserExistsParams = {
+                type: "verifyuser",
+                user: username,
+            };
+
+            // Log the verify user exists request
+            this._logger.debug(
+                EVENT_TYPE.VERIFY_USER_EXISTS,
+                `Sending verify user exists request.`,
+            );
+            // Send the verify user exists request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...verifyUser },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.VERIFY_USER_EXISTS, {
+                ...response,
+            });
+            // Log that the verify user exists request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.VERIFY_USER_EXISTS,
+                "Verifying user exists complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all users process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_USERS,
+                `Fetching all users.`,
+            );
+
+            // Prepare fetch all users parameters
+            const fetchAllUsers: FetchAllUsersResponseParams = {
+                type: "fetchallusers",
+            };
+
+            // Log the fetch all users request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_USERS,
+                `Sending fetch all users request.`,
+            );
+            // Send the fetch all users request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllUsers },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called users if so transform the data
+            if ("users" in response) {
+                const users: FetchAllUsersResponse["users"] = [];
+                response.users.forEach((user: any) => {
+                    users.push({
+                        id: user.id,
+                        username: user.username,
+                        email: user.email,
+                        password: user.password,
+                        hwid: user.hwid,
+                        app: user.app,
+                        owner: user.owner,
+                        createDate: user.createdate,
+                        lastLogin: user.lastlogin,
+                        banned: user.banned,
+                        ip: user.ip,
+                        cooldown: user.cooldown,
+                    });
+                });
+                response.users = users;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_USERS, {
+                ...response,
+            });
+            // Log that the fetch all users request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_USERS,
+                "Fetching all users complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        query: (query = {}, requestOptions) => {
+            // Fetch every user then find the ones that match
+            return this._query(
+                "users",
+                query,
+                () => this.user.all(requestOptions),
+                (response: FetchAllUsersResponse) =>
+                    response.users.map(toUserEntry),
+            );
+        },
+        resetPassword: async ({ username }, requestOptions) => {
+            // Log the reset user password process
+            this._logger.debug(
+                EVENT_TYPE.RESET_USER_PASSWORD,
+                `Resetting users password.`,
+            );
+
+            // Prepare reset user password parameters
+            const resetPassword: ResetUserPasswordParams = {
+                type: "resetpw",
+                user: username,
+            };
+
+            // Log the reset user password request
+            this._logger.debug(
+                EVENT_TYPE.RESET_USER_PASSWORD,
+                `Sending reset users password request.`,
+            );
+            // Send the reset user password request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...resetPassword },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.RESET_USER_PASSWORD, {
+                ...response,
+            });
+            // Log that the reset user password request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.RESET_USER_PASSWORD,
+                "Resetting users password complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        changeEmail: async ({ username, email }, requestOptions) => {
+            // Log the change user email process
+            this._logger.debug(
+                EVENT_TYPE.CHANGE_USER_EMAIL,
+                `Changing users email.`,
+            );
+
+            // Prepare change user email parameters
+            const changeEmail: ChangeUsersEmailParams = {
+                type: "editemail",
+                user: username,
+                email,
+            };
+
+            // Log the change user email request
+            this._logger.debug(
+                EVENT_TYPE.CHANGE_USER_EMAIL,
+                `Sending change users email request.`,
+            );
+            // Send the change user email request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...changeEmail },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CHANGE_USER_EMAIL, {
+                ...response,
+            });
+            // Log that the change user email request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CHANGE_USER_EMAIL,
+                "Changing users email complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        data: async ({ username }, requestOptions) => {
+            // Log the retrieve user data process
+            this._logger.debug(
+                EVENT_TYPE.RETRIEVE_USER_DATA,
+                `Retrieving users data.`,
+            );
+
+            // Prepare retrieve user data parameters
+            const retrieveUserData: RetrieveUserDataParams = {
+                type: "userdata",
+                user: username,
+            };
+
+            // Log the retrieve user data request
+            this._logger.debug(
+                EVENT_TYPE.RETRIEVE_USER_DATA,
+                `Sending retrieve users data request.`,
+            );
+            // Send the retrieve user data request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...retrieveUserData },
+                requestOptions,
+            });
+
+            const buildResponse: RetrieveUserDataResponse = {
+                success: response.success,
+                message:
+                    response.success === true
+                        ? "Successfully retrieved user data"
+                        : response.message,
+                data: {
+                    username: response.username,
+                    subscriptions: response.subscriptions,
+                    uservars: response.uservars,
+                    ip: response.ip,
+                    hwid: response.hwid,
+                    createDate: response.createdate,
+                    lastLogin: response.lastlogin,
+                    cooldown: response.cooldown,
+                    password: response.password,
+                    token: response.token,
+                    banned: response.banned,
+                },
+                time: response.time,
+            };
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.RETRIEVE_USER_DATA, {
+                ...buildResponse,
+            });
+            // Log that the retrieve user data request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.RETRIEVE_USER_DATA,
+                "Retrieving users data complete. Returning response.",
+            );
+            // return the response
+            return buildResponse;
+        },
+        allUsernames: async (requestOptions) => {
+            // Log the fetch all usernames process
+            this._logger.debug(
+                EVENT_TYPE.GET_ALL_USERS_USERNAMES,
+                `Fetching all usernames.`,
+            );
+
+            // Prepare fetch all usernames parameters
+            const fetchAllUsernames: FetchAllUsersUsersnamesParams = {
+                type: "fetchallusernames",
+            };
+
+            // Log the fetch all usernames request
+            this._logger.debug(
+                EVENT_TYPE.GET_ALL_USERS_USERNAMES,
+                `Sending fetch all usernames request.`,
+            );
+            // Send the fetch all usernames request, or use the cached response, and wait for the response
+            const response = await this._cachedRequest(
+                EVENT_TYPE.GET_ALL_USERS_USERNAMES,
+                "",
+                () =>
+                    this._makeRequest({
+                        params: { ...fetchAllUsernames },
+                        requestOptions,
+                    }),
+            );
+
+            // Check to see if the object has a value called usernames if so transform the data
+            if ("usernames" in response) {
+                response.usernames = response.usernames.map((username: any) =>
+                    typeof username === "string"
+                        ? { username }
+                        : { username: username.username },
+                );
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.GET_ALL_USERS_USERNAMES, {
+                ...response,
+            });
+            // Log that the fetch all usernames request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.GET_ALL_USERS_USERNAMES,
+                "Fetching all usernames complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        cooldown: async ({ username, cooldown }, requestOptions) => {
+            // Log the set user cooldown process
+            this._logger.debug(
+                EVENT_TYPE.SET_USER_COOLDOWN,
+                `Setting users cooldown.`,
+            );
+
+            // Prepare set user cooldown parameters
+            const userCooldown: UserCoolDownParams = {
+                type: "setcooldown",
+                user: username,
+                cooldown: cooldown.toString(),
+            };
+
+            // Log the set user cooldown request
+            this._logger.debug(
+                EVENT_TYPE.SET_USER_COOLDOWN,
+                `Sending set users cooldown request.`,
+            );
+            // Send the set user cooldown request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...userCooldown },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.SET_USER_COOLDOWN, {
+                ...response,
+            });
+            // Log that the set user cooldown request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.SET_USER_COOLDOWN,
+                "Setting users cooldown complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the subscriptions of the application can be found here
+     */
+    public subscription: SubscriptionService = {
+        create: async ({ name, level }, requestOptions) => {
+            // Log the create subscription process
+            this._logger.debug(
+                EVENT_TYPE.CREATE_SUBSCRIPTION,
+                `Creating subscription.`,
+            );
+
+            // Prepare the create subscription parameters
+            const createSubscription: CreateSubscriptionParams = {
+                type: "addsub",
+                name,
+                level: level.toString(),
+            };
+
+            // Log the create subscription request
+            this._logger.debug(
+                EVENT_TYPE.CREATE_SUBSCRIPTION,
+                `Sending create subscription request.`,
+            );
+            // Send the create subscription request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...createSubscription },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CREATE_SUBSCRIPTION, {
+                ...response,
+            });
+            // Log that the create subscription request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CREATE_SUBSCRIPTION,
+                "Create subscription complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        edit: async ({ name, level }, requestOptions) => {
+            // Log the edit subscription process
+            this._logger.debug(
+                EVENT_TYPE.EDIT_SUBSCRIPTION,
+                `Editing subscription.`,
+            );
+
+            // Prepare the edit subscription parameters
+            const editSubscription: EditSubscriptionParams = {
+                type: "editsub",
+                sub: name,
+                level: level.toString(),
+            };
+
+            // Log the edit subscription request
+            this._logger.debug(
+                EVENT_TYPE.EDIT_SUBSCRIPTION,
+                `Sending edit subscription request.`,
+            );
+            // Send the edit subscription request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...editSubscription },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.EDIT_SUBSCRIPTION, {
+                ...response,
+            });
+            // Log that the edit subscription request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.EDIT_SUBSCRIPTION,
+                "Edit subscription complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ name }, requestOptions) => {
+            // Log the delete subscription process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_SUBSCRIPTION,
+                `Deleting subscription.`,
+            );
+
+            // Prepare the delete subscription parameters
+            const deleteSubscription: DeleteSubscriptionParams = {
+                type: "delappsub",
+                name,
+            };
+
+            // Log the delete subscription request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_SUBSCRIPTION,
+                `Sending delete subscription request.`,
+            );
+            // Send the delete subscription request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteSubscription },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_SUBSCRIPTION, {
+                ...response,
+            });
+            // Log that the delete subscription request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_SUBSCRIPTION,
+                "Delete subscription complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        fetchAll: async (requestOptions) => {
+            // Log the fetch all subscriptions process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SUBSCRIPTIONS,
+                `Fetching all subscriptions.`,
+            );
+
+            // Prepare the fetch all subscriptions parameters
+            const fetchAllSubscriptions: FetchAllSubscriptionsParams = {
+                type: "fetchallsubs",
+            };
+
+            // Log the fetch all subscriptions request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SUBSCRIPTIONS,
+                `Sending fetch all subscriptions request.`,
+            );
+            // Send the fetch all subscriptions request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllSubscriptions },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called subs if so transform the data
+            if ("subs" in response) {
+                response.subs = response.subs.map((sub: any) => ({
+                    name: sub.name,
+                    level: String(sub.level),
+                }));
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_SUBSCRIPTIONS, {
+                ...response,
+            });
+            // Log that the fetch all subscriptions request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SUBSCRIPTIONS,
+                "Fetch all subscriptions complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        pause: async ({ name }, requestOptions) => {
+            // Log the pause subscription process
+            this._logger.debug(
+                EVENT_TYPE.PAUSE_SUBSCRIPTION,
+                `Pausing subscription.`,
+            );
+
+            // Prepare the pause subscription parameters
+            const pauseSubscription: PauseSubscriptionParams = {
+                type: "pausesub",
+                subscription: name,
+            };
+
+            // Log the pause subscription request
+            this._logger.debug(
+                EVENT_TYPE.PAUSE_SUBSCRIPTION,
+                `Sending pause subscription request.`,
+            );
+            // Send the pause subscription request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...pauseSubscription },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.PAUSE_SUBSCRIPTION, {
+                ...response,
+            });
+            // Log that the pause subscription request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.PAUSE_SUBSCRIPTION,
+                "Pause subscription complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        unpause: async ({ name }, requestOptions) => {
+            // Log the unpause subscription process
+            this._logger.debug(
+                EVENT_TYPE.UNPAUSE_SUBSCRIPTION,
+                `Unpausing subscription.`,
+            );
+
+            // Prepare the unpause subscription parameters
+            const unpauseSubscription: UnpauseSubscriptionParams = {
+                type: "unpausesub",
+                subscription: name,
+            };
+
+            // Log the unpause subscription request
+            this._logger.debug(
+                EVENT_TYPE.UNPAUSE_SUBSCRIPTION,
+                `Sending unpause subscription request.`,
+            );
+            // Send the unpause subscription request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...unpauseSubscription },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UNPAUSE_SUBSCRIPTION, {
+                ...response,
+            });
+            // Log that the unpause subscription request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UNPAUSE_SUBSCRIPTION,
+                "Unpause subscription complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the global variables of the application can be found here
+     */
+    public globalVar: GlobalVarService = {
+        create: async (
+            { varName, varData, authenticatedOnly = true },
+            requestOptions,
+        ) => {
+            // Log the create global variable process
+            this._logger.debug(
+                EVENT_TYPE.CREATE_GLOBAL_VAR,
+                `Creating global variable.`,
+            );
+
+            // Prepare the create global variable parameters
+            const createGlobalVar: CreateGlobalVarParams = {
+                type: "addvar",
+                name: varName,
+                data: varData,
+                authed: authenticatedOnly ? "1" : "0",
+            };
+
+            // Log the create global variable request
+            this._logger.debug(
+                EVENT_TYPE.CREATE_GLOBAL_VAR,
+                `Sending create global variable request.`,
+            );
+            // Send the create global variable request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...createGlobalVar },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CREATE_GLOBAL_VAR, {
+                ...response,
+            });
+            // Log that the create global variable request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CREATE_GLOBAL_VAR,
+                "Create global variable complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        update: async ({ varName, varData }, requestOptions) => {
+            // Log the update global variable process
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_GLOBAL_VAR,
+                `Updating global variable.`,
+            );
+
+            // Prepare the update global variable parameters
+            const updateGlobalVar: UpdateGlobalVarParams = {
+                type: "editvar",
+                varid: varName,
+                data: varData,
+            };
+
+            // Log the update global variable request
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_GLOBAL_VAR,
+                `Sending update global variable request.`,
+            );
+            // Send the update global variable request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...updateGlobalVar },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UPDATE_GLOBAL_VAR, {
+                ...response,
+            });
+            // Log that the update global variable request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_GLOBAL_VAR,
+                "Update global variable complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ varName }, requestOptions) => {
+            // Log the delete global variable process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_GLOBAL_VAR,
+                `Deleting global variable.`,
+            );
+
+            // Prepare the delete global variable parameters
+            const deleteGlobalVar: DeleteGlobalVarParams = {
+                type: "delvar",
+                name: varName,
+            };
+
+            // Log the delete global variable request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_GLOBAL_VAR,
+                `Sending delete global variable request.`,
+            );
+            // Send the delete global variable request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteGlobalVar },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_GLOBAL_VAR, {
+                ...response,
+            });
+            // Log that the delete global variable request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_GLOBAL_VAR,
+                "Delete global variable complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        get: async ({ varName }, requestOptions) => {
+            // Log the get global variable process
+            this._logger.debug(
+                EVENT_TYPE.GET_GLOBAL_VAR,
+                `Getting global variable.`,
+            );
+
+            // Prepare the get global variable parameters
+            const getGlobalVar: GetGlobalVarParams = {
+                type: "retrvvar",
+                name: varName,
+            };
+
+            // Log the get global variable request
+            this._logger.debug(
+                EVENT_TYPE.GET_GLOBAL_VAR,
+                `Sending get global variable request.`,
+            );
+            // Send the get global variable request, or use the cached response, and wait for the response
+            const response = await this._cachedRequest(
+                EVENT_TYPE.GET_GLOBAL_VAR,
+                varName,
+                () =>
+                    this._makeRequest({
+                        params: { ...getGlobalVar },
+                        requestOptions,
+                    }),
+            );
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.GET_GLOBAL_VAR, {
+                ...response,
+            });
+            // Log that the get global variable request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.GET_GLOBAL_VAR,
+                "Get global variable complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all global variables process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_GLOBAL_VARS,
+                `Fetching all global variables.`,
+            );
+
+            // Prepare the fetch all global variables parameters
+            const fetchAllGlobalVars: FetchAllGlobalVarsParams = {
+                type: "fetchallvars",
+            };
+
+            // Log the fetch all global variables request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_GLOBAL_VARS,
+                `Sending fetch all global variables request.`,
+            );
+            // Send the fetch all global variables request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllGlobalVars },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called vars if so transform the data
+            if ("vars" in response) {
+                const vars: GlobalVar[] = [];
+                response.vars.forEach((globalVar: any) => {
+                    vars.push({
+                        varId: globalVar.varid,
+                        data: globalVar.msg,
+                        authenticatedOnly: String(globalVar.authed) === "1",
+                    });
+                });
+                response.vars = vars;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_GLOBAL_VARS, {
+                ...response,
+            });
+            // Log that the fetch all global variables request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_GLOBAL_VARS,
+                "Fetch all global variables complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all global variables process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_GLOBAL_VARS,
+                `Deleting all global variables.`,
+            );
+
+            // Prepare the delete all global variables parameters
+            const deleteAllGlobalVars: DeleteAllGlobalVarsParams = {
+                type: "delallvars",
+            };
+
+            // Log the delete all global variables request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_GLOBAL_VARS,
+                `Sending delete all global variables request.`,
+            );
+            // Send the delete all global variables request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllGlobalVars },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_GLOBAL_VARS, {
+                ...response,
+            });
+            // Log that the delete all global variables request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_GLOBAL_VARS,
+                "Delete all global variables complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the files of the application can be found here
+     */
+    public file: FileService = {
+        upload: async ({ url, authenticatedOnly = true }, requestOptions) => {
+            // Log the upload file process
+            this._logger.debug(EVENT_TYPE.UPLOAD_FILE, `Uploading file.`);
+
+            // Prepare the upload file parameters
+            const uploadFile: UploadFileParams = {
+                type: "upload",
+                url,
+                authed: authenticatedOnly ? "1" : "0",
+            };
+
+            // Log the upload file request
+            this._logger.debug(
+                EVENT_TYPE.UPLOAD_FILE,
+                `Sending upload file request.`,
+            );
+            // Send the upload file request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...uploadFile },
+                requestOptions,
+            });
+
+            // Pass on the id the file can be downloaded with
+            if ("id" in response) {
+                response.fileId = String(response.id);
+                delete response.id;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UPLOAD_FILE, {
+                ...response,
+            });
+            // Log that the upload file request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UPLOAD_FILE,
+                "Upload file complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all files process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_FILES,
+                `Fetching all files.`,
+            );
+
+            // Prepare the fetch all files parameters
+            const fetchAllFiles: FetchAllFilesParams = {
+                type: "fetchallfiles",
+            };
+
+            // Log the fetch all files request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_FILES,
+                `Sending fetch all files request.`,
+            );
+            // Send the fetch all files request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllFiles },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called files if so transform the data
+            if ("files" in response) {
+                const files: FileInfo[] = [];
+                response.files.forEach((file: any) => {
+                    files.push({
+                        fileId: String(file.id),
+                        name: file.name,
+                        url: file.url,
+                        size: String(file.size),
+                        authenticatedOnly: String(file.authed ?? "1") === "1",
+                    });
+                });
+                response.files = files;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_FILES, {
+                ...response,
+            });
+            // Log that the fetch all files request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_FILES,
+                "Fetch all files complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ fileId }, requestOptions) => {
+            // Log the delete file process
+            this._logger.debug(EVENT_TYPE.DELETE_FILE, `Deleting file.`);
+
+            // Prepare the delete file parameters
+            const deleteFile: DeleteFileParams = {
+                type: "delfile",
+                fileid: fileId,
+            };
+
+            // Log the delete file request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_FILE,
+                `Sending delete file request.`,
+            );
+            // Send the delete file request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteFile },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_FILE, {
+                ...response,
+            });
+            // Log that the delete file request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_FILE,
+                "Delete file complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all files process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_FILES,
+                `Deleting all files.`,
+            );
+
+            // Prepare the delete all files parameters
+            const deleteAllFiles: DeleteAllFilesParams = {
+                type: "delallfiles",
+            };
+
+            // Log the delete all files request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_FILES,
+                `Sending delete all files request.`,
+            );
+            // Send the delete all files request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllFiles },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_FILES, {
+                ...response,
+            });
+            // Log that the delete all files request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_FILES,
+                "Delete all files complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        edit: async (
+            { fileId, url, authenticatedOnly = true },
+            requestOptions,
+        ) => {
+            // Log the edit file process
+            this._logger.debug(EVENT_TYPE.EDIT_FILE, `Editing file.`);
+
+            // Prepare the edit file parameters
+            const editFile: EditFileParams = {
+                type: "editfile",
+                id: fileId,
+                url,
+                authed: authenticatedOnly ? "1" : "0",
+            };
+
+            // Log the edit file request
+            this._logger.debug(
+                EVENT_TYPE.EDIT_FILE,
+                `Sending edit file request.`,
+            );
+            // Send the edit file request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...editFile },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.EDIT_FILE, {
+                ...response,
+            });
+            // Log that the edit file request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.EDIT_FILE,
+                "Edit file complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the chat channels of the application can be found here
+     */
+    public chat: ChatService = {
+        channel: {
+            create: async ({ name, delay = 0 }, requestOptions) => {
+                // Log the create chat channel process
+                this._logger.debug(
+                    EVENT_TYPE.CREATE_CHAT_CHANNEL,
+                    `Creating chat channel.`,
+                );
+
+                // Prepare the create chat channel parameters
+                const createChatChannel: CreateChatChannelParams = {
+                    type: "addchannel",
+                    name,
+                    delay: delay.toString(),
+                };
+
+                // Log the create chat channel request
+                this._logger.debug(
+                    EVENT_TYPE.CREATE_CHAT_CHANNEL,
+                    `Sending create chat channel request.`,
+                );
+                // Send the create chat channel request and wait for the response
+                const response = await this._makeRequest({
+                    params: { ...createChatChannel },
+                    requestOptions,
+                });
+                // log the response to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.CREATE_CHAT_CHANNEL, {
+                    ...response,
+                });
+                // Log that the create chat channel request is complete and return the response
+                this._logger.debug(
+                    EVENT_TYPE.CREATE_CHAT_CHANNEL,
+                    "Create chat channel complete. Returning response.",
+                );
+                // return the response
+                return response;
+            },
+            edit: async ({ name, delay }, requestOptions) => {
+                // Log the edit chat channel process
+                this._logger.debug(
+                    EVENT_TYPE.EDIT_CHAT_CHANNEL,
+                    `Editing chat channel.`,
+                );
+
+                // Prepare the edit chat channel parameters
+                const editChatChannel: EditChatChannelParams = {
+                    type: "editchan",
+                    name,
+                    delay: delay.toString(),
+                };
+
+                // Log the edit chat channel request
+                this._logger.debug(
+                    EVENT_TYPE.EDIT_CHAT_CHANNEL,
+                    `Sending edit chat channel request.`,
+                );
+                // Send the edit chat channel request and wait for the response
+                const response = await this._makeRequest({
+                    params: { ...editChatChannel },
+                    requestOptions,
+                });
+                // log the response to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.EDIT_CHAT_CHANNEL, {
+                    ...response,
+                });
+                // Log that the edit chat channel request is complete and return the response
+                this._logger.debug(
+                    EVENT_TYPE.EDIT_CHAT_CHANNEL,
+                    "Edit chat channel complete. Returning response.",
+                );
+                // return the response
+                return response;
+            },
+            delete: async ({ name }, requestOptions) => {
+                // Log the delete chat channel process
+                this._logger.debug(
+                    EVENT_TYPE.DELETE_CHAT_CHANNEL,
+                    `Deleting chat channel.`,
+                );
+
+                // Prepare the delete chat channel parameters
+                const deleteChatChannel: DeleteChatChannelParams = {
+                    type: "delchannel",
+                    name,
+                };
+
+                // Log the delete chat channel request
+                this._logger.debug(
+                    EVENT_TYPE.DELETE_CHAT_CHANNEL,
+                    `Sending delete chat channel request.`,
+                );
+                // Send the delete chat channel request and wait for the response
+                const response = await this._makeRequest({
+                    params: { ...deleteChatChannel },
+                    requestOptions,
+                });
+                // log the response to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.DELETE_CHAT_CHANNEL, {
+                    ...response,
+                });
+                // Log that the delete chat channel request is complete and return the response
+                this._logger.debug(
+                    EVENT_TYPE.DELETE_CHAT_CHANNEL,
+                    "Delete chat channel complete. Returning response.",
+                );
+                // return the response
+                return response;
+            },
+            clear: async ({ name }, requestOptions) => {
+                // Log the clear chat channel process
+                this._logger.debug(
+                    EVENT_TYPE.CLEAR_CHAT_CHANNEL,
+                    `Clearing chat channel.`,
+                );
+
+                // Prepare the clear chat channel parameters
+                const clearChatChannel: ClearChatChannelParams = {
+                    type: "clearchannel",
+                    name,
+                };
+
+                // Log the clear chat channel request
+                this._logger.debug(
+                    EVENT_TYPE.CLEAR_CHAT_CHANNEL,
+                    `Sending clear chat channel request.`,
+                );
+                // Send the clear chat channel request and wait for the response
+                const response = await this._makeRequest({
+                    params: { ...clearChatChannel },
+                    requestOptions,
+                });
+                // log the response to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.CLEAR_CHAT_CHANNEL, {
+                    ...response,
+                });
+                // Log that the clear chat channel request is complete and return the response
+                this._logger.debug(
+                    EVENT_TYPE.CLEAR_CHAT_CHANNEL,
+                    "Clear chat channel complete. Returning response.",
+                );
+                // return the response
+                return response;
+            },
+            all: async (requestOptions) => {
+                // Log the fetch all chat channels process
+                this._logger.debug(
+                    EVENT_TYPE.FETCH_ALL_CHAT_CHANNELS,
+                    `Fetching all chat channels.`,
+                );
+
+                // Prepare the fetch all chat channels parameters
+                const fetchAllChatChannels: FetchAllChatChannelsParams = {
+                    type: "fetchallchats",
+                };
+
+                // Log the fetch all chat channels request
+                this._logger.debug(
+                    EVENT_TYPE.FETCH_ALL_CHAT_CHANNELS,
+                    `Sending fetch all chat channels request.`,
+                );
+                // Send the fetch all chat channels request and wait for the response
+                const response = await this._makeRequest({
+                    params: { ...fetchAllChatChannels },
+                    requestOptions,
+                });
+
+                // Check to see if the object has a value called chats if so transform the data
+                if ("chats" in response) {
+                    const channels: ChatChannel[] = [];
+                    response.chats.forEach((channel: any) => {
+                        channels.push({
+                            name: channel.name,
+                            delay: Number(channel.delay),
+                        });
+                    });
+                    response.channels = channels;
+                    delete response.chats;
+                }
+                // log the response to the event emitter
+                this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_CHAT_CHANNELS, {
+                    ...response,
+                });
+                // Log that the fetch all chat channels request is complete and return the response
+                this._logger.debug(
+                    EVENT_TYPE.FETCH_ALL_CHAT_CHANNELS,
+                    "Fetch all chat channels complete. Returning response.",
+                );
+                // return the response
+                return response;
+            },
+        },
+        mute: async ({ username, time }, requestOptions) => {
+            // Log the mute user process
+            this._logger.debug(EVENT_TYPE.MUTE_USER, `Muting user.`);
+
+            // Prepare the mute user parameters
+            const muteUser: MuteUserParams = {
+                type: "muteuser",
+                user: username,
+                time: time.toString(),
+            };
+
+            // Log the mute user request
+            this._logger.debug(
+                EVENT_TYPE.MUTE_USER,
+                `Sending mute user request.`,
+            );
+            // Send the mute user request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...muteUser },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.MUTE_USER, {
+                ...response,
+            });
+            // Log that the mute user request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.MUTE_USER,
+                "Mute user complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        unmute: async ({ username }, requestOptions) => {
+            // Log the unmute user process
+            this._logger.debug(EVENT_TYPE.UNMUTE_USER, `Unmuting user.`);
+
+            // Prepare the unmute user parameters
+            const unmuteUser: UnmuteUserParams = {
+                type: "unmuteuser",
+                user: username,
+            };
+
+            // Log the unmute user request
+            this._logger.debug(
+                EVENT_TYPE.UNMUTE_USER,
+                `Sending unmute user request.`,
+            );
+            // Send the unmute user request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...unmuteUser },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UNMUTE_USER, {
+                ...response,
+            });
+            // Log that the unmute user request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UNMUTE_USER,
+                "Unmute user complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        mutes: async (requestOptions) => {
+            // Log the fetch all mutes process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_MUTES,
+                `Fetching all muted users.`,
+            );
+
+            // Prepare the fetch all mutes parameters
+            const fetchAllMutes: FetchAllMutesParams = {
+                type: "fetchallmutes",
+            };
+
+            // Log the fetch all mutes request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_MUTES,
+                `Sending fetch all mutes request.`,
+            );
+            // Send the fetch all mutes request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllMutes },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called mutes if so transform the data
+            if ("mutes" in response) {
+                const mutes: ChatMute[] = [];
+                response.mutes.forEach((mute: any) => {
+                    mutes.push({
+                        username: mute.user,
+                        expires: String(mute.time),
+                    });
+                });
+                response.mutes = mutes;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_MUTES, {
+                ...response,
+            });
+            // Log that the fetch all mutes request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_MUTES,
+                "Fetch all mutes complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        history: async ({ channel }, requestOptions) => {
+            // Log the chat history process
+            this._logger.debug(
+                EVENT_TYPE.CHAT_HISTORY,
+                `Fetching chat history.`,
+            );
+
+            // Prepare the chat history parameters
+            const chatHistory: ChatHistoryParams = {
+                type: "chathistory",
+                channel,
+            };
+
+            // Log the chat history request
+            this._logger.debug(
+                EVENT_TYPE.CHAT_HISTORY,
+                `Sending chat history request.`,
+            );
+            // Send the chat history request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...chatHistory },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called messages if so transform the data
+            if ("messages" in response) {
+                const messages: ChatMessage[] = [];
+                response.messages.forEach((message: any) => {
+                    messages.push({
+                        author: message.author,
+                        message: message.message,
+                        timestamp: String(message.timestamp),
+                    });
+                });
+                response.messages = messages;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CHAT_HISTORY, {
+                ...response,
+            });
+            // Log that the chat history request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CHAT_HISTORY,
+                "Chat history complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the blacklist of the application can be found here
+     */
+    public blacklist: BlacklistService = {
+        add: async (
+            { type, value, reason = "Blacklisted via KeyAuthJS/Seller client" },
+            requestOptions,
+        ) => {
+            // Log the add blacklist process
+            this._logger.debug(
+                EVENT_TYPE.ADD_BLACKLIST,
+                `Blacklisting ${type}.`,
+            );
+
+            // Prepare the add blacklist parameters
+            const addBlacklist: AddBlacklistParams = {
+                type: "black",
+                [type]: value,
+                reason,
+            };
+
+            // Log the add blacklist request
+            this._logger.debug(
+                EVENT_TYPE.ADD_BLACKLIST,
+                `Sending add blacklist request.`,
+            );
+            // Send the add blacklist request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...addBlacklist },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.ADD_BLACKLIST, {
+                ...response,
+            });
+            // Log that the add blacklist request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.ADD_BLACKLIST,
+                "Add blacklist complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ type, value }, requestOptions) => {
+            // Log the delete blacklist process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_BLACKLIST,
+                `Removing ${type} from the blacklist.`,
+            );
+
+            // Prepare the delete blacklist parameters
+            const deleteBlacklist: DeleteBlacklistParams = {
+                type: "delblack",
+                data: value,
+                blacktype: type,
+            };
+
+            // Log the delete blacklist request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_BLACKLIST,
+                `Sending delete blacklist request.`,
+            );
+            // Send the delete blacklist request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteBlacklist },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_BLACKLIST, {
+                ...response,
+            });
+            // Log that the delete blacklist request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_BLACKLIST,
+                "Delete blacklist complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all blacklists process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_BLACKLISTS,
+                `Fetching the blacklist.`,
+            );
+
+            // Prepare the fetch all blacklists parameters
+            const fetchAllBlacklists: FetchAllBlacklistsParams = {
+                type: "fetchallblacks",
+            };
+
+            // Log the fetch all blacklists request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_BLACKLISTS,
+                `Sending fetch all blacklists request.`,
+            );
+            // Send the fetch all blacklists request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllBlacklists },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called blacklists if so transform the data
+            if ("blacklists" in response) {
+                const blacklists: BlacklistEntry[] = [];
+                response.blacklists.forEach((entry: any) => {
+                    const type: BlacklistType =
+                        entry.type ?? (entry.hwid ? "hwid" : "ip");
+                    blacklists.push({
+                        type,
+                        value: entry.data ?? entry[type],
+                        reason: entry.reason ?? "",
+                    });
+                });
+                response.blacklists = blacklists;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_BLACKLISTS, {
+                ...response,
+            });
+            // Log that the fetch all blacklists request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_BLACKLISTS,
+                "Fetch all blacklists complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all blacklists process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_BLACKLISTS,
+                `Clearing the blacklist.`,
+            );
+
+            // Prepare the delete all blacklists parameters
+            const deleteAllBlacklists: DeleteAllBlacklistsParams = {
+                type: "delblacks",
+            };
+
+            // Log the delete all blacklists request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_BLACKLISTS,
+                `Sending delete all blacklists request.`,
+            );
+            // Send the delete all blacklists request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllBlacklists },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_BLACKLISTS, {
+                ...response,
+            });
+            // Log that the delete all blacklists request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_BLACKLISTS,
+                "Delete all blacklists complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the whitelist of the application can be found here
+     */
+    public whitelist: WhitelistService = {
+        add: async ({ ip }, requestOptions) => {
+            // Log the add whitelist process
+            this._logger.debug(EVENT_TYPE.ADD_WHITELIST, `Whitelisting ip.`);
+
+            // Prepare the add whitelist parameters
+            const addWhitelist: AddWhitelistParams = {
+                type: "addWhite",
+                ip,
+            };
+
+            // Log the add whitelist request
+            this._logger.debug(
+                EVENT_TYPE.ADD_WHITELIST,
+                `Sending add whitelist request.`,
+            );
+            // Send the add whitelist request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...addWhitelist },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.ADD_WHITELIST, {
+                ...response,
+            });
+            // Log that the add whitelist request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.ADD_WHITELIST,
+                "Add whitelist complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ ip }, requestOptions) => {
+            // Log the delete whitelist process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_WHITELIST,
+                `Removing ip from the whitelist.`,
+            );
+
+            // Prepare the delete whitelist parameters
+            const deleteWhitelist: DeleteWhitelistParams = {
+                type: "delWhite",
+                ip,
+            };
+
+            // Log the delete whitelist request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_WHITELIST,
+                `Sending delete whitelist request.`,
+            );
+            // Send the delete whitelist request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteWhitelist },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_WHITELIST, {
+                ...response,
+            });
+            // Log that the delete whitelist request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_WHITELIST,
+                "Delete whitelist complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all whitelists process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WHITELISTS,
+                `Fetching the whitelist.`,
+            );
+
+            // Prepare the fetch all whitelists parameters
+            const fetchAllWhitelists: FetchAllWhitelistsParams = {
+                type: "fetchallwhites",
+            };
+
+            // Log the fetch all whitelists request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WHITELISTS,
+                `Sending fetch all whitelists request.`,
+            );
+            // Send the fetch all whitelists request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllWhitelists },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called whitelists if so transform the data
+            if ("whitelists" in response) {
+                const whitelists: WhitelistEntry[] = [];
+                response.whitelists.forEach((entry: any) => {
+                    whitelists.push({
+                        ip: entry.ip,
+                    });
+                });
+                response.whitelists = whitelists;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_WHITELISTS, {
+                ...response,
+            });
+            // Log that the fetch all whitelists request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WHITELISTS,
+                "Fetch all whitelists complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all whitelists process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WHITELISTS,
+                `Clearing the whitelist.`,
+            );
+
+            // Prepare the delete all whitelists parameters
+            const deleteAllWhitelists: DeleteAllWhitelistsParams = {
+                type: "delwhites",
+            };
+
+            // Log the delete all whitelists request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WHITELISTS,
+                `Sending delete all whitelists request.`,
+            );
+            // Send the delete all whitelists request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllWhitelists },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_WHITELISTS, {
+                ...response,
+            });
+            // Log that the delete all whitelists request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WHITELISTS,
+                "Delete all whitelists complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the sessions of the application can be found here
+     */
+    public session: SessionService = {
+        all: async (requestOptions) => {
+            // Log the fetch all sessions process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SESSIONS,
+                `Fetching all sessions.`,
+            );
+
+            // Prepare the fetch all sessions parameters
+            const fetchAllSessions: FetchAllSessionsParams = {
+                type: "fetchallsessions",
+            };
+
+            // Log the fetch all sessions request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SESSIONS,
+                `Sending fetch all sessions request.`,
+            );
+            // Send the fetch all sessions request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllSessions },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called sessions if so transform the data
+            if ("sessions" in response) {
+                const sessions: ActiveSession[] = [];
+                response.sessions.forEach((session: any) => {
+                    sessions.push({
+                        sessionId: session.id,
+                        credential: session.credential ?? "",
+                        expiry: String(session.expiry),
+                        validated:
+                            session.validated === true ||
+                            String(session.validated) === "1",
+                    });
+                });
+                response.sessions = sessions;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_SESSIONS, {
+                ...response,
+            });
+            // Log that the fetch all sessions request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_SESSIONS,
+                "Fetch all sessions complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        kill: async ({ sessionId }, requestOptions) => {
+            // Log the kill session process
+            this._logger.debug(EVENT_TYPE.KILL_SESSION, `Killing session.`);
+
+            // Prepare the kill session parameters
+            const killSession: KillSessionParams = {
+                type: "kill",
+                sessid: sessionId,
+            };
+
+            // Log the kill session request
+            this._logger.debug(
+                EVENT_TYPE.KILL_SESSION,
+                `Sending kill session request.`,
+            );
+            // Send the kill session request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...killSession },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.KILL_SESSION, {
+                ...response,
+            });
+            // Log that the kill session request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.KILL_SESSION,
+                "Kill session complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        killAll: async (requestOptions) => {
+            // Log the kill all sessions process
+            this._logger.debug(
+                EVENT_TYPE.KILL_ALL_SESSIONS,
+                `Killing all sessions.`,
+            );
+
+            // Prepare the kill all sessions parameters
+            const killAllSessions: KillAllSessionsParams = {
+                type: "killall",
+            };
+
+            // Log the kill all sessions request
+            this._logger.debug(
+                EVENT_TYPE.KILL_ALL_SESSIONS,
+                `Sending kill all sessions request.`,
+            );
+            // Send the kill all sessions request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...killAllSessions },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.KILL_ALL_SESSIONS, {
+                ...response,
+            });
+            // Log that the kill all sessions request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.KILL_ALL_SESSIONS,
+                "Kill all sessions complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the webhooks of the application can be found here
+     */
+    public webhook: WebhookService = {
+        create: async (
+            { baseUrl, userAgent = "KeyAuth", authenticatedOnly = true },
+            requestOptions,
+        ) => {
+            // Log the create webhook process
+            this._logger.debug(EVENT_TYPE.CREATE_WEBHOOK, `Creating webhook.`);
+
+            // Prepare the create webhook parameters
+            const createWebhook: CreateWebhookParams = {
+                type: "addwebhook",
+                baseurl: baseUrl,
+                ua: userAgent,
+                authed: authenticatedOnly ? "1" : "0",
+            };
+
+            // Log the create webhook request
+            this._logger.debug(
+                EVENT_TYPE.CREATE_WEBHOOK,
+                `Sending create webhook request.`,
+            );
+            // Send the create webhook request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...createWebhook },
+                requestOptions,
+            });
+
+            // Pass on the id the webhook can be called with
+            if ("webid" in response) {
+                response.webId = String(response.webid);
+                delete response.webid;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CREATE_WEBHOOK, {
+                ...response,
+            });
+            // Log that the create webhook request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CREATE_WEBHOOK,
+                "Create webhook complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ webId }, requestOptions) => {
+            // Log the delete webhook process
+            this._logger.debug(EVENT_TYPE.DELETE_WEBHOOK, `Deleting webhook.`);
+
+            // Prepare the delete webhook parameters
+            const deleteWebhook: DeleteWebhookParams = {
+                type: "delwebhook",
+                webid: webId,
+            };
+
+            // Log the delete webhook request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_WEBHOOK,
+                `Sending delete webhook request.`,
+            );
+            // Send the delete webhook request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteWebhook },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_WEBHOOK, {
+                ...response,
+            });
+            // Log that the delete webhook request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_WEBHOOK,
+                "Delete webhook complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all webhooks process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WEBHOOKS,
+                `Fetching all webhooks.`,
+            );
+
+            // Prepare the fetch all webhooks parameters
+            const fetchAllWebhooks: FetchAllWebhooksParams = {
+                type: "fetchallwebhooks",
+            };
+
+            // Log the fetch all webhooks request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WEBHOOKS,
+                `Sending fetch all webhooks request.`,
+            );
+            // Send the fetch all webhooks request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllWebhooks },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called webhooks if so transform the data
+            if ("webhooks" in response) {
+                const webhooks: WebhookInfo[] = [];
+                response.webhooks.forEach((webhook: any) => {
+                    webhooks.push({
+                        webId: webhook.webid,
+                        baseUrl: webhook.baseurl,
+                        userAgent: webhook.useragent,
+                        authenticatedOnly: String(webhook.authed) === "1",
+                    });
+                });
+                response.webhooks = webhooks;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_WEBHOOKS, {
+                ...response,
+            });
+            // Log that the fetch all webhooks request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_WEBHOOKS,
+                "Fetch all webhooks complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all webhooks process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WEBHOOKS,
+                `Deleting all webhooks.`,
+            );
+
+            // Prepare the delete all webhooks parameters
+            const deleteAllWebhooks: DeleteAllWebhooksParams = {
+                type: "delallwebhooks",
+            };
+
+            // Log the delete all webhooks request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WEBHOOKS,
+                `Sending delete all webhooks request.`,
+            );
+            // Send the delete all webhooks request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllWebhooks },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_WEBHOOKS, {
+                ...response,
+            });
+            // Log that the delete all webhooks request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_WEBHOOKS,
+                "Delete all webhooks complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the settings and state of the application can be found here
+     */
+    public app: AppService = {
+        getSettings: async (requestOptions) => {
+            // Log the get app settings process
+            this._logger.debug(
+                EVENT_TYPE.GET_APP_SETTINGS,
+                `Getting app settings.`,
+            );
+
+            // Prepare the get app settings parameters
+            const getAppSettings: GetAppSettingsParams = {
+                type: "getsettings",
+            };
+
+            // Log the get app settings request
+            this._logger.debug(
+                EVENT_TYPE.GET_APP_SETTINGS,
+                `Sending get app settings request.`,
+            );
+            // Send the get app settings request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...getAppSettings },
+                requestOptions,
+            });
+            // Read the settings into the settings model
+            const buildResponse: GetAppSettingsResponse = {
+                message: response.message,
+                success: response.success,
+                time: response.time,
+                settings: response.success
+                    ? toAppSettings(response)
+                    : undefined,
+            };
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.GET_APP_SETTINGS, {
+                ...buildResponse,
+            });
+            // Log that the get app settings request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.GET_APP_SETTINGS,
+                "Get app settings complete. Returning response.",
+            );
+            // return the response
+            return buildResponse;
+        },
+        updateSettings: async (settings, requestOptions) => {
+            // Log the update app settings process
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_APP_SETTINGS,
+                `Updating app settings.`,
+            );
+
+            // Prepare the update app settings parameters
+            const updateAppSettings = toSettingsParams(settings);
+
+            // Log the update app settings request
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_APP_SETTINGS,
+                `Sending update app settings request.`,
+            );
+            // Send the update app settings request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...updateAppSettings },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UPDATE_APP_SETTINGS, {
+                ...response,
+            });
+            // Log that the update app settings request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UPDATE_APP_SETTINGS,
+                "Update app settings complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        pause: async (requestOptions) => {
+            // Log the pause app process
+            this._logger.debug(EVENT_TYPE.PAUSE_APP, `Pausing app.`);
+
+            // Prepare the pause app parameters
+            const pauseApp: PauseAppParams = {
+                type: "pauseapp",
+            };
+
+            // Log the pause app request
+            this._logger.debug(
+                EVENT_TYPE.PAUSE_APP,
+                `Sending pause app request.`,
+            );
+            // Send the pause app request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...pauseApp },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.PAUSE_APP, {
+                ...response,
+            });
+            // Log that the pause app request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.PAUSE_APP,
+                "Pause app complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        unpause: async (requestOptions) => {
+            // Log the unpause app process
+            this._logger.debug(EVENT_TYPE.UNPAUSE_APP, `Unpausing app.`);
+
+            // Prepare the unpause app parameters
+            const unpauseApp: UnpauseAppParams = {
+                type: "unpauseapp",
+            };
+
+            // Log the unpause app request
+            this._logger.debug(
+                EVENT_TYPE.UNPAUSE_APP,
+                `Sending unpause app request.`,
+            );
+            // Send the unpause app request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...unpauseApp },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.UNPAUSE_APP, {
+                ...response,
+            });
+            // Log that the unpause app request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.UNPAUSE_APP,
+                "Unpause app complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        addHash: async ({ hash }, requestOptions) => {
+            // Log the add hash process
+            this._logger.debug(EVENT_TYPE.ADD_HASH, `Adding program hash.`);
+
+            // Prepare the add hash parameters
+            const addHash: AddHashParams = {
+                type: "addhash",
+                hash,
+            };
+
+            // Log the add hash request
+            this._logger.debug(
+                EVENT_TYPE.ADD_HASH,
+                `Sending add hash request.`,
+            );
+            // Send the add hash request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...addHash },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.ADD_HASH, {
+                ...response,
+            });
+            // Log that the add hash request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.ADD_HASH,
+                "Add hash complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        resetHash: async (requestOptions) => {
+            // Log the reset hash process
+            this._logger.debug(
+                EVENT_TYPE.RESET_HASH,
+                `Resetting program hash.`,
+            );
+
+            // Prepare the reset hash parameters
+            const resetHash: ResetHashParams = {
+                type: "resethash",
+            };
+
+            // Log the reset hash request
+            this._logger.debug(
+                EVENT_TYPE.RESET_HASH,
+                `Sending reset hash request.`,
+            );
+            // Send the reset hash request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...resetHash },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.RESET_HASH, {
+                ...response,
+            });
+            // Log that the reset hash request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.RESET_HASH,
+                "Reset hash complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with the logs sent by the client api can be found here
+     */
+    public logs: LogsService = {
+        all: async (requestOptions) => {
+            // Log the fetch all logs process
+            this._logger.debug(EVENT_TYPE.FETCH_ALL_LOGS, `Fetching all logs.`);
+
+            // Prepare the fetch all logs parameters
+            const fetchAllLogs: FetchAllLogsParams = {
+                type: "fetchalllogs",
+            };
+
+            // Log the fetch all logs request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_LOGS,
+                `Sending fetch all logs request.`,
+            );
+            // Send the fetch all logs request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllLogs },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called logs if so transform the data
+            if ("logs" in response) {
+                const logs: LogEntry[] = [];
+                response.logs.forEach((log: any) => {
+                    logs.push({
+                        date: new Date(Number(log.logdate) * 1000),
+                        pcUser: log.pcuser,
+                        message: log.logdata,
+                        credential: log.credential ?? "",
+                    });
+                });
+                response.logs = logs;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_LOGS, {
+                ...response,
+            });
+            // Log that the fetch all logs request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_LOGS,
+                "Fetch all logs complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        search: async ({ from, to, credential, contains }, requestOptions) => {
+            // Log the search logs process
+            this._logger.debug(EVENT_TYPE.FETCH_ALL_LOGS, `Searching logs.`);
+
+            // Fetch every log, keyauth has no way to filter them
+            const response = await this.logs.all(requestOptions);
+            if (!response.success) return response;
+
+            // Keep the logs that match every filter that is set
+            const search = contains?.toLowerCase();
+            const logs = response.logs.filter(
+                (log) =>
+                    (!from || log.date >= from) &&
+                    (!to || log.date <= to) &&
+                    (credential === undefined ||
+                        log.credential === credential) &&
+                    (!search || log.message.toLowerCase().includes(search)),
+            );
+
+            // Log that the search logs request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_LOGS,
+                `Search logs complete, ${logs.length} of ${response.logs.length} logs match. Returning response.`,
+            );
+            // return the response
+            return { ...response, logs };
+        },
+        deleteAll: async (requestOptions) => {
+            // Log the delete all logs process
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_LOGS,
+                `Deleting all logs.`,
+            );
+
+            // Prepare the delete all logs parameters
+            const deleteAllLogs: DeleteAllLogsParams = {
+                type: "dellogs",
+            };
+
+            // Log the delete all logs request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_LOGS,
+                `Sending delete all logs request.`,
+            );
+            // Send the delete all logs request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAllLogs },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ALL_LOGS, {
+                ...response,
+            });
+            // Log that the delete all logs request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ALL_LOGS,
+                "Delete all logs complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Anything to do with reseller and manager accounts
+     */
+    public account: AccountService = {
+        create: async (account, requestOptions) => {
+            // Log the create account process
+            this._logger.debug(EVENT_TYPE.CREATE_ACCOUNT, `Creating account.`);
+
+            // Check the role matches the key levels and permissions before anything is sent
+            const invalidAccount = validateAccount(account);
+            if (invalidAccount !== undefined) {
+                throw this._createInvalidParamsError(
+                    EVENT_TYPE.CREATE_ACCOUNT,
+                    invalidAccount,
+                );
+            }
+
+            // Prepare the create account parameters
+            const createAccount: CreateAccountParams = {
+                type: "addacc",
+                role: account.role,
+                user: account.username,
+                pass: account.password,
+                email: account.email ?? "",
+                keylevels: account.keyLevels?.join(","),
+                perms: account.permissions?.join(","),
+            };
+
+            // Log the create account request
+            this._logger.debug(
+                EVENT_TYPE.CREATE_ACCOUNT,
+                `Sending create account request.`,
+            );
+            // Send the create account request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...createAccount },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.CREATE_ACCOUNT, {
+                ...response,
+            });
+            // Log that the create account request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.CREATE_ACCOUNT,
+                "Create account complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        delete: async ({ username }, requestOptions) => {
+            // Log the delete account process
+            this._logger.debug(EVENT_TYPE.DELETE_ACCOUNT, `Deleting account.`);
+
+            // Prepare the delete account parameters
+            const deleteAccount: DeleteAccountParams = {
+                type: "delacc",
+                user: username,
+            };
+
+            // Log the delete account request
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ACCOUNT,
+                `Sending delete account request.`,
+            );
+            // Send the delete account request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...deleteAccount },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.DELETE_ACCOUNT, {
+                ...response,
+            });
+            // Log that the delete account request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.DELETE_ACCOUNT,
+                "Delete account complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        all: async (requestOptions) => {
+            // Log the fetch all accounts process
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_ACCOUNTS,
+                `Fetching all accounts.`,
+            );
+
+            // Prepare the fetch all accounts parameters
+            const fetchAllAccounts: FetchAllAccountsParams = {
+                type: "fetchallaccs",
+            };
+
+            // Log the fetch all accounts request
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_ACCOUNTS,
+                `Sending fetch all accounts request.`,
+            );
+            // Send the fetch all accounts request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...fetchAllAccounts },
+                requestOptions,
+            });
+
+            // Check to see if the object has a value called accounts if so transform the data
+            if ("accounts" in response) {
+                const accounts: Account[] = [];
+                response.accounts.forEach((account: any) => {
+                    const list = (value: unknown) =>
+                        String(value ?? "")
+                            .split(",")
+                            .filter((item) => item !== "");
+                    accounts.push({
+                        username: account.username,
+                        email: account.email ?? "",
+                        role: account.role,
+                        keyLevels: list(account.keylevels).map(Number),
+                        permissions: list(account.perms) as ManagerPermission[],
+                        balance: {
+                            day: Number(account.balance?.day ?? 0),
+                            week: Number(account.balance?.week ?? 0),
+                            month: Number(account.balance?.month ?? 0),
+                            threeMonth: Number(
+                                account.balance?.threemonth ?? 0,
+                            ),
+                            sixMonth: Number(account.balance?.sixmonth ?? 0),
+                            lifetime: Number(account.balance?.lifetime ?? 0),
+                        },
+                    });
+                });
+                response.accounts = accounts;
+            }
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.FETCH_ALL_ACCOUNTS, {
+                ...response,
+            });
+            // Log that the fetch all accounts request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.FETCH_ALL_ACCOUNTS,
+                "Fetch all accounts complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+        setBalance: async ({ username, balance }, requestOptions) => {
+            // Log the set account balance process
+            this._logger.debug(
+                EVENT_TYPE.SET_ACCOUNT_BALANCE,
+                `Setting account balance.`,
+            );
+
+            // Check every balance is a whole number before anything is sent
+            const invalidBalance = validateBalance(balance);
+            if (invalidBalance !== undefined) {
+                throw this._createInvalidParamsError(
+                    EVENT_TYPE.SET_ACCOUNT_BALANCE,
+                    invalidBalance,
+                );
+            }
+
+            // Prepare the set account balance parameters
+            const setAccountBalance: SetAccountBalanceParams = {
+                type: "setbalance",
+                username,
+                day: String(balance.day ?? 0),
+                week: String(balance.week ?? 0),
+                month: String(balance.month ?? 0),
+                threemonth: String(balance.threeMonth ?? 0),
+                sixmonth: String(balance.sixMonth ?? 0),
+                lifetime: String(balance.lifetime ?? 0),
+            };
+
+            // Log the set account balance request
+            this._logger.debug(
+                EVENT_TYPE.SET_ACCOUNT_BALANCE,
+                `Sending set account balance request.`,
+            );
+            // Send the set account balance request and wait for the response
+            const response = await this._makeRequest({
+                params: { ...setAccountBalance },
+                requestOptions,
+            });
+            // log the response to the event emitter
+            this._eventEmitter.emit(EVENT_TYPE.SET_ACCOUNT_BALANCE, {
+                ...response,
+            });
+            // Log that the set account balance request is complete and return the response
+            this._logger.debug(
+                EVENT_TYPE.SET_ACCOUNT_BALANCE,
+                "Set account balance complete. Returning response.",
+            );
+            // return the response
+            return response;
+        },
+    };
+    /**
+     * Export licenses, users, user variables and subscriptions to files and import them again
+     */
+    public transfer: TransferService = {
+        export: {
+            licenses: async (file, requestOptions) => {
+                // Log the export licenses process
+                this._logger.debug(EVENT_TYPE.EXPORT, `Exporting licenses.`);
+
+                // Fetch every license key and write them to the file
+                const response = await this.license.fetchAll(requestOptions);
+                return this._writeExport(
+                    "licenses",
+                    file,
+                    response,
+                    LICENSE_COLUMNS,
+                    response.keys ?? [],
+                );
+            },
+            users: async (file, requestOptions) => {
+                // Log the export users process
+                this._logger.debug(EVENT_TYPE.EXPORT, `Exporting users.`);
+
+                // Fetch every user and write them to the file, the password column is left out
+                const response = await this.user.all(requestOptions);
+                return this._writeExport(
+                    "users",
+                    file,
+                    response,
+                    USER_COLUMNS,
+                    response.users ?? [],
+                );
+            },
+            userVars: async (file, requestOptions) => {
+                // Log the export user variables process
+                this._logger.debug(
+                    EVENT_TYPE.EXPORT,
+                    `Exporting user variables.`,
+                );
+
+                // Fetch the variables of every user and write them to the file
+                const response = await this.user.var.getAll(requestOptions);
+                return this._writeExport(
+                    "user variables",
+                    file,
+                    response,
+                    USER_VAR_COLUMNS,
+                    response.vars ?? [],
+                );
+            },
+            subscriptions: async (file, requestOptions) => {
+                // Log the export subscriptions process
+                this._logger.debug(
+                    EVENT_TYPE.EXPORT,
+                    `Exporting subscriptions.`,
+                );
+
+                // Fetch every subscription and write them to the file
+                const response =
+                    await this.subscription.fetchAll(requestOptions);
+                return this._writeExport(
+                    "subscriptions",
+                    file,
+                    response,
+                    SUBSCRIPTION_COLUMNS,
+                    response.subs ?? [],
+                );
+            },
+        },
+        import: {
+            licenses: async (file, requestOptions) => {
+                // Log the import licenses process
+                this._logger.debug(EVENT_TYPE.IMPORT, `Importing licenses.`);
+
+                return this._runImport(
+                    "licenses",
+                    file,
+                    () => this.license.fetchAll(requestOptions),
+                    (existing) => (existing.keys ?? []).map((k) => k.key),
+                    (record) => String(record.key ?? ""),
+                    async (record, key, overwrite) => {
+                        // Check the license can be created before an existing one is deleted
+                        const invalid = validateLicenseRecord(key, record);
+                        if (invalid) {
+                            return {
+                                success: false,
+                                message: invalid,
+                                time: 0,
+                            };
+                        }
+                        const create = {
+                            // The key is sent as the mask so the exact key is created
+                            mask: key,
+                            amount: 1,
+                            level: Number(record.level || 1),
+                            // Keyauth stores how long a key lasts in seconds but creates keys with an expiry in days
+                            expiry: String(
+                                Number(record.expires || 86400) / 86400,
+                            ),
+                            note: String(record.note ?? ""),
+                        };
+
+                        // Keyauth can not edit the level or expiry of a license so an existing one is deleted and created again
+                        if (overwrite) {
+                            const deleted = await this.license.delete.single(
+                                { license: key },
+                                requestOptions,
+                            );
+                            if (!deleted.success) return deleted;
+                        }
+                        let created: BaseResponse;
+                        try {
+                            created = await this.license.create(
+                                create,
+                                requestOptions,
+                            );
+                        } catch (error) {
+                            if (!overwrite || error instanceof AbortError) {
+                                throw error;
+                            }
+                            created = {
+                                success: false,
+                                message:
+                                    error instanceof Error
+                                        ? error.message
+                                        : String(error),
+                                time: 0,
+                            };
+                        }
+                        if (!created.success) {
+                            return overwrite
+                                ? {
+                                      ...created,
+                                      message: `The existing license was deleted but creating it again failed: ${created.message}`,
+                                  }
+                                : created;
+                        }
+
+                        // A new license is never banned so the ban is applied again
+                        const banReason = getBanReason(record);
+                        if (banReason) {
+                            const banned = await this.license.ban(
+                                { license: key, reason: banReason },
+                                requestOptions,
+                            );
+                            if (!banned.success) {
+                                return {
+                                    ...banned,
+                                    message: `The license was created but banning it again failed: ${banned.message}`,
+                                };
+                            }
+                        }
+
+                        // Keyauth can not give a license to a user so who used it is lost
+                        if (record.usedBy) {
+                            return {
+                                ...created,
+                                message: `${created.message}, it is no longer used by ${record.usedBy}`,
+                            };
+                        }
+                        return created;
+                    },
+                    requestOptions,
+                );
+            },
+            users: async (file, requestOptions) => {
+                // Log the import users process
+                this._logger.debug(EVENT_TYPE.IMPORT, `Importing users.`);
+
+                return this._runImport(
+                    "users",
+                    file,
+                    () => this.user.all(requestOptions),
+                    (existing) => (existing.users ?? []).map((u) => u.username),
+                    (record) => String(record.username ?? ""),
+                    async (record, username, overwrite) => {
+                        // An existing user is edited in place, keyauth can only change their email
+                        if (overwrite) {
+                            if (!record.email) {
+                                return {
+                                    success: true,
+                                    message:
+                                        "Already exists, nothing to change",
+                                    time: 0,
+                                };
+                            }
+                            return this.user.changeEmail(
+                                { username, email: String(record.email) },
+                                requestOptions,
+                            );
+                        }
+                        const created = await this.user.create(
+                            {
+                                username,
+                                subName: file.subName,
+                                expiry: file.expiry,
+                                password: file.password,
+                            },
+                            requestOptions,
+                        );
+                        if (!created.success) return created;
+
+                        // Keyauth does not take an email when creating a user so it is set afterwards
+                        if (record.email) {
+                            const changed = await this.user.changeEmail(
+                                { username, email: String(record.email) },
+                                requestOptions,
+                            );
+                            if (!changed.success) return changed;
+                        }
+
+                        // A new user is never banned so the ban is applied again
+                        const banReason = getBanReason(record);
+                        if (banReason) {
+                            const banned = await this.user.ban(
+                                { username, reason: banReason },
+                                requestOptions,
+                            );
+                            if (!banned.success) {
+                                return {
+                                    ...banned,
+                                    message: `The user was created but banning them again failed: ${banned.message}`,
+                                };
+                            }
+                        }
+                        return created;
+                    },
+                    requestOptions,
+                );
+            },
+            userVars: async (file, requestOptions) => {
+                // Log the import user variables process
+                this._logger.debug(
+                    EVENT_TYPE.IMPORT,
+                    `Importing user variables.`,
+                );
+
+                // The variables users already have are found by `username/variable`
+                return this._runImport(
+                    "user variables",
+                    file,
+                    () => this.user.var.getAll(requestOptions),
+                    (existing) =>
+                        (existing.vars ?? []).map((v) => `${v.user}/${v.name}`),
+                    (record) =>
+                        record.user && record.name
+                            ? `${record.user}/${record.name}`
+                            : "",
+                    (record, name) => {
+                        // Setting a variable replaces it so overwriting needs nothing extra
+                        const username = String(record.user);
+                        return this.user.var.set(
+                            {
+                                username,
+                                varName: name.slice(username.length + 1),
+                                varData: String(record.data ?? ""),
+                            },
+                            requestOptions,
+                        );
+                    },
+                    requestOptions,
+                );
+            },
+            subscriptions: async (file, requestOptions) => {
+                // Log the import subscriptions process
+                this._logger.debug(
+                    EVENT_TYPE.IMPORT,
+                    `Importing subscriptions.`,
+                );
+
+                return this._runImport(
+                    "subscriptions",
+                    file,
+                    () => this.subscription.fetchAll(requestOptions),
+                    (existing) => (existing.subs ?? []).map((s) => s.name),
+                    (record) => String(record.name ?? ""),
+                    (record, name, overwrite) => {
+                        const level = Number(record.level ?? 1);
+                        // An existing subscription only has its level changed
+                        return overwrite
+                            ? this.subscription.edit(
+                                  { name, level },
+                                  requestOptions,
+                              )
+                            : this.subscription.create(
+                                  { name, level },
+                                  requestOptions,
+                              );
+                    },
+                    requestOptions,
+                );
+            },
+        },
     };
 }
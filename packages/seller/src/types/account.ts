@@ -0,0 +1,201 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * The roles a sub account can have
+ */
+export type AccountRole = "Reseller" | "Manager";
+
+/**
+ * The roles a sub account can have as an enum
+ */
+export enum ACCOUNT_ROLE {
+    RESELLER = "Reseller",
+    MANAGER = "Manager",
+}
+
+/**
+ * What a manager account is allowed to manage, resellers can only sell licenses
+ */
+export type ManagerPermission =
+    | "licenses"
+    | "users"
+    | "subscriptions"
+    | "chats"
+    | "sessions"
+    | "webhooks"
+    | "files"
+    | "vars"
+    | "logs"
+    | "blacklists"
+    | "settings";
+
+/**
+ * How many licenses of every expiry a reseller can still create
+ */
+export interface AccountBalance {
+    day: number;
+    week: number;
+    month: number;
+    threeMonth: number;
+    sixMonth: number;
+    lifetime: number;
+}
+
+/**
+ * A reseller or manager account
+ */
+export interface Account {
+    username: string;
+    email: string;
+    role: AccountRole;
+    /**
+     * The license levels a reseller can create, empty for managers
+     */
+    keyLevels: number[];
+    /**
+     * What a manager is allowed to manage, empty for resellers
+     */
+    permissions: ManagerPermission[];
+    /**
+     * The balance of a reseller, every expiry is `0` for managers
+     */
+    balance: AccountBalance;
+}
+
+export interface CreateAccount {
+    /**
+     * If the account is a reseller or a manager
+     */
+    role: AccountRole;
+    username: string;
+    password: string;
+    email?: string;
+    /**
+     * [Reseller only] The license levels the reseller can create
+     */
+    keyLevels?: number[];
+    /**
+     * [Manager only] What the manager is allowed to manage, a manager needs at least one permission
+     */
+    permissions?: ManagerPermission[];
+}
+
+export interface CreateAccountResponse extends BaseResponse {}
+
+export interface CreateAccountParams {
+    type: "addacc";
+    role: AccountRole;
+    user: string;
+    pass: string;
+    email: string;
+    keylevels?: string;
+    perms?: string;
+}
+
+export interface DeleteAccount {
+    /**
+     * The username of the account to delete
+     */
+    username: string;
+}
+
+export interface DeleteAccountResponse extends BaseResponse {}
+
+export interface DeleteAccountParams {
+    type: "delacc";
+    user: string;
+}
+
+export interface FetchAllAccountsResponse extends BaseResponse {
+    accounts: Account[];
+}
+
+export interface FetchAllAccountsParams {
+    type: "fetchallaccs";
+}
+
+export interface SetAccountBalance {
+    /**
+     * The username of the reseller
+     */
+    username: string;
+    /**
+     * The new balance, expiries that are left out are set to `0`
+     */
+    balance: Partial<AccountBalance>;
+}
+
+export interface SetAccountBalanceResponse extends BaseResponse {}
+
+export interface SetAccountBalanceParams {
+    type: "setbalance";
+    username: string;
+    day: string;
+    week: string;
+    month: string;
+    threemonth: string;
+    sixmonth: string;
+    lifetime: string;
+}
+
+export interface AccountService {
+    /**
+     * Create a reseller or manager account.
+     *
+     * @see https://keyauth.readme.io/reference/create-account
+     *
+     * @param {CreateAccount} `data` - All the params needed to create an account
+     * @param {CreateAccount['role']} `data.role` - If the account is a reseller or a manager
+     * @param {CreateAccount['username']} `data.username` - The username of the account
+     * @param {CreateAccount['password']} `data.password` - The password of the account
+     * @param {CreateAccount['email']} [data.email] - The email of the account
+     * @param {CreateAccount['keyLevels']} [data.keyLevels] - [Reseller only] The license levels the reseller can create
+     * @param {CreateAccount['permissions']} [data.permissions] - [Manager only] What the manager is allowed to manage
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<CreateAccountResponse>} {@link CreateAccountResponse} - The promise response from creating an account
+     * @throws {InvalidParamsError} If the role does not match the key levels or permissions, no request is sent.
+     */
+    create: (
+        data: CreateAccount,
+        options?: RequestOptions,
+    ) => Promise<CreateAccountResponse>;
+    /**
+     * Delete a reseller or manager account.
+     *
+     * @see https://keyauth.readme.io/reference/delete-account
+     *
+     * @param {DeleteAccount} `data` - All the params needed to delete an account
+     * @param {DeleteAccount['username']} `data.username` - The username of the account to delete
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAccountResponse>} {@link DeleteAccountResponse} - The promise response from deleting an account
+     */
+    delete: (
+        data: DeleteAccount,
+        options?: RequestOptions,
+    ) => Promise<DeleteAccountResponse>;
+    /**
+     * Fetch every reseller and manager account
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllAccountsResponse>} {@link FetchAllAccountsResponse} - The promise response from fetching all accounts
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllAccountsResponse>;
+    /**
+     * Set how many licenses of every expiry a reseller can still create.
+     *
+     * @see https://keyauth.readme.io/reference/set-balance
+     *
+     * @param {SetAccountBalance} `data` - All the params needed to set the balance
+     * @param {SetAccountBalance['username']} `data.username` - The username of the reseller
+     * @param {SetAccountBalance['balance']} `data.balance` - The new balance, expiries that are left out are set to `0`
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<SetAccountBalanceResponse>} {@link SetAccountBalanceResponse} - The promise response from setting the balance
+     * @throws {InvalidParamsError} If a balance is negative or not a whole number, no request is sent.
+     */
+    setBalance: (
+        data: SetAccountBalance,
+        options?: RequestOptions,
+    ) => Promise<SetAccountBalanceResponse>;
+}
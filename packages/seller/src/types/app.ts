@@ -0,0 +1,196 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * The custom messages the client api responds with, an empty message uses the keyauth default
+ */
+export interface AppMessages {
+    appDisabled: string;
+    usernameTaken: string;
+    keyNotFound: string;
+    keyUsed: string;
+    noSubLevel: string;
+    usernameNotFound: string;
+    passMismatch: string;
+    hwidMismatch: string;
+    noActiveSubs: string;
+    hwidBlacked: string;
+    pausedSub: string;
+    vpnBlocked: string;
+    keyBanned: string;
+    userBanned: string;
+    sessionUnauthed: string;
+    hashCheckFail: string;
+}
+
+/**
+ * The settings of the application
+ */
+export interface AppSettings {
+    /**
+     * If the application is enabled, a disabled application fails every `init`
+     */
+    enabled: boolean;
+    /**
+     * If users are locked to the hwid they first log in with
+     */
+    hwidLock: boolean;
+    /**
+     * If users on a vpn are blocked
+     */
+    vpnBlock: boolean;
+    /**
+     * If the program hash is checked on `init`
+     */
+    hashCheck: boolean;
+    /**
+     * The version `ClientApi.init` has to send as `ver`
+     */
+    version: string;
+    /**
+     * The link users are sent to when their version is outdated
+     */
+    download: string;
+    /**
+     * The discord webhook url keyauth logs to
+     */
+    webhook: string;
+    /**
+     * The shortest hwid that is accepted
+     */
+    minHwidLength: number;
+    /**
+     * How many seconds a session lasts
+     */
+    sessionExpiry: number;
+    /**
+     * The custom messages the client api responds with
+     */
+    messages: AppMessages;
+}
+
+/**
+ * The settings to change, settings that are left out are not sent
+ */
+export interface UpdateAppSettings
+    extends Partial<Omit<AppSettings, "messages">> {
+    /**
+     * The custom messages to change
+     */
+    messages?: Partial<AppMessages>;
+}
+
+export interface GetAppSettingsResponse extends BaseResponse {
+    settings?: AppSettings;
+}
+
+export interface GetAppSettingsParams {
+    type: "getsettings";
+}
+
+export interface UpdateAppSettingsResponse extends BaseResponse {}
+
+export interface UpdateAppSettingsParams extends Record<string, string> {
+    type: "updatesettings";
+}
+
+export interface PauseAppResponse extends BaseResponse {}
+
+export interface PauseAppParams {
+    type: "pauseapp";
+}
+
+export interface UnpauseAppResponse extends BaseResponse {}
+
+export interface UnpauseAppParams {
+    type: "unpauseapp";
+}
+
+export interface AddHash {
+    /**
+     * The md5 hash of the program to allow
+     */
+    hash: string;
+}
+
+export interface AddHashResponse extends BaseResponse {}
+
+export interface AddHashParams {
+    type: "addhash";
+    hash: string;
+}
+
+export interface ResetHashResponse extends BaseResponse {}
+
+export interface ResetHashParams {
+    type: "resethash";
+}
+
+export interface AppService {
+    /**
+     * Get the settings of the application
+     *
+     * @see https://keyauth.readme.io/reference/get-settings
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<GetAppSettingsResponse>} {@link GetAppSettingsResponse} - The promise response with the settings of the application
+     */
+    getSettings: (options?: RequestOptions) => Promise<GetAppSettingsResponse>;
+    /**
+     * Change the settings of the application, only the settings that are passed are sent.
+     *
+     * @see https://keyauth.readme.io/reference/update-settings
+     *
+     * @param {UpdateAppSettings} `data` - The settings to change
+     * @param {UpdateAppSettings['version']} [data.version] - The version `ClientApi.init` has to send as `ver`
+     * @param {UpdateAppSettings['messages']} [data.messages] - The custom messages to change
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateAppSettingsResponse>} {@link UpdateAppSettingsResponse} - The promise response from updating the settings
+     */
+    updateSettings: (
+        data: UpdateAppSettings,
+        options?: RequestOptions,
+    ) => Promise<UpdateAppSettingsResponse>;
+    /**
+     * Pause the application, every user subscription is paused until the application is unpaused
+     *
+     * @see https://keyauth.readme.io/reference/pause-application
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<PauseAppResponse>} {@link PauseAppResponse} - The promise response from pausing the application
+     */
+    pause: (options?: RequestOptions) => Promise<PauseAppResponse>;
+    /**
+     * Unpause the application
+     *
+     * @see https://keyauth.readme.io/reference/unpause-application
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UnpauseAppResponse>} {@link UnpauseAppResponse} - The promise response from unpausing the application
+     */
+    unpause: (options?: RequestOptions) => Promise<UnpauseAppResponse>;
+    /**
+     * Add a program hash that passes the hash check.
+     *
+     * @see https://keyauth.readme.io/reference/add-hash
+     *
+     * @param {AddHash} `data` - All the params needed to add a hash
+     * @param {AddHash['hash']} `data.hash` - The md5 hash of the program to allow
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<AddHashResponse>} {@link AddHashResponse} - The promise response from adding a hash
+     */
+    addHash: (
+        data: AddHash,
+        options?: RequestOptions,
+    ) => Promise<AddHashResponse>;
+    /**
+     * Remove every program hash, the next program that runs `init` is stored as the hash
+     *
+     * @see https://keyauth.readme.io/reference/reset-hash
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<ResetHashResponse>} {@link ResetHashResponse} - The promise response from resetting the hash
+     */
+    resetHash: (options?: RequestOptions) => Promise<ResetHashResponse>;
+}
@@ -0,0 +1,137 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * What a blacklist entry blocks
+ */
+export type BlacklistType = "ip" | "hwid";
+
+/**
+ * A blacklisted ip or hwid
+ */
+export interface BlacklistEntry {
+    /**
+     * If the entry blocks an ip or a hwid
+     */
+    type: BlacklistType;
+    /**
+     * The blacklisted ip or hwid
+     */
+    value: string;
+    /**
+     * Why the ip or hwid was blacklisted
+     */
+    reason: string;
+}
+
+export interface AddBlacklist {
+    /**
+     * If to blacklist an ip or a hwid
+     */
+    type: BlacklistType;
+    /**
+     * The ip or hwid to blacklist
+     */
+    value: string;
+    /**
+     * [Default `Blacklisted via KeyAuthJS/Seller client`] Why the ip or hwid is blacklisted
+     */
+    reason?: "Blacklisted via KeyAuthJS/Seller client" | (string & {});
+}
+
+export interface AddBlacklistResponse extends BaseResponse {}
+
+export interface AddBlacklistParams {
+    type: "black";
+    ip?: string;
+    hwid?: string;
+    reason: string;
+}
+
+export interface DeleteBlacklist {
+    /**
+     * If the entry blocks an ip or a hwid
+     */
+    type: BlacklistType;
+    /**
+     * The ip or hwid to remove from the blacklist
+     */
+    value: string;
+}
+
+export interface DeleteBlacklistResponse extends BaseResponse {}
+
+export interface DeleteBlacklistParams {
+    type: "delblack";
+    data: string;
+    blacktype: BlacklistType;
+}
+
+export interface FetchAllBlacklistsResponse extends BaseResponse {
+    blacklists: BlacklistEntry[];
+}
+
+export interface FetchAllBlacklistsParams {
+    type: "fetchallblacks";
+}
+
+export interface DeleteAllBlacklistsResponse extends BaseResponse {}
+
+export interface DeleteAllBlacklistsParams {
+    type: "delblacks";
+}
+
+export interface BlacklistService {
+    /**
+     * Blacklist an ip or hwid, it can not be used to log in anymore.
+     *
+     * @see https://keyauth.readme.io/reference/add-blacklist
+     *
+     * @param {AddBlacklist} `data` - All the params needed to blacklist an ip or hwid
+     * @param {AddBlacklist['type']} `data.type` - If to blacklist an ip or a hwid
+     * @param {AddBlacklist['value']} `data.value` - The ip or hwid to blacklist
+     * @param {AddBlacklist['reason']} [data.reason] - [Default `Blacklisted via KeyAuthJS/Seller client`] Why the ip or hwid is blacklisted
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<AddBlacklistResponse>} {@link AddBlacklistResponse} - The promise response from blacklisting an ip or hwid
+     */
+    add: (
+        data: AddBlacklist,
+        options?: RequestOptions,
+    ) => Promise<AddBlacklistResponse>;
+    /**
+     * Remove an ip or hwid from the blacklist.
+     *
+     * @see https://keyauth.readme.io/reference/delete-blacklist
+     *
+     * @param {DeleteBlacklist} `data` - All the params needed to remove an ip or hwid from the blacklist
+     * @param {DeleteBlacklist['type']} `data.type` - If the entry blocks an ip or a hwid
+     * @param {DeleteBlacklist['value']} `data.value` - The ip or hwid to remove from the blacklist
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteBlacklistResponse>} {@link DeleteBlacklistResponse} - The promise response from removing an ip or hwid from the blacklist
+     */
+    delete: (
+        data: DeleteBlacklist,
+        options?: RequestOptions,
+    ) => Promise<DeleteBlacklistResponse>;
+    /**
+     * Fetch every blacklisted ip and hwid
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-blacklists
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllBlacklistsResponse>} {@link FetchAllBlacklistsResponse} - The promise response from fetching the blacklist
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllBlacklistsResponse>;
+    /**
+     * Remove every ip and hwid from the blacklist
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-blacklists
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllBlacklistsResponse>} {@link DeleteAllBlacklistsResponse} - The promise response from clearing the blacklist
+     */
+    deleteAll: (
+        options?: RequestOptions,
+    ) => Promise<DeleteAllBlacklistsResponse>;
+}
@@ -0,0 +1,77 @@
+// Interfaces for various data structures
+
+import { EVENT_TYPE } from "./event";
+
+/**
+ * The endpoints that can be cached
+ */
+export type CacheableType =
+    | EVENT_TYPE.FETCH_ALL_LICENSE
+    | EVENT_TYPE.GET_ALL_USERS_USERNAMES
+    | EVENT_TYPE.GET_GLOBAL_VAR;
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+    /**
+     * The response that was cached
+     */
+    value: any;
+    /**
+     * The unix time in milliseconds the response goes stale
+     */
+    expiresAt: number;
+    /**
+     * The unix time in milliseconds a stale response stops being returned
+     */
+    staleUntil: number;
+}
+
+/**
+ * Where cached responses are kept, every method can return a promise
+ */
+export interface CacheStorage {
+    get: (
+        key: string,
+    ) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    set: (key: string, entry: CacheEntry) => void | Promise<void>;
+    delete: (key: string) => void | Promise<void>;
+    keys: () => string[] | Promise<string[]>;
+}
+
+/**
+ * How long a single endpoint is cached for
+ */
+export interface CacheEndpointOptions {
+    /**
+     * How long in milliseconds a response is fresh
+     */
+    ttl: number;
+    /**
+     * [Default the `staleWhileRevalidate` cache option] How long in milliseconds a stale response is still returned while it is fetched again in the background
+     */
+    staleWhileRevalidate?: number;
+}
+
+/**
+ * Options for caching the responses of read heavy endpoints
+ */
+export interface CacheOptions {
+    /**
+     * [Default `MemoryCacheStorage`] Where cached responses are kept, use `FileCacheStorage` to keep them between restarts
+     */
+    storage?: CacheStorage;
+    /**
+     * [Default `30000`] How long in milliseconds a response is fresh
+     */
+    ttl?: number;
+    /**
+     * [Default `0`] How long in milliseconds a stale response is still returned while it is fetched again in the background
+     */
+    staleWhileRevalidate?: number;
+    /**
+     * The ttl of each endpoint, `false` turns caching off for that endpoint
+     */
+    endpoints?: Partial<Record<CacheableType, CacheEndpointOptions | false>>;
+}
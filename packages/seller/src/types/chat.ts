@@ -0,0 +1,298 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A chat channel of the application
+ */
+export interface ChatChannel {
+    /**
+     * The name of the channel
+     */
+    name: string;
+    /**
+     * How many seconds users have to wait between messages
+     */
+    delay: number;
+}
+
+/**
+ * A user that is muted from chat
+ */
+export interface ChatMute {
+    /**
+     * The username of the muted user
+     */
+    username: string;
+    /**
+     * The unix time the mute ends at
+     */
+    expires: string;
+}
+
+/**
+ * A message sent in a chat channel
+ */
+export interface ChatMessage {
+    author: string;
+    message: string;
+    timestamp: string;
+}
+
+export interface CreateChatChannel {
+    /**
+     * The name of the channel
+     */
+    name: string;
+    /**
+     * [Default `0`] How many seconds users have to wait between messages
+     */
+    delay?: number;
+}
+
+export interface CreateChatChannelResponse extends BaseResponse {}
+
+export interface CreateChatChannelParams {
+    type: "addchannel";
+    name: string;
+    delay: string;
+}
+
+export interface EditChatChannel {
+    /**
+     * The name of the channel to edit
+     */
+    name: string;
+    /**
+     * How many seconds users have to wait between messages
+     */
+    delay: number;
+}
+
+export interface EditChatChannelResponse extends BaseResponse {}
+
+export interface EditChatChannelParams {
+    type: "editchan";
+    name: string;
+    delay: string;
+}
+
+export interface DeleteChatChannel {
+    /**
+     * The name of the channel to delete
+     */
+    name: string;
+}
+
+export interface DeleteChatChannelResponse extends BaseResponse {}
+
+export interface DeleteChatChannelParams {
+    type: "delchannel";
+    name: string;
+}
+
+export interface ClearChatChannel {
+    /**
+     * The name of the channel to remove every message from
+     */
+    name: string;
+}
+
+export interface ClearChatChannelResponse extends BaseResponse {}
+
+export interface ClearChatChannelParams {
+    type: "clearchannel";
+    name: string;
+}
+
+export interface FetchAllChatChannelsResponse extends BaseResponse {
+    channels: ChatChannel[];
+}
+
+export interface FetchAllChatChannelsParams {
+    type: "fetchallchats";
+}
+
+export interface MuteUser {
+    /**
+     * The username of the user to mute
+     */
+    username: string;
+    /**
+     * How many seconds to mute the user for
+     */
+    time: number;
+}
+
+export interface MuteUserResponse extends BaseResponse {}
+
+export interface MuteUserParams {
+    type: "muteuser";
+    user: string;
+    time: string;
+}
+
+export interface UnmuteUser {
+    /**
+     * The username of the user to unmute
+     */
+    username: string;
+}
+
+export interface UnmuteUserResponse extends BaseResponse {}
+
+export interface UnmuteUserParams {
+    type: "unmuteuser";
+    user: string;
+}
+
+export interface FetchAllMutesResponse extends BaseResponse {
+    mutes: ChatMute[];
+}
+
+export interface FetchAllMutesParams {
+    type: "fetchallmutes";
+}
+
+export interface ChatHistory {
+    /**
+     * The name of the channel to get every message of
+     */
+    channel: string;
+}
+
+export interface ChatHistoryResponse extends BaseResponse {
+    messages: ChatMessage[];
+}
+
+export interface ChatHistoryParams {
+    type: "chathistory";
+    channel: string;
+}
+
+export interface ChatService {
+    /**
+     * Anything to do with chat channels
+     */
+    channel: {
+        /**
+         * Create a chat channel.
+         *
+         * @see https://keyauth.readme.io/reference/create-channel
+         *
+         * @param {CreateChatChannel} `data` - All the params needed to create a chat channel
+         * @param {CreateChatChannel['name']} `data.name` - The name of the channel
+         * @param {CreateChatChannel['delay']} [data.delay] - [Default `0`] How many seconds users have to wait between messages
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<CreateChatChannelResponse>} {@link CreateChatChannelResponse} - The promise response from creating a chat channel
+         */
+        create: (
+            data: CreateChatChannel,
+            options?: RequestOptions,
+        ) => Promise<CreateChatChannelResponse>;
+        /**
+         * Change the delay between messages of a chat channel.
+         *
+         * @see https://keyauth.readme.io/reference/edit-channel
+         *
+         * @param {EditChatChannel} `data` - All the params needed to edit a chat channel
+         * @param {EditChatChannel['name']} `data.name` - The name of the channel to edit
+         * @param {EditChatChannel['delay']} `data.delay` - How many seconds users have to wait between messages
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<EditChatChannelResponse>} {@link EditChatChannelResponse} - The promise response from editing a chat channel
+         */
+        edit: (
+            data: EditChatChannel,
+            options?: RequestOptions,
+        ) => Promise<EditChatChannelResponse>;
+        /**
+         * Delete a chat channel.
+         *
+         * @see https://keyauth.readme.io/reference/delete-channel
+         *
+         * @param {DeleteChatChannel} `data` - All the params needed to delete a chat channel
+         * @param {DeleteChatChannel['name']} `data.name` - The name of the channel to delete
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<DeleteChatChannelResponse>} {@link DeleteChatChannelResponse} - The promise response from deleting a chat channel
+         */
+        delete: (
+            data: DeleteChatChannel,
+            options?: RequestOptions,
+        ) => Promise<DeleteChatChannelResponse>;
+        /**
+         * Remove every message from a chat channel.
+         *
+         * @see https://keyauth.readme.io/reference/clear-channel
+         *
+         * @param {ClearChatChannel} `data` - All the params needed to clear a chat channel
+         * @param {ClearChatChannel['name']} `data.name` - The name of the channel to remove every message from
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ClearChatChannelResponse>} {@link ClearChatChannelResponse} - The promise response from clearing a chat channel
+         */
+        clear: (
+            data: ClearChatChannel,
+            options?: RequestOptions,
+        ) => Promise<ClearChatChannelResponse>;
+        /**
+         * Fetch all the chat channels of the application
+         *
+         * @see https://keyauth.readme.io/reference/fetch-all-channels
+         *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<FetchAllChatChannelsResponse>} {@link FetchAllChatChannelsResponse} - The promise response from fetching all chat channels
+         */
+        all: (
+            options?: RequestOptions,
+        ) => Promise<FetchAllChatChannelsResponse>;
+    };
+    /**
+     * Mute a user so they can not send chat messages.
+     *
+     * @see https://keyauth.readme.io/reference/mute-user
+     *
+     * @param {MuteUser} `data` - All the params needed to mute a user
+     * @param {MuteUser['username']} `data.username` - The username of the user to mute
+     * @param {MuteUser['time']} `data.time` - How many seconds to mute the user for
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<MuteUserResponse>} {@link MuteUserResponse} - The promise response from muting a user
+     */
+    mute: (
+        data: MuteUser,
+        options?: RequestOptions,
+    ) => Promise<MuteUserResponse>;
+    /**
+     * Unmute a user.
+     *
+     * @see https://keyauth.readme.io/reference/unmute-user
+     *
+     * @param {UnmuteUser} `data` - All the params needed to unmute a user
+     * @param {UnmuteUser['username']} `data.username` - The username of the user to unmute
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UnmuteUserResponse>} {@link UnmuteUserResponse} - The promise response from unmuting a user
+     */
+    unmute: (
+        data: UnmuteUser,
+        options?: RequestOptions,
+    ) => Promise<UnmuteUserResponse>;
+    /**
+     * Fetch every user that is muted from chat
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-mutes
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllMutesResponse>} {@link FetchAllMutesResponse} - The promise response from fetching all muted users
+     */
+    mutes: (options?: RequestOptions) => Promise<FetchAllMutesResponse>;
+    /**
+     * Fetch every message of a chat channel.
+     *
+     * @param {ChatHistory} `data` - All the params needed to get the history of a chat channel
+     * @param {ChatHistory['channel']} `data.channel` - The name of the channel to get every message of
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<ChatHistoryResponse>} {@link ChatHistoryResponse} - The promise response with every message of the chat channel
+     */
+    history: (
+        data: ChatHistory,
+        options?: RequestOptions,
+    ) => Promise<ChatHistoryResponse>;
+}
@@ -1,6 +1,7 @@
 // Interfaces for various data structures
 
 import { EventType, EventMap } from "./event";
+import { CacheOptions } from "./cache";
 import { keyauthLogger } from "../utils/logger";
 
 /**
@@ -28,6 +29,126 @@ export interface SellerOptions {
      * [Default `{ maxTokens: 10, refillRate: 5000 }`] Override the global rate limit set on the package.
      */
     ratelimit?: { maxTokens: number; refillRate: number };
+    /**
+     * [Default `false`] Reject with a `KeyAuthError` when the api responds with `success: false` or the request fails,
+     * instead of resolving with the failed response.
+     */
+    throwOnError?: boolean;
+    /**
+     * Retry options for requests that failed on a transient error
+     */
+    retry?: RetryOptions;
+    /**
+     * [Default `0`] How long in milliseconds to wait for each attempt before it fails with a `TimeoutError`, `0` turns the timeout off
+     */
+    timeoutMs?: number;
+    /**
+     * [Default `FetchTransport`] The transport used to send requests, use `AxiosTransport` to send them with axios
+     */
+    transport?: Transport;
+    /**
+     * [Default `false`] Cache `license.fetchAll`, `user.allUsernames` and `globalVar.get`, `true` uses the default cache options.
+     * Cached responses do not use a rate limit token and are cleared when a call that changes them succeeds
+     */
+    cache?: CacheOptions | boolean;
+}
+
+/**
+ * A request to send to the keyauth api
+ */
+export interface TransportRequest {
+    /**
+     * The base url of the keyauth api
+     */
+    url: string;
+    /**
+     * The query params for the request, `undefined` params are not sent
+     */
+    params: Record<string, any>;
+    /**
+     * The headers for the request
+     */
+    headers: Record<string, string>;
+    /**
+     * Aborted when the caller aborts or the timeout runs out
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * The raw response from the keyauth api
+ */
+export interface TransportResponse {
+    /**
+     * The HTTP status code
+     */
+    status: number;
+    /**
+     * The response headers with lower case names
+     */
+    headers: Record<string, string>;
+    /**
+     * The raw response body
+     */
+    body: string;
+}
+
+/**
+ * Sends requests to the keyauth api, implement this to send requests your own way
+ */
+export interface Transport {
+    /**
+     * Send a request and resolve with the raw response, reject only when no response was received
+     */
+    send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Options that can be passed to any call as the last argument
+ */
+export interface RequestOptions {
+    /**
+     * Abort the call, it rejects with an `AbortError`
+     */
+    signal?: AbortSignal;
+    /**
+     * Override the `timeoutMs` seller option for this call
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Options for retrying requests that failed on a transient error
+ */
+export interface RetryOptions {
+    /**
+     * [Default `3`] How many times to send a request in total, `1` turns retrying off
+     */
+    maxAttempts?: number;
+    /**
+     * [Default `500`] The delay in milliseconds before the first retry, this doubles every attempt
+     */
+    baseDelay?: number;
+    /**
+     * [Default `10000`] The longest delay in milliseconds between attempts
+     */
+    maxDelay?: number;
+    /**
+     * [Default `true`] Pick a random delay between 0 and the backoff delay so clients do not retry at the same time
+     */
+    jitter?: boolean;
+    /**
+     * [Default `[TransportError, RateLimitedError]`] The error classes that can be retried
+     */
+    retryOn?: Array<abstract new (...args: any[]) => Error>;
+    /**
+     * [Default `[408, 429, 500, 502, 503, 504]`] The HTTP statuses that can be retried, errors without a status are always retried
+     */
+    retryStatuses?: number[];
+    /**
+     * [Default `false`] Also retry requests that create something like `license.create`, `user.create` and `user.extend`
+     */
+    retryNonIdempotent?: boolean;
 }
 
 /**
@@ -50,6 +171,14 @@ export interface MakeRequest {
      * [Default `false`] Skip sending the error response to the error event emitter
      */
     skipError?: boolean;
+    /**
+     * [Default `1`] The attempt number of the request
+     */
+    attempt?: number;
+    /**
+     * The signal and timeout passed to the call
+     */
+    requestOptions?: RequestOptions;
 }
 
 /**
@@ -75,5 +204,9 @@ export interface RequestResponse<EType extends EventType> {
         url: string;
         params: Record<string, any>;
     };
+    /**
+     * The attempt number of the request, starting at 1
+     */
+    attempt: number;
     response: EventMap[EType];
 }
@@ -4,6 +4,7 @@ import { BaseResponse, RequestResponse } from "./client";
 import {
     AddTimeToUnusedLicenseResponse,
     BanLicenseResponse,
+    BulkProgress,
     CreateLicenseResponse,
     CreateUserFromLicenseResponse,
     DeleteAllLicenseResponse,
@@ -33,6 +34,7 @@ import {
     DeleteAllUsersResponse,
     ResetAllUsersHWIDResponse,
     VerifyUserExistsResponse,
+    FetchAllUsersResponse,
     AddHWIDToUserResponse,
     ResetUserPasswordResponse,
     ChangeUsersEmailResponse,
@@ -44,6 +46,80 @@ import {
     ExtendUsersSubResponse,
     DeleteUsersVarResponse,
 } from "./user";
+import {
+    CreateSubscriptionResponse,
+    DeleteSubscriptionResponse,
+    EditSubscriptionResponse,
+    FetchAllSubscriptionsResponse,
+    PauseSubscriptionResponse,
+    UnpauseSubscriptionResponse,
+} from "./subscription";
+import {
+    CreateGlobalVarResponse,
+    DeleteAllGlobalVarsResponse,
+    DeleteGlobalVarResponse,
+    FetchAllGlobalVarsResponse,
+    GetGlobalVarResponse,
+    UpdateGlobalVarResponse,
+} from "./globalVar";
+import {
+    DeleteAllFilesResponse,
+    DeleteFileResponse,
+    EditFileResponse,
+    FetchAllFilesResponse,
+    UploadFileResponse,
+} from "./file";
+import {
+    ChatHistoryResponse,
+    ClearChatChannelResponse,
+    CreateChatChannelResponse,
+    DeleteChatChannelResponse,
+    EditChatChannelResponse,
+    FetchAllChatChannelsResponse,
+    FetchAllMutesResponse,
+    MuteUserResponse,
+    UnmuteUserResponse,
+} from "./chat";
+import {
+    AddBlacklistResponse,
+    DeleteAllBlacklistsResponse,
+    DeleteBlacklistResponse,
+    FetchAllBlacklistsResponse,
+} from "./blacklist";
+import {
+    AddWhitelistResponse,
+    DeleteAllWhitelistsResponse,
+    DeleteWhitelistResponse,
+    FetchAllWhitelistsResponse,
+} from "./whitelist";
+import {
+    FetchAllSessionsResponse,
+    KillAllSessionsResponse,
+    KillSessionResponse,
+} from "./session";
+import {
+    CreateWebhookResponse,
+    DeleteAllWebhooksResponse,
+    DeleteWebhookResponse,
+    FetchAllWebhooksResponse,
+} from "./webhook";
+import {
+    AddHashResponse,
+    GetAppSettingsResponse,
+    PauseAppResponse,
+    ResetHashResponse,
+    UnpauseAppResponse,
+    UpdateAppSettingsResponse,
+} from "./app";
+import { DeleteAllLogsResponse, FetchAllLogsResponse } from "./logs";
+import { ExportResponse, ImportResponse } from "./transfer";
+import { QueryResponse } from "./query";
+import {
+    CreateAccountResponse,
+    DeleteAccountResponse,
+    FetchAllAccountsResponse,
+    SetAccountBalanceResponse,
+} from "./account";
 
 /**
  * All the event types
@@ -77,6 +153,7 @@ export type EventType =
     | "delallusers"
     | "resetalluser"
     | "verifyuser"
+    | "fetchallusers"
     | "addhwiduser"
     | "resetpw"
     | "editemail"
@@ -88,7 +165,64 @@ export type EventType =
     | "deluservar"
     | "subtract"
     | "countsubs"
+    | "addsub"
+    | "editsub"
+    | "delappsub"
+    | "fetchallsubs"
+    | "pausesub"
+    | "unpausesub"
+    | "addvar"
+    | "editvar"
+    | "delvar"
+    | "retrvvar"
+    | "fetchallvars"
+    | "delallvars"
+    | "upload"
+    | "fetchallfiles"
+    | "delfile"
+    | "delallfiles"
+    | "editfile"
+    | "addchannel"
+    | "editchan"
+    | "delchannel"
+    | "clearchannel"
+    | "fetchallchats"
+    | "muteuser"
+    | "unmuteuser"
+    | "fetchallmutes"
+    | "chathistory"
+    | "black"
+    | "delblack"
+    | "fetchallblacks"
+    | "delblacks"
+    | "addWhite"
+    | "delWhite"
+    | "fetchallwhites"
+    | "delwhites"
+    | "fetchallsessions"
+    | "kill"
+    | "killall"
+    | "addwebhook"
+    | "delwebhook"
+    | "fetchallwebhooks"
+    | "delallwebhooks"
+    | "getsettings"
+    | "updatesettings"
+    | "pauseapp"
+    | "unpauseapp"
+    | "addhash"
+    | "resethash"
+    | "fetchalllogs"
+    | "dellogs"
+    | "addacc"
+    | "delacc"
+    | "fetchallaccs"
+    | "setbalance"
     // Added custom types
+    | "bulkprogress"
+    | "export"
+    | "import"
+    | "query"
     | "ratelimit"
     | "instance"
     | "request"
@@ -127,6 +261,7 @@ export enum EVENT_TYPE {
     DELETE_ALL_USERS = "delallusers",
     RESET_ALL_USERS_HWID = "resetalluser",
     VERIFY_USER_EXISTS = "verifyuser",
+    FETCH_ALL_USERS = "fetchallusers",
     ADD_USER_HWID = "addhwiduser",
     RESET_USER_PASSWORD = "resetpw",
     CHANGE_USER_EMAIL = "editemail",
@@ -138,13 +273,83 @@ export enum EVENT_TYPE {
     DELETE_USER_VAR = "deluservar",
     SUBTRACT_USER_SUB = "subtract",
     COUNT_SUBS = "countsubs",
+    CREATE_SUBSCRIPTION = "addsub",
+    EDIT_SUBSCRIPTION = "editsub",
+    DELETE_SUBSCRIPTION = "delappsub",
+    FETCH_ALL_SUBSCRIPTIONS = "fetchallsubs",
+    PAUSE_SUBSCRIPTION = "pausesub",
+    UNPAUSE_SUBSCRIPTION = "unpausesub",
+    CREATE_GLOBAL_VAR = "addvar",
+    UPDATE_GLOBAL_VAR = "editvar",
+    DELETE_GLOBAL_VAR = "delvar",
+    GET_GLOBAL_VAR = "retrvvar",
+    FETCH_ALL_GLOBAL_VARS = "fetchallvars",
+    DELETE_ALL_GLOBAL_VARS = "delallvars",
+    UPLOAD_FILE = "upload",
+    FETCH_ALL_FILES = "fetchallfiles",
+    DELETE_FILE = "delfile",
+    DELETE_ALL_FILES = "delallfiles",
+    EDIT_FILE = "editfile",
+    CREATE_CHAT_CHANNEL = "addchannel",
+    EDIT_CHAT_CHANNEL = "editchan",
+    DELETE_CHAT_CHANNEL = "delchannel",
+    CLEAR_CHAT_CHANNEL = "clearchannel",
+    FETCH_ALL_CHAT_CHANNELS = "fetchallchats",
+    MUTE_USER = "muteuser",
+    UNMUTE_USER = "unmuteuser",
+    FETCH_ALL_MUTES = "fetchallmutes",
+    CHAT_HISTORY = "chathistory",
+    ADD_BLACKLIST = "black",
+    DELETE_BLACKLIST = "delblack",
+    FETCH_ALL_BLACKLISTS = "fetchallblacks",
+    DELETE_ALL_BLACKLISTS = "delblacks",
+    ADD_WHITELIST = "addWhite",
+    DELETE_WHITELIST = "delWhite",
+    FETCH_ALL_WHITELISTS = "fetchallwhites",
+    DELETE_ALL_WHITELISTS = "delwhites",
+    FETCH_ALL_SESSIONS = "fetchallsessions",
+    KILL_SESSION = "kill",
+    KILL_ALL_SESSIONS = "killall",
+    CREATE_WEBHOOK = "addwebhook",
+    DELETE_WEBHOOK = "delwebhook",
+    FETCH_ALL_WEBHOOKS = "fetchallwebhooks",
+    DELETE_ALL_WEBHOOKS = "delallwebhooks",
+    GET_APP_SETTINGS = "getsettings",
+    UPDATE_APP_SETTINGS = "updatesettings",
+    PAUSE_APP = "pauseapp",
+    UNPAUSE_APP = "unpauseapp",
+    ADD_HASH = "addhash",
+    RESET_HASH = "resethash",
+    FETCH_ALL_LOGS = "fetchalllogs",
+    DELETE_ALL_LOGS = "dellogs",
+    CREATE_ACCOUNT = "addacc",
+    DELETE_ACCOUNT = "delacc",
+    FETCH_ALL_ACCOUNTS = "fetchallaccs",
+    SET_ACCOUNT_BALANCE = "setbalance",
     // Added custom types
     INSTANCE = "instance",
     REQUEST = "request",
     RESPONSE = "response",
     ERROR = "error",
     RATE_LIMIT = "ratelimit",
+    BULK_PROGRESS = "bulkprogress",
+    EXPORT = "export",
+    IMPORT = "import",
+    QUERY = "query",
 }
+/**
+ * All the error codes that can be attached to an error
+ */
+export enum ERROR_CODE {
+    K_U = "unknown",
+    K_ISK = "invalidSellerKey",
+    K_RL = "rateLimited",
+    K_T = "transportError",
+    K_TO = "timeout",
+    K_A = "aborted",
+    K_IP = "invalidParams",
+}
+
 export class KeyauthSellerEventEmitter extends (EventEmitter as new () => TypedEmitter<EventMap>) {
     constructor() {
         super();
@@ -162,11 +367,15 @@ export type EventMap = {
     error: (data: {
         success: false;
         message: string;
-        errorCode: string;
+        errorCode: ERROR_CODE;
         type: EventType;
     }) => void;
     instance: (data: BaseResponse) => void;
     ratelimit: (data: BaseResponse) => void;
+    bulkprogress: (data: BulkProgress) => void;
+    export: (data: ExportResponse) => void;
+    import: (data: ImportResponse) => void;
+    query: (data: QueryResponse<object>) => void;
     verify: (data: VerifyLicenseResponse) => void;
     activate: (data: CreateUserFromLicenseResponse) => void;
     del: (data: DeleteLicenseResponse) => void;
@@ -194,6 +403,7 @@ export type EventMap = {
     delallusers: (data: DeleteAllUsersResponse) => void;
     resetalluser: (data: ResetAllUsersHWIDResponse) => void;
     verifyuser: (data: VerifyUserExistsResponse) => void;
+    fetchallusers: (data: FetchAllUsersResponse) => void;
     addhwiduser: (data: AddHWIDToUserResponse) => void;
     resetpw: (data: ResetUserPasswordResponse) => void;
     editemail: (data: ChangeUsersEmailResponse) => void;
@@ -205,4 +415,57 @@ export type EventMap = {
     extend: (data: ExtendUsersSubResponse) => void;
     deluservar: (data: DeleteUsersVarResponse) => void;
     subtract: (data: DeleteUsersSubResponse) => void;
+    addsub: (data: CreateSubscriptionResponse) => void;
+    editsub: (data: EditSubscriptionResponse) => void;
+    delappsub: (data: DeleteSubscriptionResponse) => void;
+    fetchallsubs: (data: FetchAllSubscriptionsResponse) => void;
+    pausesub: (data: PauseSubscriptionResponse) => void;
+    unpausesub: (data: UnpauseSubscriptionResponse) => void;
+    addvar: (data: CreateGlobalVarResponse) => void;
+    editvar: (data: UpdateGlobalVarResponse) => void;
+    delvar: (data: DeleteGlobalVarResponse) => void;
+    retrvvar: (data: GetGlobalVarResponse) => void;
+    fetchallvars: (data: FetchAllGlobalVarsResponse) => void;
+    delallvars: (data: DeleteAllGlobalVarsResponse) => void;
+    upload: (data: UploadFileResponse) => void;
+    fetchallfiles: (data: FetchAllFilesResponse) => void;
+    delfile: (data: DeleteFileResponse) => void;
+    delallfiles: (data: DeleteAllFilesResponse) => void;
+    editfile: (data: EditFileResponse) => void;
+    addchannel: (data: CreateChatChannelResponse) => void;
+    editchan: (data: EditChatChannelResponse) => void;
+    delchannel: (data: DeleteChatChannelResponse) => void;
+    clearchannel: (data: ClearChatChannelResponse) => void;
+    fetchallchats: (data: FetchAllChatChannelsResponse) => void;
+    muteuser: (data: MuteUserResponse) => void;
+    unmuteuser: (data: UnmuteUserResponse) => void;
+    fetchallmutes: (data: FetchAllMutesResponse) => void;
+    chathistory: (data: ChatHistoryResponse) => void;
+    black: (data: AddBlacklistResponse) => void;
+    delblack: (data: DeleteBlacklistResponse) => void;
+    fetchallblacks: (data: FetchAllBlacklistsResponse) => void;
+    delblacks: (data: DeleteAllBlacklistsResponse) => void;
+    addWhite: (data: AddWhitelistResponse) => void;
+    delWhite: (data: DeleteWhitelistResponse) => void;
+    fetchallwhites: (data: FetchAllWhitelistsResponse) => void;
+    delwhites: (data: DeleteAllWhitelistsResponse) => void;
+    fetchallsessions: (data: FetchAllSessionsResponse) => void;
+    kill: (data: KillSessionResponse) => void;
+    killall: (data: KillAllSessionsResponse) => void;
+    addwebhook: (data: CreateWebhookResponse) => void;
+    delwebhook: (data: DeleteWebhookResponse) => void;
+    fetchallwebhooks: (data: FetchAllWebhooksResponse) => void;
+    delallwebhooks: (data: DeleteAllWebhooksResponse) => void;
+    getsettings: (data: GetAppSettingsResponse) => void;
+    updatesettings: (data: UpdateAppSettingsResponse) => void;
+    pauseapp: (data: PauseAppResponse) => void;
+    unpauseapp: (data: UnpauseAppResponse) => void;
+    addhash: (data: AddHashResponse) => void;
+    resethash: (data: ResetHashResponse) => void;
+    fetchalllogs: (data: FetchAllLogsResponse) => void;
+    dellogs: (data: DeleteAllLogsResponse) => void;
+    addacc: (data: CreateAccountResponse) => void;
+    delacc: (data: DeleteAccountResponse) => void;
+    fetchallaccs: (data: FetchAllAccountsResponse) => void;
+    setbalance: (data: SetAccountBalanceResponse) => void;
 };
@@ -0,0 +1,171 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A file of the application
+ */
+export interface FileInfo {
+    /**
+     * The id users download the file with `ClientApi.download`
+     */
+    fileId: string;
+    /**
+     * The name of the file
+     */
+    name: string;
+    /**
+     * The url the file was uploaded from
+     */
+    url: string;
+    /**
+     * The size of the file
+     */
+    size: string;
+    /**
+     * If users have to be logged in to download the file
+     */
+    authenticatedOnly: boolean;
+}
+
+export interface UploadFile {
+    /**
+     * The direct download url of the file, keyauth downloads the file from here
+     */
+    url: string;
+    /**
+     * [Default `true`] If users have to be logged in to download the file
+     */
+    authenticatedOnly?: boolean;
+}
+
+export interface UploadFileResponse extends BaseResponse {
+    /**
+     * The id users download the file with `ClientApi.download`
+     */
+    fileId?: string;
+}
+
+export interface UploadFileParams {
+    type: "upload";
+    url: string;
+    authed: "0" | "1";
+}
+
+export interface FetchAllFilesResponse extends BaseResponse {
+    files: FileInfo[];
+}
+
+export interface FetchAllFilesParams {
+    type: "fetchallfiles";
+}
+
+export interface DeleteFile {
+    /**
+     * The id of the file to delete
+     */
+    fileId: string;
+}
+
+export interface DeleteFileResponse extends BaseResponse {}
+
+export interface DeleteFileParams {
+    type: "delfile";
+    fileid: string;
+}
+
+export interface DeleteAllFilesResponse extends BaseResponse {}
+
+export interface DeleteAllFilesParams {
+    type: "delallfiles";
+}
+
+export interface EditFile {
+    /**
+     * The id of the file to edit
+     */
+    fileId: string;
+    /**
+     * The new direct download url of the file
+     */
+    url: string;
+    /**
+     * [Default `true`] If users have to be logged in to download the file
+     */
+    authenticatedOnly?: boolean;
+}
+
+export interface EditFileResponse extends BaseResponse {}
+
+export interface EditFileParams {
+    type: "editfile";
+    id: string;
+    url: string;
+    authed: "0" | "1";
+}
+
+export interface FileService {
+    /**
+     * Upload a file from a url.
+     *
+     * @see https://keyauth.readme.io/reference/upload-file
+     *
+     * @param {UploadFile} `data` - All the params needed to upload a file
+     * @param {UploadFile['url']} `data.url` - The direct download url of the file, keyauth downloads the file from here
+     * @param {UploadFile['authenticatedOnly']} [data.authenticatedOnly] - [Default `true`] If users have to be logged in to download the file
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UploadFileResponse>} {@link UploadFileResponse} - The promise response from uploading a file with the `fileId` to download it with
+     */
+    upload: (
+        data: UploadFile,
+        options?: RequestOptions,
+    ) => Promise<UploadFileResponse>;
+    /**
+     * Fetch all the files of the application
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-files
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllFilesResponse>} {@link FetchAllFilesResponse} - The promise response from fetching all files
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllFilesResponse>;
+    /**
+     * Delete a file.
+     *
+     * @see https://keyauth.readme.io/reference/delete-file
+     *
+     * @param {DeleteFile} `data` - All the params needed to delete a file
+     * @param {DeleteFile['fileId']} `data.fileId` - The id of the file to delete
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteFileResponse>} {@link DeleteFileResponse} - The promise response from deleting a file
+     */
+    delete: (
+        data: DeleteFile,
+        options?: RequestOptions,
+    ) => Promise<DeleteFileResponse>;
+    /**
+     * Delete all the files of the application
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-files
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllFilesResponse>} {@link DeleteAllFilesResponse} - The promise response from deleting all files
+     */
+    deleteAll: (options?: RequestOptions) => Promise<DeleteAllFilesResponse>;
+    /**
+     * Change the url of a file and if users have to be logged in to download it.
+     *
+     * @see https://keyauth.readme.io/reference/edit-file
+     *
+     * @param {EditFile} `data` - All the params needed to edit a file
+     * @param {EditFile['fileId']} `data.fileId` - The id of the file to edit
+     * @param {EditFile['url']} `data.url` - The new direct download url of the file
+     * @param {EditFile['authenticatedOnly']} [data.authenticatedOnly] - [Default `true`] If users have to be logged in to download the file
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<EditFileResponse>} {@link EditFileResponse} - The promise response from editing a file
+     */
+    edit: (
+        data: EditFile,
+        options?: RequestOptions,
+    ) => Promise<EditFileResponse>;
+}
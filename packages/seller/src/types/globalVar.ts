@@ -0,0 +1,193 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A global variable of the application
+ */
+export interface GlobalVar {
+    /**
+     * The name of the variable
+     */
+    varId: string;
+    /**
+     * The value of the variable
+     */
+    data: string;
+    /**
+     * If users have to be logged in to read the variable
+     */
+    authenticatedOnly: boolean;
+}
+
+export interface CreateGlobalVar {
+    /**
+     * The name of the variable
+     */
+    varName: string;
+    /**
+     * The value of the variable
+     */
+    varData: string;
+    /**
+     * [Default `true`] If users have to be logged in to read the variable
+     */
+    authenticatedOnly?: boolean;
+}
+
+export interface CreateGlobalVarResponse extends BaseResponse {}
+
+export interface CreateGlobalVarParams {
+    type: "addvar";
+    name: string;
+    data: string;
+    authed: "0" | "1";
+}
+
+export interface UpdateGlobalVar {
+    /**
+     * The name of the variable to update
+     */
+    varName: string;
+    /**
+     * The new value of the variable
+     */
+    varData: string;
+}
+
+export interface UpdateGlobalVarResponse extends BaseResponse {}
+
+export interface UpdateGlobalVarParams {
+    type: "editvar";
+    varid: string;
+    data: string;
+}
+
+export interface DeleteGlobalVar {
+    /**
+     * The name of the variable to delete
+     */
+    varName: string;
+}
+
+export interface DeleteGlobalVarResponse extends BaseResponse {}
+
+export interface DeleteGlobalVarParams {
+    type: "delvar";
+    name: string;
+}
+
+export interface GetGlobalVar {
+    /**
+     * The name of the variable to get
+     */
+    varName: string;
+}
+
+export interface GetGlobalVarResponse extends BaseResponse {
+    /**
+     * The value of the variable
+     */
+    response: string;
+}
+
+export interface GetGlobalVarParams {
+    type: "retrvvar";
+    name: string;
+}
+
+export interface FetchAllGlobalVarsResponse extends BaseResponse {
+    vars: GlobalVar[];
+}
+
+export interface FetchAllGlobalVarsParams {
+    type: "fetchallvars";
+}
+
+export interface DeleteAllGlobalVarsResponse extends BaseResponse {}
+
+export interface DeleteAllGlobalVarsParams {
+    type: "delallvars";
+}
+
+export interface GlobalVarService {
+    /**
+     * Create a global variable.
+     *
+     * @see https://keyauth.readme.io/reference/create-variable
+     *
+     * @param {CreateGlobalVar} `data` - All the params needed to create a global variable
+     * @param {CreateGlobalVar['varName']} `data.varName` - The name of the variable
+     * @param {CreateGlobalVar['varData']} `data.varData` - The value of the variable
+     * @param {CreateGlobalVar['authenticatedOnly']} [data.authenticatedOnly] - [Default `true`] If users have to be logged in to read the variable
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<CreateGlobalVarResponse>} {@link CreateGlobalVarResponse} - The promise response from creating a global variable
+     */
+    create: (
+        data: CreateGlobalVar,
+        options?: RequestOptions,
+    ) => Promise<CreateGlobalVarResponse>;
+    /**
+     * Change the value of a global variable.
+     *
+     * @see https://keyauth.readme.io/reference/edit-variable
+     *
+     * @param {UpdateGlobalVar} `data` - All the params needed to update a global variable
+     * @param {UpdateGlobalVar['varName']} `data.varName` - The name of the variable to update
+     * @param {UpdateGlobalVar['varData']} `data.varData` - The new value of the variable
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UpdateGlobalVarResponse>} {@link UpdateGlobalVarResponse} - The promise response from updating a global variable
+     */
+    update: (
+        data: UpdateGlobalVar,
+        options?: RequestOptions,
+    ) => Promise<UpdateGlobalVarResponse>;
+    /**
+     * Delete a global variable.
+     *
+     * @see https://keyauth.readme.io/reference/delete-variable
+     *
+     * @param {DeleteGlobalVar} `data` - All the params needed to delete a global variable
+     * @param {DeleteGlobalVar['varName']} `data.varName` - The name of the variable to delete
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteGlobalVarResponse>} {@link DeleteGlobalVarResponse} - The promise response from deleting a global variable
+     */
+    delete: (
+        data: DeleteGlobalVar,
+        options?: RequestOptions,
+    ) => Promise<DeleteGlobalVarResponse>;
+    /**
+     * Get the value of a global variable.
+     *
+     * @see https://keyauth.readme.io/reference/retrieve-variable
+     *
+     * @param {GetGlobalVar} `data` - All the params needed to get a global variable
+     * @param {GetGlobalVar['varName']} `data.varName` - The name of the variable to get
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<GetGlobalVarResponse>} {@link GetGlobalVarResponse} - The promise response from getting a global variable
+     */
+    get: (
+        data: GetGlobalVar,
+        options?: RequestOptions,
+    ) => Promise<GetGlobalVarResponse>;
+    /**
+     * Fetch all the global variables of the application
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-variables
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllGlobalVarsResponse>} {@link FetchAllGlobalVarsResponse} - The promise response from fetching all global variables
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllGlobalVarsResponse>;
+    /**
+     * Delete all the global variables of the application
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-variables
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllGlobalVarsResponse>} {@link DeleteAllGlobalVarsResponse} - The promise response from deleting all global variables
+     */
+    deleteAll: (
+        options?: RequestOptions,
+    ) => Promise<DeleteAllGlobalVarsResponse>;
+}
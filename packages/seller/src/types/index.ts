@@ -1,5 +1,19 @@
 // Interfaces for various data structures
+export * from "./account";
+export * from "./app";
+export * from "./blacklist";
+export * from "./cache";
+export * from "./chat";
 export * from "./client";
 export * from "./event";
+export * from "./file";
+export * from "./globalVar";
 export * from "./license";
+export * from "./logs";
+export * from "./session";
+export * from "./query";
+export * from "./subscription";
+export * from "./transfer";
 export * from "./user";
+export * from "./webhook";
+export * from "./whitelist";
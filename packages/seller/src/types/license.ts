@@ -1,7 +1,8 @@
 // Interfaces for various data structures
 
-import { BaseResponse } from "./client";
+import { BaseResponse, RequestOptions } from "./client";
 import { Info } from "./user";
+import { LicenseEntry, LicenseQuery, QueryResponse } from "./query";
 
 export interface CreateLicense
     extends Omit<
@@ -341,6 +342,188 @@ export interface GetLicenseInfoParams {
     key: string;
 }
 
+/**
+ * The license calls that can be run in bulk, by keyauth request type
+ */
+export type BulkLicenseType = "ban" | "unban" | "setnote" | "info" | "verify";
+
+/**
+ * Where a bulk call got to, pass it back as `checkpoint` to carry on from there
+ */
+export interface BulkCheckpoint {
+    /**
+     * The bulk call the checkpoint belongs to
+     */
+    type: BulkLicenseType;
+    /**
+     * Every license that was sent successfully, failed licenses are left out so a resume sends them again
+     */
+    processed: string[];
+}
+
+/**
+ * Options that can be passed to any bulk call as the last argument
+ */
+export interface BulkOptions extends RequestOptions {
+    /**
+     * [Default `5`] How many requests can be sent at the same time, they still wait on the rate limiter
+     */
+    concurrency?: number;
+    /**
+     * The checkpoint of an earlier run, the licenses that succeeded in it are skipped
+     */
+    checkpoint?: BulkCheckpoint;
+}
+
+/**
+ * The result of a single license in a bulk call
+ */
+export interface BulkItemResult<T extends BaseResponse> {
+    license: string;
+    success: boolean;
+    message: string;
+    /**
+     * The response keyauth sent, missing when the request threw
+     */
+    response?: T;
+    /**
+     * The error the request threw, only set when `throwOnError` is enabled or the request failed to send
+     */
+    error?: Error;
+}
+
+/**
+ * The progress of a bulk call, emitted after every license
+ */
+export interface BulkProgress<T extends BaseResponse = BaseResponse> {
+    type: BulkLicenseType;
+    /**
+     * The result of the license that was just processed
+     */
+    item: BulkItemResult<T>;
+    /**
+     * How many licenses are processed including the ones skipped by the checkpoint
+     */
+    completed: number;
+    /**
+     * How many licenses failed in this run
+     */
+    failed: number;
+    total: number;
+    /**
+     * The checkpoint to resume from, the same object is updated after every license so save it with `JSON.stringify`
+     */
+    checkpoint: BulkCheckpoint;
+}
+
+export interface BulkResult<T extends BaseResponse> {
+    /**
+     * If every license in this run was successful
+     */
+    success: boolean;
+    total: number;
+    succeeded: number;
+    failed: number;
+    /**
+     * How many licenses were skipped as they already succeeded in the checkpoint
+     */
+    skipped: number;
+    /**
+     * The result of every license sent in this run, in the order they finished
+     */
+    results: BulkItemResult<T>[];
+    /**
+     * The checkpoint with every license that succeeded, including the ones from the checkpoint passed in
+     */
+    checkpoint: BulkCheckpoint;
+}
+
+export interface BulkLicenses {
+    /**
+     * The license keys to run the call for
+     */
+    licenses: string[];
+}
+
+export interface BulkBanLicense
+    extends BulkLicenses,
+        Omit<BanLicense, "license"> {}
+
+export interface BulkSetLicenseNote
+    extends BulkLicenses,
+        Omit<SetLicenseNote, "license"> {}
+
+export interface BulkLicenseService {
+    /**
+     * Ban a list of license keys.
+     *
+     * @param {BulkBanLicense} `data` - All the params needed to ban the license keys
+     * @param {BulkBanLicense['licenses']} `data.licenses` - The license keys you would like to ban
+     * @param {BulkBanLicense['reason']} `data.reason` - The reason for banning the license keys
+     * @param {BulkBanLicense['banUserToo']} [data.banUserToo] - [Default `false`] If to ban the users attached to the license keys
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout for this call.
+     * @returns {Promise<BulkResult<BanLicenseResponse>>} {@link BulkResult} - The result of every license key
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     */
+    ban: (
+        data: BulkBanLicense,
+        options?: BulkOptions,
+    ) => Promise<BulkResult<BanLicenseResponse>>;
+    /**
+     * Unban a list of license keys.
+     *
+     * @param {BulkLicenses} `data` - All the params needed to unban the license keys
+     * @param {BulkLicenses['licenses']} `data.licenses` - The license keys you would like to unban
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout for this call.
+     * @returns {Promise<BulkResult<UnbanLicenseResponse>>} {@link BulkResult} - The result of every license key
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     */
+    unban: (
+        data: BulkLicenses,
+        options?: BulkOptions,
+    ) => Promise<BulkResult<UnbanLicenseResponse>>;
+    /**
+     * Set the same note for a list of license keys.
+     *
+     * @param {BulkSetLicenseNote} `data` - All the params needed to set the note
+     * @param {BulkSetLicenseNote['licenses']} `data.licenses` - The license keys to set the note for
+     * @param {BulkSetLicenseNote['note']} `data.note` - The note you would like to set
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout for this call.
+     * @returns {Promise<BulkResult<SetLicenseNoteResponse>>} {@link BulkResult} - The result of every license key
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     */
+    setNote: (
+        data: BulkSetLicenseNote,
+        options?: BulkOptions,
+    ) => Promise<BulkResult<SetLicenseNoteResponse>>;
+    /**
+     * Get the info attached to a list of license keys.
+     *
+     * @param {BulkLicenses} `data` - All the params needed to get the info
+     * @param {BulkLicenses['licenses']} `data.licenses` - The license keys you would like the info for
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout for this call.
+     * @returns {Promise<BulkResult<GetLicenseInfoResponse>>} {@link BulkResult} - The result of every license key with its info
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     */
+    getInfo: (
+        data: BulkLicenses,
+        options?: BulkOptions,
+    ) => Promise<BulkResult<GetLicenseInfoResponse>>;
+    /**
+     * Verify a list of license keys exist.
+     *
+     * @param {BulkLicenses} `data` - All the params needed to verify the license keys
+     * @param {BulkLicenses['licenses']} `data.licenses` - The license keys that you would like to verify
+     * @param {BulkOptions} [options] - The concurrency, checkpoint, abort signal and timeout for this call.
+     * @returns {Promise<BulkResult<VerifyLicenseResponse>>} {@link BulkResult} - The result of every license key, unknown keys are failures
+     * @throws {InvalidParamsError} If the concurrency or checkpoint is invalid, no request is sent.
+     */
+    verify: (
+        data: BulkLicenses,
+        options?: BulkOptions,
+    ) => Promise<BulkResult<VerifyLicenseResponse>>;
+}
+
 export interface LicenseService {
     /**
      * Create a single license or multiple.
@@ -355,9 +538,13 @@ export interface LicenseService {
      * @param {CreateLicense['mask']} [data.mask] - [Default `****-***-****`] The license mask to use when genarating the license example of default "Fg2F-6Sf-56Gd".
      * @param {CreateLicense['owner']} [data.owner] - [Default `KeyAuthJS`] Can set to the username of one of your resellers or the program you are sending the request from
      * @param {CreateLicense['note']} [data.note] - [Default `Generated via KeyAuthJS/Seller client`] The note you would like to assign to a license
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<CreateLicenseResponse>} {@link CreateLicenseResponse} - The promise response from creating a license(s)
      */
-    create: (data?: CreateLicense) => Promise<CreateLicenseResponse>;
+    create: (
+        data?: CreateLicense,
+        options?: RequestOptions,
+    ) => Promise<CreateLicenseResponse>;
     /**
      * Verify a license exists
      *
@@ -365,9 +552,13 @@ export interface LicenseService {
      *
      * @param {VerifyLicense} `data` - All the params needed to verify a license key
      * @param {VerifyLicense['license']} `data.license` - The license key that you would like to verify
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<VerifyLicenseResponse>} {@link VerifyLicenseResponse} - The promise response from verify license
      */
-    verify: (data: VerifyLicense) => Promise<VerifyLicenseResponse>;
+    verify: (
+        data: VerifyLicense,
+        options?: RequestOptions,
+    ) => Promise<VerifyLicenseResponse>;
     /**
      * Create a user from a license key
      *
@@ -377,10 +568,13 @@ export interface LicenseService {
      * @param {CreateUserFromLicense['license']} `data.license` - The license key that you would like to suer to create the user
      * @param {CreateUserFromLicense['username']} `data.username` - The username of the new user you would like to create
      * @param {CreateUserFromLicense['password']} `data.password` - The password of the new user you would like tos create
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<CreateUserFromLicenseResponse>} {@link CreateUserFromLicenseResponse} - The promise response from create user from license
      */
     createUser: (
         data: CreateUserFromLicense,
+
+        options?: RequestOptions,
     ) => Promise<CreateUserFromLicenseResponse>;
     /**
      * Here you will find anything to do with license deleting
@@ -394,9 +588,13 @@ export interface LicenseService {
          * @param {DeleteLicense} `data` - All the params needed to delete a license key
          * @param {DeleteLicense['license']} `data.license` - The license key that you would like to delete
          * @param {DeleteLicense['deleteUserToo']} [data.deleteUserToo] - [Default `false`] If to delete the user attached to that key also
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteLicenseResponse>} {@link DeleteLicenseResponse} - The promise response from delete license
          */
-        single: (data: DeleteLicense) => Promise<DeleteLicenseResponse>;
+        single: (
+            data: DeleteLicense,
+            options?: RequestOptions,
+        ) => Promise<DeleteLicenseResponse>;
         /**
          * Delete multiple license keys
          *
@@ -405,44 +603,53 @@ export interface LicenseService {
          * @param {DeleteMultipleLicense} `data` - All the params needed to delete multiple license keys
          * @param {DeleteMultipleLicense['licenses']} `data.licenses` - All the license keys that you would like to delete
          * @param {DeleteMultipleLicense['deleteUserToo']} [data.deleteUserToo] - [Default `false`] If to delete the user attached to the keys also
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteMultipleLicenseResponse>} {@link DeleteMultipleLicenseResponse} - The promise response from delete multiple licenses
          */
         multiple: (
             data: DeleteMultipleLicense,
+
+            options?: RequestOptions,
         ) => Promise<DeleteMultipleLicenseResponse>;
         /**
          * Delete all unused license keys
          *
          * @see https://keyauth.readme.io/reference/delete-unused-licenses
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteUnusedLicenseResponse>} {@link DeleteUnusedLicenseResponse} - The promise response from delete unused licenses
          */
-        unused: () => Promise<DeleteUnusedLicenseResponse>;
+        unused: (
+            options?: RequestOptions,
+        ) => Promise<DeleteUnusedLicenseResponse>;
         /**
          * Delete all used license keys
          *
          * @see https://keyauth.readme.io/reference/delete-used-licenses
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteUsedLicenseResponse>} {@link DeleteUsedLicenseResponse} - The promise response from delete used licenses
          */
-        used: () => Promise<DeleteUsedLicenseResponse>;
+        used: (options?: RequestOptions) => Promise<DeleteUsedLicenseResponse>;
         /**
          * Delete all license keys
          *
          * @see https://keyauth.readme.io/reference/delete-all-licenses
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteAllLicenseResponse>} {@link DeleteAllLicenseResponse} - The promise response from delete all licenses
          */
-        all: () => Promise<DeleteAllLicenseResponse>;
+        all: (options?: RequestOptions) => Promise<DeleteAllLicenseResponse>;
     };
     /**
      * Fetch all license keys
      *
      * @see https://keyauth.readme.io/reference/fetch-all-licenses
      *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<FetchAllLicenseResponse>} {@link FetchAllLicenseResponse} - The promise response from fetching all license keys
      */
-    fetchAll: () => Promise<FetchAllLicenseResponse>;
+    fetchAll: (options?: RequestOptions) => Promise<FetchAllLicenseResponse>;
 
     /**
      * Add time to all unused license keys
@@ -451,10 +658,13 @@ export interface LicenseService {
      *
      * @param {AddTimeToUnusedLicense} `data` - All the params needed to add time to all unused license keys
      * @param {AddTimeToUnusedLicense['time']} `data.time` - The Time to add to all unused license keys
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<AddTimeToUnusedLicenseResponse>} {@link AddTimeToUnusedLicenseResponse} - The promise response from adding time to all unused license keys
      */
     addTime: (
         data: AddTimeToUnusedLicense,
+
+        options?: RequestOptions,
     ) => Promise<AddTimeToUnusedLicenseResponse>;
 
     /**
@@ -466,9 +676,13 @@ export interface LicenseService {
      * @param {BanLicense['license']} `data.license` - The license key you would like to ban
      * @param {BanLicense['reason']} `data.reason` - The reason for banning the user
      * @param {BanLicense['banUserToo']} [data.banUserToo] - [Default `false`] If to ban the user attached to the license
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<BanLicenseResponse>} {@link BanLicenseResponse} - The promise response from banning a license key
      */
-    ban: (data: BanLicense) => Promise<BanLicenseResponse>;
+    ban: (
+        data: BanLicense,
+        options?: RequestOptions,
+    ) => Promise<BanLicenseResponse>;
 
     /**
      * Unban a license key
@@ -477,9 +691,13 @@ export interface LicenseService {
      *
      * @param {UnbanLicense} `data` - All the params needed to unban a license key
      * @param {UnbanLicense['license']} `data.license` - The license key you would like to unban
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<UnbanLicenseResponse>} {@link UnbanLicenseResponse} - The promise response from unbanning a license key
      */
-    unban: (data: UnbanLicense) => Promise<UnbanLicenseResponse>;
+    unban: (
+        data: UnbanLicense,
+        options?: RequestOptions,
+    ) => Promise<UnbanLicenseResponse>;
 
     /**
      * Retrieve a license from a user
@@ -488,10 +706,13 @@ export interface LicenseService {
      *
      * @param {RetrieveLicenseFromUser} `data` - All the params needed to retrieve a license from a user
      * @param {RetrieveLicenseFromUser['username']} `data.username` - The username of the user
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<RetrieveLicenseFromUserResponse>} {@link RetrieveLicenseFromUserResponse} - The promise response from fetching a license key from a user
      */
     retrieve: (
         data: RetrieveLicenseFromUser,
+
+        options?: RequestOptions,
     ) => Promise<RetrieveLicenseFromUserResponse>;
 
     /**
@@ -502,9 +723,13 @@ export interface LicenseService {
      * @param {SetLicenseNote} `data` - All the params needed to set a note for a license key
      * @param {SetLicenseNote['license']} `data.license` - The license key to set the note for
      * @param {SetLicenseNote['note']} `data.note` - The note you would like to set
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<SetLicenseNoteResponse>} {@link SetLicenseNoteResponse} - The promise response from setting a note to a license
      */
-    setNote: (data: SetLicenseNote) => Promise<SetLicenseNoteResponse>;
+    setNote: (
+        data: SetLicenseNote,
+        options?: RequestOptions,
+    ) => Promise<SetLicenseNoteResponse>;
 
     /**
      * Get the info attached to the license key
@@ -513,7 +738,34 @@ export interface LicenseService {
      *
      * @param {GetLicenseInfo} `data` - All the params needed to get the license key info
      * @param {GetLicenseInfo['license']} `data.license` - The license key you would like the info for
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<GetLicenseInfoResponse>} {@link GetLicenseInfoResponse} - The promise response from getting the license info
      */
-    getInfo: (data: GetLicenseInfo) => Promise<GetLicenseInfoResponse>;
+    getInfo: (
+        data: GetLicenseInfo,
+        options?: RequestOptions,
+    ) => Promise<GetLicenseInfoResponse>;
+
+    /**
+     * Find license keys that match the filters, every filter that is set has to match.
+     * The license keys are fetched with `fetchAll` and their fields are turned into numbers, booleans and dates.
+     *
+     * @param {LicenseQuery} [query] - The filters, sorting and pagination
+     * @param {LicenseQuery['sort']} [query.sort] - The field to sort by and the order
+     * @param {LicenseQuery['page']} [query.page] - [Default `1`] The page to return
+     * @param {LicenseQuery['pageSize']} [query.pageSize] - [Default every match] How many matches are on a page
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<QueryResponse<LicenseEntry>>} {@link QueryResponse} - The promise response with the matching license keys
+     * @throws {InvalidParamsError} If the page or page size is invalid, no request is sent.
+     */
+    query: (
+        query?: LicenseQuery,
+        options?: RequestOptions,
+    ) => Promise<QueryResponse<LicenseEntry>>;
+
+    /**
+     * Run ban, unban, setNote, getInfo and verify over thousands of license keys.
+     * Every license is reported with the `bulkprogress` event and failures do not stop the run.
+     */
+    bulk: BulkLicenseService;
 }
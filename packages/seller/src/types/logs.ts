@@ -0,0 +1,97 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A log sent with `ClientApi.log`
+ */
+export interface LogEntry {
+    /**
+     * When the log was sent
+     */
+    date: Date;
+    /**
+     * The pc username the log was sent from
+     */
+    pcUser: string;
+    /**
+     * The message of the log
+     */
+    message: string;
+    /**
+     * The username or license that was logged in when the log was sent, empty when nobody was logged in
+     */
+    credential: string;
+}
+
+export interface FetchAllLogsResponse extends BaseResponse {
+    logs: LogEntry[];
+}
+
+export interface FetchAllLogsParams {
+    type: "fetchalllogs";
+}
+
+export interface DeleteAllLogsResponse extends BaseResponse {}
+
+export interface DeleteAllLogsParams {
+    type: "dellogs";
+}
+
+/**
+ * What to filter the logs on, every filter that is set has to match
+ */
+export interface SearchLogs {
+    /**
+     * Only logs sent at or after this date
+     */
+    from?: Date;
+    /**
+     * Only logs sent at or before this date
+     */
+    to?: Date;
+    /**
+     * Only logs sent while this username or license was logged in
+     */
+    credential?: string;
+    /**
+     * Only logs where the message contains this text, the case is ignored
+     */
+    contains?: string;
+}
+
+export interface LogsService {
+    /**
+     * Fetch every log sent with `ClientApi.log`
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-logs
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllLogsResponse>} {@link FetchAllLogsResponse} - The promise response from fetching all logs
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllLogsResponse>;
+    /**
+     * Fetch every log and keep the logs that match the filters, keyauth can not filter logs so this is done after fetching.
+     *
+     * @param {SearchLogs} `data` - What to filter the logs on
+     * @param {SearchLogs['from']} [data.from] - Only logs sent at or after this date
+     * @param {SearchLogs['to']} [data.to] - Only logs sent at or before this date
+     * @param {SearchLogs['credential']} [data.credential] - Only logs sent while this username or license was logged in
+     * @param {SearchLogs['contains']} [data.contains] - Only logs where the message contains this text, the case is ignored
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllLogsResponse>} {@link FetchAllLogsResponse} - The promise response with the logs that match
+     */
+    search: (
+        data: SearchLogs,
+        options?: RequestOptions,
+    ) => Promise<FetchAllLogsResponse>;
+    /**
+     * Delete every log
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-logs
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllLogsResponse>} {@link DeleteAllLogsResponse} - The promise response from deleting all logs
+     */
+    deleteAll: (options?: RequestOptions) => Promise<DeleteAllLogsResponse>;
+}
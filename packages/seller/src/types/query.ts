@@ -0,0 +1,173 @@
+// Interfaces for various data structures
+
+import { BaseResponse } from "./client";
+
+/**
+ * Match a text field exactly, against any of a list or against a pattern, `null` matches fields that are not set
+ */
+export type StringFilter = string | string[] | RegExp | null;
+
+/**
+ * Compare a number field, all the comparisons that are set have to match
+ */
+export interface NumberRange {
+    eq?: number;
+    ne?: number;
+    gt?: number;
+    gte?: number;
+    lt?: number;
+    lte?: number;
+}
+
+/**
+ * Match a number field exactly, against any of a list or with a range
+ */
+export type NumberFilter = number | number[] | NumberRange;
+
+/**
+ * Match a date field inside a range, `null` matches dates that are not set
+ */
+export type DateFilter = {
+    /**
+     * Only match dates after this date
+     */
+    after?: Date;
+    /**
+     * Only match dates before this date
+     */
+    before?: Date;
+} | null;
+
+/**
+ * The sorting and pagination every query takes
+ */
+export interface QueryOptions<T> {
+    /**
+     * The field to sort by, fields that are not set are always sorted last
+     */
+    sort?: {
+        by: keyof T;
+        /**
+         * [Default `asc`] The order to sort in
+         */
+        order?: "asc" | "desc";
+    };
+    /**
+     * [Default `1`] The page to return, starting at `1`
+     */
+    page?: number;
+    /**
+     * [Default every match] How many matches are on a page
+     */
+    pageSize?: number;
+}
+
+export interface QueryResponse<T> extends BaseResponse {
+    /**
+     * The matches on the page that was asked for
+     */
+    items: T[];
+    /**
+     * How many matches there are on every page
+     */
+    total: number;
+    page: number;
+    /**
+     * How many pages there are
+     */
+    pages: number;
+}
+
+/**
+ * A license with every field turned into its proper type
+ */
+export interface LicenseEntry {
+    id: number;
+    key: string;
+    note: string;
+    /**
+     * How many seconds the license lasts for
+     */
+    expires: number;
+    status: string;
+    /**
+     * If the license has been used
+     */
+    used: boolean;
+    banned: boolean;
+    /**
+     * Why the license was banned, `null` if it is not banned
+     */
+    banReason: string | null;
+    level: number;
+    genBy: string;
+    genDate: Date | null;
+    usedOn: Date | null;
+    usedBy: string | null;
+    app: string;
+}
+
+export interface LicenseQuery extends QueryOptions<LicenseEntry> {
+    key?: StringFilter;
+    note?: StringFilter;
+    expires?: NumberFilter;
+    status?: StringFilter;
+    used?: boolean;
+    banned?: boolean;
+    level?: NumberFilter;
+    genBy?: StringFilter;
+    genDate?: DateFilter;
+    usedOn?: DateFilter;
+    usedBy?: StringFilter;
+}
+
+/**
+ * A user with every field turned into its proper type
+ */
+export interface UserEntry {
+    id: number;
+    username: string;
+    email: string;
+    hwid: string | null;
+    ip: string;
+    app: string;
+    owner: string;
+    createDate: Date | null;
+    lastLogin: Date | null;
+    banned: boolean;
+    /**
+     * Why the user was banned, `null` if they are not banned
+     */
+    banReason: string | null;
+    cooldown: number;
+}
+
+export interface UserQuery extends QueryOptions<UserEntry> {
+    username?: StringFilter;
+    email?: StringFilter;
+    hwid?: StringFilter;
+    ip?: StringFilter;
+    owner?: StringFilter;
+    createDate?: DateFilter;
+    lastLogin?: DateFilter;
+    banned?: boolean;
+    cooldown?: NumberFilter;
+}
+
+/**
+ * A user variable
+ */
+export interface UserVarEntry {
+    /**
+     * The username of the user the variable belongs to
+     */
+    user: string;
+    name: string;
+    data: string;
+}
+
+export interface UserVarQuery extends QueryOptions<UserVarEntry> {
+    user?: StringFilter;
+    name?: StringFilter;
+    data?: StringFilter;
+}
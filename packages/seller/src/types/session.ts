@@ -0,0 +1,88 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * An active session of the application
+ */
+export interface ActiveSession {
+    /**
+     * The id of the session
+     */
+    sessionId: string;
+    /**
+     * The username or license the session is logged in with, empty when nobody logged in yet
+     */
+    credential: string;
+    /**
+     * The unix time the session expires at
+     */
+    expiry: string;
+    /**
+     * If a user has logged in with the session
+     */
+    validated: boolean;
+}
+
+export interface FetchAllSessionsResponse extends BaseResponse {
+    sessions: ActiveSession[];
+}
+
+export interface FetchAllSessionsParams {
+    type: "fetchallsessions";
+}
+
+export interface KillSession {
+    /**
+     * The id of the session to kill
+     */
+    sessionId: string;
+}
+
+export interface KillSessionResponse extends BaseResponse {}
+
+export interface KillSessionParams {
+    type: "kill";
+    sessid: string;
+}
+
+export interface KillAllSessionsResponse extends BaseResponse {}
+
+export interface KillAllSessionsParams {
+    type: "killall";
+}
+
+export interface SessionService {
+    /**
+     * Fetch every active session of the application
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-sessions
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllSessionsResponse>} {@link FetchAllSessionsResponse} - The promise response from fetching all sessions
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllSessionsResponse>;
+    /**
+     * Kill a session, the client using it gets a session killed error on its next request.
+     *
+     * @see https://keyauth.readme.io/reference/kill-session
+     *
+     * @param {KillSession} `data` - All the params needed to kill a session
+     * @param {KillSession['sessionId']} `data.sessionId` - The id of the session to kill
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<KillSessionResponse>} {@link KillSessionResponse} - The promise response from killing a session
+     */
+    kill: (
+        data: KillSession,
+        options?: RequestOptions,
+    ) => Promise<KillSessionResponse>;
+    /**
+     * Kill every session of the application
+     *
+     * @see https://keyauth.readme.io/reference/kill-all-sessions
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<KillAllSessionsResponse>} {@link KillAllSessionsResponse} - The promise response from killing all sessions
+     */
+    killAll: (options?: RequestOptions) => Promise<KillAllSessionsResponse>;
+}
@@ -0,0 +1,191 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A subscription tier of the application
+ */
+export interface AppSubscription {
+    /**
+     * The name of the subscription
+     */
+    name: string;
+    /**
+     * The license level that gives the subscription
+     */
+    level: string;
+}
+
+export interface CreateSubscription {
+    /**
+     * The name of the subscription
+     */
+    name: string;
+    /**
+     * The license level that gives the subscription
+     */
+    level: number;
+}
+
+export interface CreateSubscriptionResponse extends BaseResponse {}
+
+export interface CreateSubscriptionParams {
+    type: "addsub";
+    name: string;
+    level: string;
+}
+
+export interface EditSubscription {
+    /**
+     * The name of the subscription to edit
+     */
+    name: string;
+    /**
+     * The new license level that gives the subscription
+     */
+    level: number;
+}
+
+export interface EditSubscriptionResponse extends BaseResponse {}
+
+export interface EditSubscriptionParams {
+    type: "editsub";
+    sub: string;
+    level: string;
+}
+
+export interface DeleteSubscription {
+    /**
+     * The name of the subscription to delete
+     */
+    name: string;
+}
+
+export interface DeleteSubscriptionResponse extends BaseResponse {}
+
+export interface DeleteSubscriptionParams {
+    type: "delappsub";
+    name: string;
+}
+
+export interface FetchAllSubscriptionsResponse extends BaseResponse {
+    subs: AppSubscription[];
+}
+
+export interface FetchAllSubscriptionsParams {
+    type: "fetchallsubs";
+}
+
+export interface PauseSubscription {
+    /**
+     * The name of the subscription to pause
+     */
+    name: string;
+}
+
+export interface PauseSubscriptionResponse extends BaseResponse {}
+
+export interface PauseSubscriptionParams {
+    type: "pausesub";
+    subscription: string;
+}
+
+export interface UnpauseSubscription {
+    /**
+     * The name of the subscription to unpause
+     */
+    name: string;
+}
+
+export interface UnpauseSubscriptionResponse extends BaseResponse {}
+
+export interface UnpauseSubscriptionParams {
+    type: "unpausesub";
+    subscription: string;
+}
+
+export interface SubscriptionService {
+    /**
+     * Create a subscription for the application.
+     *
+     * @see https://keyauth.readme.io/reference/create-subscription
+     *
+     * @param {CreateSubscription} `data` - All the params needed to create a subscription
+     * @param {CreateSubscription['name']} `data.name` - The name of the subscription
+     * @param {CreateSubscription['level']} `data.level` - The license level that gives the subscription
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<CreateSubscriptionResponse>} {@link CreateSubscriptionResponse} - The promise response from creating a subscription
+     */
+    create: (
+        data: CreateSubscription,
+        options?: RequestOptions,
+    ) => Promise<CreateSubscriptionResponse>;
+    /**
+     * Change the license level of a subscription.
+     *
+     * @see https://keyauth.readme.io/reference/edit-subscription
+     *
+     * @param {EditSubscription} `data` - All the params needed to edit a subscription
+     * @param {EditSubscription['name']} `data.name` - The name of the subscription to edit
+     * @param {EditSubscription['level']} `data.level` - The new license level that gives the subscription
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<EditSubscriptionResponse>} {@link EditSubscriptionResponse} - The promise response from editing a subscription
+     */
+    edit: (
+        data: EditSubscription,
+        options?: RequestOptions,
+    ) => Promise<EditSubscriptionResponse>;
+    /**
+     * Delete a subscription from the application.
+     *
+     * @see https://keyauth.readme.io/reference/delete-subscription
+     *
+     * @param {DeleteSubscription} `data` - All the params needed to delete a subscription
+     * @param {DeleteSubscription['name']} `data.name` - The name of the subscription to delete
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteSubscriptionResponse>} {@link DeleteSubscriptionResponse} - The promise response from deleting a subscription
+     */
+    delete: (
+        data: DeleteSubscription,
+        options?: RequestOptions,
+    ) => Promise<DeleteSubscriptionResponse>;
+    /**
+     * Fetch all the subscriptions of the application
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-subscriptions
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllSubscriptionsResponse>} {@link FetchAllSubscriptionsResponse} - The promise response from fetching all subscriptions
+     */
+    fetchAll: (
+        options?: RequestOptions,
+    ) => Promise<FetchAllSubscriptionsResponse>;
+    /**
+     * Pause a subscription for every user that has it, the time left stops counting down until it is unpaused.
+     *
+     * @see https://keyauth.readme.io/reference/pause-subscription
+     *
+     * @param {PauseSubscription} `data` - All the params needed to pause a subscription
+     * @param {PauseSubscription['name']} `data.name` - The name of the subscription to pause
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<PauseSubscriptionResponse>} {@link PauseSubscriptionResponse} - The promise response from pausing a subscription
+     */
+    pause: (
+        data: PauseSubscription,
+        options?: RequestOptions,
+    ) => Promise<PauseSubscriptionResponse>;
+    /**
+     * Unpause a subscription for every user that has it.
+     *
+     * @see https://keyauth.readme.io/reference/unpause-subscription
+     *
+     * @param {UnpauseSubscription} `data` - All the params needed to unpause a subscription
+     * @param {UnpauseSubscription['name']} `data.name` - The name of the subscription to unpause
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<UnpauseSubscriptionResponse>} {@link UnpauseSubscriptionResponse} - The promise response from unpausing a subscription
+     */
+    unpause: (
+        data: UnpauseSubscription,
+        options?: RequestOptions,
+    ) => Promise<UnpauseSubscriptionResponse>;
+}
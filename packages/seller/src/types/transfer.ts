@@ -0,0 +1,306 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+import { Expiry } from "./license";
+
+/**
+ * The file formats licenses, users, user variables and subscriptions can be exported to and imported from
+ *
+ * [`csv`] A header row with the column names then a row for every record
+ *
+ * [`ndjson`] A json object on every line
+ *
+ * [`json`] A single json array of objects
+ */
+export type TransferFormat = "csv" | "ndjson" | "json";
+
+/**
+ * What an import does with a record that already exists in the application
+ *
+ * [`skip`] Leave the existing record as it is
+ *
+ * [`overwrite`] Replace the existing record with the imported one
+ *
+ * [`rename`] Import the record under a free name, like `name-1`
+ */
+export type ConflictPolicy = "skip" | "overwrite" | "rename";
+
+/**
+ * What an import did, or would do on a dry run, with a record
+ */
+export type ImportAction = "create" | "overwrite" | "rename" | "skip";
+
+export interface ExportFile {
+    /**
+     * The path of the file to write, an existing file is replaced
+     */
+    path: string;
+    /**
+     * [Default from the file extension or `json`] The format to write the file in
+     */
+    format?: TransferFormat;
+}
+
+export interface ExportResponse extends BaseResponse {
+    /**
+     * The path of the file that was written
+     */
+    path: string;
+    format: TransferFormat;
+    /**
+     * How many records were written
+     */
+    count: number;
+}
+
+export interface ImportFile {
+    /**
+     * The path of the file to read
+     */
+    path: string;
+    /**
+     * [Default from the file extension or `json`] The format the file is in
+     */
+    format?: TransferFormat;
+    /**
+     * [Default `skip`] What to do with a record that already exists
+     */
+    conflict?: ConflictPolicy;
+    /**
+     * [Default `false`] Work out what would be imported without changing anything
+     */
+    dryRun?: boolean;
+}
+
+export interface ImportUsersFile extends ImportFile {
+    /**
+     * [Default `default`] The subscription to give every imported user, exports do not hold the subscriptions of users
+     */
+    subName?: string;
+    /**
+     * [Default `1`] How many days the subscription lasts for every imported user
+     */
+    expiry?: Expiry;
+    /**
+     * The password to give every imported user, exports do not hold passwords so without it users are created without one
+     */
+    password?: string;
+}
+
+/**
+ * The result of a single record in an import
+ */
+export interface ImportItemResult {
+    /**
+     * The license key, username, `username/variable` or subscription name from the file
+     */
+    name: string;
+    action: ImportAction;
+    /**
+     * The name the record was imported under when it was renamed
+     */
+    importedAs?: string;
+    success: boolean;
+    message: string;
+}
+
+export interface ImportResponse extends BaseResponse {
+    dryRun: boolean;
+    total: number;
+    created: number;
+    overwritten: number;
+    renamed: number;
+    skipped: number;
+    failed: number;
+    /**
+     * The result of every record in the order of the file
+     */
+    results: ImportItemResult[];
+}
+
+/**
+ * A license as it is written to an export
+ */
+export interface LicenseRecord {
+    key: string;
+    note: string;
+    /**
+     * How many seconds the license lasts for, as keyauth stores it
+     */
+    expires: string;
+    level: number;
+    status: string;
+    genBy: string;
+    genDate: string;
+    usedOn: string;
+    usedBy: string;
+    banned: string;
+}
+
+/**
+ * A user as it is written to an export
+ */
+export interface UserRecord {
+    username: string;
+    email: string;
+    hwid: string;
+    ip: string;
+    createDate: string;
+    lastLogin: string;
+    banned: string;
+    cooldown: string;
+}
+
+/**
+ * A user variable as it is written to an export
+ */
+export interface UserVarRecord {
+    user: string;
+    name: string;
+    data: string;
+}
+
+/**
+ * A subscription as it is written to an export
+ */
+export interface SubscriptionRecord {
+    name: string;
+    level: string;
+}
+
+export interface TransferService {
+    /**
+     * Write everything in the application to a file, the file is written as the records come in
+     */
+    export: {
+        /**
+         * Export every license key.
+         *
+         * @param {ExportFile} `data` - Where and how to write the export
+         * @param {ExportFile['path']} `data.path` - The path of the file to write, an existing file is replaced
+         * @param {ExportFile['format']} [data.format] - [Default from the file extension or `json`] The format to write the file in
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ExportResponse>} {@link ExportResponse} - The promise response with how many licenses were written
+         */
+        licenses: (
+            data: ExportFile,
+            options?: RequestOptions,
+        ) => Promise<ExportResponse>;
+        /**
+         * Export every user, passwords are left out as keyauth only holds their hash.
+         *
+         * @param {ExportFile} `data` - Where and how to write the export
+         * @param {ExportFile['path']} `data.path` - The path of the file to write, an existing file is replaced
+         * @param {ExportFile['format']} [data.format] - [Default from the file extension or `json`] The format to write the file in
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ExportResponse>} {@link ExportResponse} - The promise response with how many users were written
+         */
+        users: (
+            data: ExportFile,
+            options?: RequestOptions,
+        ) => Promise<ExportResponse>;
+        /**
+         * Export the variables of every user.
+         *
+         * @param {ExportFile} `data` - Where and how to write the export
+         * @param {ExportFile['path']} `data.path` - The path of the file to write, an existing file is replaced
+         * @param {ExportFile['format']} [data.format] - [Default from the file extension or `json`] The format to write the file in
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ExportResponse>} {@link ExportResponse} - The promise response with how many user variables were written
+         */
+        userVars: (
+            data: ExportFile,
+            options?: RequestOptions,
+        ) => Promise<ExportResponse>;
+        /**
+         * Export every subscription.
+         *
+         * @param {ExportFile} `data` - Where and how to write the export
+         * @param {ExportFile['path']} `data.path` - The path of the file to write, an existing file is replaced
+         * @param {ExportFile['format']} [data.format] - [Default from the file extension or `json`] The format to write the file in
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ExportResponse>} {@link ExportResponse} - The promise response with how many subscriptions were written
+         */
+        subscriptions: (
+            data: ExportFile,
+            options?: RequestOptions,
+        ) => Promise<ExportResponse>;
+    };
+    /**
+     * Recreate what was exported in this or another application
+     */
+    import: {
+        /**
+         * Import license keys, every key is recreated with `license.create` using the key as its mask.
+         * Keys with a `*` in them can not be recreated and fail. Keyauth can not edit a license so overwriting deletes the existing key
+         * and creates it again, the result says so when the key was deleted but could not be created again.
+         * Banned keys are banned again with the same reason. Keyauth can not give a key to a user, so the user that used it is lost
+         * and the result of that key says who it was. Nothing is imported when the existing keys can not be fetched.
+         *
+         * @param {ImportFile} `data` - Where to read the import from and how to import it
+         * @param {ImportFile['path']} `data.path` - The path of the file to read
+         * @param {ImportFile['format']} [data.format] - [Default from the file extension or `json`] The format the file is in
+         * @param {ImportFile['conflict']} [data.conflict] - [Default `skip`] What to do with a license that already exists
+         * @param {ImportFile['dryRun']} [data.dryRun] - [Default `false`] Work out what would be imported without changing anything
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ImportResponse>} {@link ImportResponse} - The promise response with the result of every license
+         */
+        licenses: (
+            data: ImportFile,
+            options?: RequestOptions,
+        ) => Promise<ImportResponse>;
+        /**
+         * Import users with `user.create`, exports do not hold passwords so users get `password` or are created without one
+         * and set it on their first login. Banned users are banned again with the same reason, their hwid, ip and login history are lost.
+         * Overwriting an existing user only changes their email as keyauth can not edit anything else.
+         * Nothing is imported when the existing users can not be fetched.
+         *
+         * @param {ImportUsersFile} `data` - Where to read the import from and how to import it
+         * @param {ImportUsersFile['path']} `data.path` - The path of the file to read
+         * @param {ImportUsersFile['format']} [data.format] - [Default from the file extension or `json`] The format the file is in
+         * @param {ImportUsersFile['conflict']} [data.conflict] - [Default `skip`] What to do with a user that already exists
+         * @param {ImportUsersFile['dryRun']} [data.dryRun] - [Default `false`] Work out what would be imported without changing anything
+         * @param {ImportUsersFile['subName']} [data.subName] - [Default `default`] The subscription to give every imported user
+         * @param {ImportUsersFile['expiry']} [data.expiry] - [Default `1`] How many days the subscription lasts for every imported user
+         * @param {ImportUsersFile['password']} [data.password] - The password to give every imported user
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ImportResponse>} {@link ImportResponse} - The promise response with the result of every user
+         */
+        users: (
+            data: ImportUsersFile,
+            options?: RequestOptions,
+        ) => Promise<ImportResponse>;
+        /**
+         * Import user variables with `user.var.set`, the users have to exist already.
+         * Nothing is imported when the existing variables can not be fetched.
+         *
+         * @param {ImportFile} `data` - Where to read the import from and how to import it
+         * @param {ImportFile['path']} `data.path` - The path of the file to read
+         * @param {ImportFile['format']} [data.format] - [Default from the file extension or `json`] The format the file is in
+         * @param {ImportFile['conflict']} [data.conflict] - [Default `skip`] What to do with a variable the user already has
+         * @param {ImportFile['dryRun']} [data.dryRun] - [Default `false`] Work out what would be imported without changing anything
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ImportResponse>} {@link ImportResponse} - The promise response with the result of every user variable
+         */
+        userVars: (
+            data: ImportFile,
+            options?: RequestOptions,
+        ) => Promise<ImportResponse>;
+        /**
+         * Import subscriptions with `subscription.create`.
+         * Nothing is imported when the existing subscriptions can not be fetched.
+         *
+         * @param {ImportFile} `data` - Where to read the import from and how to import it
+         * @param {ImportFile['path']} `data.path` - The path of the file to read
+         * @param {ImportFile['format']} [data.format] - [Default from the file extension or `json`] The format the file is in
+         * @param {ImportFile['conflict']} [data.conflict] - [Default `skip`] What to do with a subscription that already exists
+         * @param {ImportFile['dryRun']} [data.dryRun] - [Default `false`] Work out what would be imported without changing anything
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<ImportResponse>} {@link ImportResponse} - The promise response with the result of every subscription
+         */
+        subscriptions: (
+            data: ImportFile,
+            options?: RequestOptions,
+        ) => Promise<ImportResponse>;
+    };
+}
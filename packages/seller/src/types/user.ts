@@ -1,5 +1,12 @@
-import { BaseResponse } from "./client";
+import { BaseResponse, RequestOptions } from "./client";
 import { Expiry } from "./license";
+import {
+    QueryResponse,
+    UserEntry,
+    UserQuery,
+    UserVarEntry,
+    UserVarQuery,
+} from "./query";
 
 export interface Subscription {
     subscription: string;
@@ -211,6 +218,7 @@ export interface FetchAllUsersResponse extends BaseResponse {
         username: string;
         email: string;
         password: string;
+        hwid: string | null;
         app: string;
         owner: string;
         createDate: Date;
@@ -269,7 +277,7 @@ export interface RetrieveUserDataResponse extends BaseResponse {
         ip: string;
         hwid: string;
         createDate: Date;
-        lastlogin: Date;
+        lastLogin: Date;
         cooldown: string;
         password: string;
         token: string;
@@ -345,10 +353,13 @@ export interface UserService {
          *
          * @param {DeleteExistingUser} `data` - All the params needed to delete a user
          * @param {DeleteExistingUser['username']} `data.username` - The username of the user to delete.
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteExistingUserResponse>} {@link DeleteExistingUserResponse} - The promise response from deleting a user
          */
         existing: (
             data: DeleteExistingUser,
+
+            options?: RequestOptions,
         ) => Promise<DeleteExistingUserResponse>;
 
         /**
@@ -356,9 +367,12 @@ export interface UserService {
          *
          * @see https://keyauth.readme.io/reference/delete-expired-users
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteExpiredUserResponse>} {@link DeleteExpiredUserResponse} - The promise response from deleting all expired users
          */
-        expired: () => Promise<DeleteExpiredUserResponse>;
+        expired: (
+            options?: RequestOptions,
+        ) => Promise<DeleteExpiredUserResponse>;
     };
 
     /**
@@ -372,18 +386,25 @@ export interface UserService {
          *
          * @param {ResetUserHWID} `data` - All the params needed to reset a users hwid
          * @param {ResetUserHWID['username']} `data.username` - The username of the user you are resetting HWID for.
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<ResetUserHWIDResponse>} {@link ResetUserHWIDResponse} - The promise response from reseting the users HWID
          */
-        reset: (data: ResetUserHWID) => Promise<ResetUserHWIDResponse>;
+        reset: (
+            data: ResetUserHWID,
+            options?: RequestOptions,
+        ) => Promise<ResetUserHWIDResponse>;
 
         /**
          * Reset all users HWID.
          *
          * @see https://keyauth.readme.io/reference/reset-all-users-hwid
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<ResetAllUsersHWIDResponse>} {@link ResetAllUsersHWIDResponse} - The promise response from reseting all users HWIDs
          */
-        resetAll: () => Promise<ResetAllUsersHWIDResponse>;
+        resetAll: (
+            options?: RequestOptions,
+        ) => Promise<ResetAllUsersHWIDResponse>;
 
         /**
          * Add a HWID to a user.
@@ -393,9 +414,13 @@ export interface UserService {
          * @param {AddHWIDToUser} `data` - All the params needed to add a hwid to a user
          * @param {AddHWIDToUser['username']} `data.username` - The username of the user your are add to hwid to
          * @param {AddHWIDToUser['hwid']} `data.hwid` - The hwid to add to the user
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<AddHWIDToUserResponse>} {@link AddHWIDToUserResponse} - The promise response from adding a hwid to a user
          */
-        add: (data: AddHWIDToUser) => Promise<AddHWIDToUserResponse>;
+        add: (
+            data: AddHWIDToUser,
+            options?: RequestOptions,
+        ) => Promise<AddHWIDToUserResponse>;
     };
     /**
      * You can set or get a users variable
@@ -411,9 +436,13 @@ export interface UserService {
          * @param {SetUsersVar['varName']} `data.varName` - The var name you would like to set
          * @param {SetUsersVar['varData']} `data.varData` - The var data you would like to set
          * @param {SetUsersVar['readonly']} [data.readonly] - [Default `false`] Whether user var can be changed from program
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<SetUsersVarResponse>} {@link SetUsersVarResponse} - The promise response from setting a users var
          */
-        set: (data: SetUsersVar) => Promise<SetUsersVarResponse>;
+        set: (
+            data: SetUsersVar,
+            options?: RequestOptions,
+        ) => Promise<SetUsersVarResponse>;
         /**
          * Get a users variable data.
          *
@@ -422,17 +451,41 @@ export interface UserService {
          * @param {GetUsersVar} `data` - All the params needed to get a users var
          * @param {GetUsersVar['username']} `data.username` - The username of the user you would like to get the var for.
          * @param {GetUsersVar['varName']} `data.varName` - The var name you would like to get
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<GetUsersVarResponse>} {@link GetUsersVarResponse} - The promise response from getting a users var
          */
-        get: (data: GetUsersVar) => Promise<GetUsersVarResponse>;
+        get: (
+            data: GetUsersVar,
+            options?: RequestOptions,
+        ) => Promise<GetUsersVarResponse>;
         /**
          * Get all users variable data.
          *
          * @see https://keyauth.readme.io/reference/fetch-all-users-variables
          *
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<FetchAllUsersVarsResponse>} {@link FetchAllUsersVarsResponse} - The promise response from getting all users vars data
          */
-        getAll: () => Promise<FetchAllUsersVarsResponse>;
+        getAll: (
+            options?: RequestOptions,
+        ) => Promise<FetchAllUsersVarsResponse>;
+
+        /**
+         * Find user variables that match the filters, every filter that is set has to match.
+         * The variables are fetched with `getAll`.
+         *
+         * @param {UserVarQuery} [query] - The filters, sorting and pagination
+         * @param {UserVarQuery['sort']} [query.sort] - The field to sort by and the order
+         * @param {UserVarQuery['page']} [query.page] - [Default `1`] The page to return
+         * @param {UserVarQuery['pageSize']} [query.pageSize] - [Default every match] How many matches are on a page
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+         * @returns {Promise<QueryResponse<UserVarEntry>>} {@link QueryResponse} - The promise response with the matching user variables
+         * @throws {InvalidParamsError} If the page or page size is invalid, no request is sent.
+         */
+        query: (
+            query?: UserVarQuery,
+            options?: RequestOptions,
+        ) => Promise<QueryResponse<UserVarEntry>>;
 
         /**
          * Anything to do with deleting users vars
@@ -446,9 +499,13 @@ export interface UserService {
              * @param {DeleteUsersVar} `data` - All the params needed to delete a users var
              * @param {DeleteUsersVar['username']} `data.username` - The username of the user you would like to delete the var for.
              * @param {DeleteUsersVar['varName']} `data.varName` - The var name you would like to delete
+             * @param {RequestOptions} [options] - The abort signal and timeout for this call.
              * @returns {Promise<DeleteUsersVarResponse>} {@link DeleteUsersVarResponse} - The promise response from deleting a users var
              */
-            single: (data: DeleteUsersVar) => Promise<DeleteUsersVarResponse>;
+            single: (
+                data: DeleteUsersVar,
+                options?: RequestOptions,
+            ) => Promise<DeleteUsersVarResponse>;
 
             /**
              * Delete a var by name from all users.
@@ -461,10 +518,13 @@ export interface UserService {
              *
              * @param {DeleteUsersVarWithName} `data` - All the params needed to delete a var from all users
              * @param {DeleteUsersVarWithName['varName']} `data.varName` - The var name you would like to delete from all users
+             * @param {RequestOptions} [options] - The abort signal and timeout for this call.
              * @returns {Promise<DeleteUsersVarWithNameResponse>} {@link DeleteUsersVarWithNameResponse} - The promise response from deleting a var from all users
              */
             byName: (
                 data: DeleteUsersVarWithName,
+
+                options?: RequestOptions,
             ) => Promise<DeleteUsersVarWithNameResponse>;
         };
     };
@@ -481,9 +541,13 @@ export interface UserService {
          * @param {DeleteUsersSub} `data` - All the params needed to delete a users sub
          * @param {DeleteUsersSub['username']} `data.username` - The username of the user you would like to remove the subscription from.
          * @param {DeleteUsersSub['subName']} `data.subName` - The name of the subscription you would like to remove
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<DeleteUsersSubResponse>} {@link DeleteUsersSubResponse} - The promise response from deleting a users subscription
          */
-        delete: (data: DeleteUsersSub) => Promise<DeleteUsersSubResponse>;
+        delete: (
+            data: DeleteUsersSub,
+            options?: RequestOptions,
+        ) => Promise<DeleteUsersSubResponse>;
 
         /**
          * Take away time from a users subscription.
@@ -494,9 +558,13 @@ export interface UserService {
          * @param {SubtractUsersSub['username']} `data.username` - The username of the user you would like to subtract time from.
          * @param {SubtractUsersSub['subName']} `data.subName` - The name of the subscription
          * @param {SubtractUsersSub['seconds']} `data.seconds` - The amount of time to remove in seconds
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<SubtractUsersSubResponse>} {@link SubtractUsersSubResponse} - The promise response from subtracting from a users subscription
          */
-        subtract: (data: SubtractUsersSub) => Promise<SubtractUsersSubResponse>;
+        subtract: (
+            data: SubtractUsersSub,
+            options?: RequestOptions,
+        ) => Promise<SubtractUsersSubResponse>;
         /**
          * Count how many users have this subscription.
          *
@@ -504,10 +572,13 @@ export interface UserService {
          *
          * @param {CountSubscriptions} `data` - All the params needed to check how many users have this sub
          * @param {CountSubscriptions['subName']} `data.subName` - The name of the subscription
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<CountSubscriptionsResponse>} {@link CountSubscriptionsResponse} - The promise response from counting sub
          */
         count: (
             data: CountSubscriptions,
+
+            options?: RequestOptions,
         ) => Promise<CountSubscriptionsResponse>;
 
         /**
@@ -520,9 +591,13 @@ export interface UserService {
          * @param {ExtendUsersSub['subName']} `data.subName` - The name of the subscription
          * @param {ExtendUsersSub['expiry']} `data.expiry` - The expiry for the sub
          * @param {ExtendUsersSub['activeOnly']} [data.activeOnly] - [Default `false`] Only extend user with active subscription that matches exact subscription you're extending.
+         * @param {RequestOptions} [options] - The abort signal and timeout for this call.
          * @returns {Promise<ExtendUsersSubResponse>} {@link ExtendUsersSubResponse} - The promise response from extending sub
          */
-        extend: (data: ExtendUsersSub) => Promise<ExtendUsersSubResponse>;
+        extend: (
+            data: ExtendUsersSub,
+            options?: RequestOptions,
+        ) => Promise<ExtendUsersSubResponse>;
     };
     /**
      * Create a new user.
@@ -534,9 +609,13 @@ export interface UserService {
      * @param {CreateUser['subscription']} [data.subscription] - [Default `default`] The subscription level to apply to the user
      * @param {CreateUser['expiry']} [data.expiry] - [Default `1 Day`] The amount of expiry time to apply to the new user
      * @param {CreateUser['password']} [data.password] - [Default `null`] The password to set for the user, if left blank the user can set this on first login
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<CreateUserResponse>} {@link CreateUserResponse} - The promise response from creating a new user
      */
-    create: (data: CreateUser) => Promise<CreateUserResponse>;
+    create: (
+        data: CreateUser,
+        options?: RequestOptions,
+    ) => Promise<CreateUserResponse>;
     /**
      * Ban a user.
      *
@@ -545,9 +624,10 @@ export interface UserService {
      * @param {BanUser} `data` - All the params needed to ban a user
      * @param {BanUser['username']} `data.username` - The username of the user to ban.
      * @param {BanUser['reason']} data.reason - The reason for banning the user
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<BanUserResponse>} {@link BanUserResponse} - The promise response from banning a user
      */
-    ban: (data: BanUser) => Promise<BanUserResponse>;
+    ban: (data: BanUser, options?: RequestOptions) => Promise<BanUserResponse>;
     /**
      * Unban a user.
      *
@@ -555,17 +635,22 @@ export interface UserService {
      *
      * @param {UnbanUser} `data` - All the params needed to unban a user
      * @param {UnbanUser['username']} `data.username` - The username of the user to unban.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<UnbanUserResponse>} {@link UnbanUserResponse} - The promise response from unbanning a user
      */
-    unban: (data: UnbanUser) => Promise<UnbanUserResponse>;
+    unban: (
+        data: UnbanUser,
+        options?: RequestOptions,
+    ) => Promise<UnbanUserResponse>;
     /**
      * Delete all your current users.
      *
      * @see https://keyauth.readme.io/reference/delete-all-users
      *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<DeleteUsersSubResponse>} {@link DeleteUsersSubResponse} - The promise response from deleteing all users
      */
-    deleteAll: () => Promise<DeleteAllUsersResponse>;
+    deleteAll: (options?: RequestOptions) => Promise<DeleteAllUsersResponse>;
 
     /**
      * Verify a user exists by username.
@@ -574,18 +659,40 @@ export interface UserService {
      *
      * @param {VerifyUserExists} `data` - All the params needed to verify a user
      * @param {VerifyUserExists['username']} `data.username` - The username of the user you would like to verify.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<VerifyUserExistsResponse>} {@link VerifyUserExistsResponse} - The promise response from verifying a user
      */
-    exists: (data: VerifyUserExists) => Promise<VerifyUserExistsResponse>;
+    exists: (
+        data: VerifyUserExists,
+        options?: RequestOptions,
+    ) => Promise<VerifyUserExistsResponse>;
 
     /**
      * Fetch all users.
      *
      * @see https://keyauth.readme.io/reference/fetch-all-users
      *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<FetchAllUsersResponse>} {@link FetchAllUsersResponse} - The promise response from fetching all users
      */
-    all: () => Promise<FetchAllUsersResponse>;
+    all: (options?: RequestOptions) => Promise<FetchAllUsersResponse>;
+
+    /**
+     * Find users that match the filters, every filter that is set has to match.
+     * The users are fetched with `all` and their fields are turned into numbers, booleans and dates.
+     *
+     * @param {UserQuery} [query] - The filters, sorting and pagination
+     * @param {UserQuery['sort']} [query.sort] - The field to sort by and the order
+     * @param {UserQuery['page']} [query.page] - [Default `1`] The page to return
+     * @param {UserQuery['pageSize']} [query.pageSize] - [Default every match] How many matches are on a page
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<QueryResponse<UserEntry>>} {@link QueryResponse} - The promise response with the matching users
+     * @throws {InvalidParamsError} If the page or page size is invalid, no request is sent.
+     */
+    query: (
+        query?: UserQuery,
+        options?: RequestOptions,
+    ) => Promise<QueryResponse<UserEntry>>;
 
     /**
      * Reset a users password
@@ -596,10 +703,13 @@ export interface UserService {
      *
      * @param {ResetUserPassword} `data` - All the params needed to reset a users password
      * @param {ResetUserPassword['username']} `data.username` - The username of the user you would like to reset the password for.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<ResetUserPasswordResponse>} {@link ResetUserPasswordResponse} - The promise response from resetting a users password
      */
     resetPassword: (
         data: ResetUserPassword,
+
+        options?: RequestOptions,
     ) => Promise<ResetUserPasswordResponse>;
 
     /**
@@ -609,9 +719,13 @@ export interface UserService {
      *
      * @param {ChangeUsersEmail} `data` - All the params needed to change a users email
      * @param {ChangeUsersEmail['username']} `data.username` - The username of the user you would like to change the email for.
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<ChangeUsersEmailResponse>} {@link ChangeUsersEmailResponse} - The promise response from changing a users email
      */
-    changeEmail: (data: ChangeUsersEmail) => Promise<ChangeUsersEmailResponse>;
+    changeEmail: (
+        data: ChangeUsersEmail,
+        options?: RequestOptions,
+    ) => Promise<ChangeUsersEmailResponse>;
 
     /**
      * Retrieve all users data
@@ -620,18 +734,25 @@ export interface UserService {
      *
      * @param {RetrieveUserData} `data` - All the params needed to retrieve all users data
      * @param {RetrieveUserData['username']} `data.username` - The username of the user you would like to retrieve data from
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<RetrieveUserDataResponse>} {@link RetrieveUserDataResponse} - The promise response from retrieve users data
      */
-    data: (data: RetrieveUserData) => Promise<RetrieveUserDataResponse>;
+    data: (
+        data: RetrieveUserData,
+        options?: RequestOptions,
+    ) => Promise<RetrieveUserDataResponse>;
 
     /**
      * Fetch all users usernames.
      *
      * @see https://keyauth.readme.io/reference/fetch-all-usernames
      *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<FetchAllUsersUsersnamesResponse>} {@link FetchAllUsersUsersnamesResponse} - The promise response from fetching all users usernames
      */
-    allUsernames: () => Promise<FetchAllUsersUsersnamesResponse>;
+    allUsernames: (
+        options?: RequestOptions,
+    ) => Promise<FetchAllUsersUsersnamesResponse>;
 
     /**
      * Set a users cooldown
@@ -641,7 +762,11 @@ export interface UserService {
      * @param {UserCoolDown} `data` - All the params needed to set a users cooldown
      * @param {UserCoolDown['username']} `data.username` - The username of the user you would like to set the cooldown for
      * @param {UserCoolDown['cooldown']} `data.cooldown` - The cooldown to apply to this user
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
      * @returns {Promise<UserCoolDownResponse>} {@link RetrieveUserDataResponse} - The promise response from setting a user cooldown
      */
-    cooldown: (data: UserCoolDown) => Promise<UserCoolDownResponse>;
+    cooldown: (
+        data: UserCoolDown,
+        options?: RequestOptions,
+    ) => Promise<UserCoolDownResponse>;
 }
@@ -0,0 +1,133 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A webhook of the application
+ */
+export interface WebhookInfo {
+    /**
+     * The id users call the webhook with `ClientApi.webhook`
+     */
+    webId: string;
+    /**
+     * The base url the webhook sends requests to
+     */
+    baseUrl: string;
+    /**
+     * The user agent the webhook sends requests with
+     */
+    userAgent: string;
+    /**
+     * If users have to be logged in to call the webhook
+     */
+    authenticatedOnly: boolean;
+}
+
+export interface CreateWebhook {
+    /**
+     * The base url the webhook sends requests to, the params users call the webhook with are added to it
+     */
+    baseUrl: string;
+    /**
+     * [Default `KeyAuth`] The user agent the webhook sends requests with
+     */
+    userAgent?: "KeyAuth" | (string & {});
+    /**
+     * [Default `true`] If users have to be logged in to call the webhook
+     */
+    authenticatedOnly?: boolean;
+}
+
+export interface CreateWebhookResponse extends BaseResponse {
+    /**
+     * The id users call the webhook with `ClientApi.webhook`
+     */
+    webId?: string;
+}
+
+export interface CreateWebhookParams {
+    type: "addwebhook";
+    baseurl: string;
+    ua: string;
+    authed: "0" | "1";
+}
+
+export interface DeleteWebhook {
+    /**
+     * The id of the webhook to delete
+     */
+    webId: string;
+}
+
+export interface DeleteWebhookResponse extends BaseResponse {}
+
+export interface DeleteWebhookParams {
+    type: "delwebhook";
+    webid: string;
+}
+
+export interface FetchAllWebhooksResponse extends BaseResponse {
+    webhooks: WebhookInfo[];
+}
+
+export interface FetchAllWebhooksParams {
+    type: "fetchallwebhooks";
+}
+
+export interface DeleteAllWebhooksResponse extends BaseResponse {}
+
+export interface DeleteAllWebhooksParams {
+    type: "delallwebhooks";
+}
+
+export interface WebhookService {
+    /**
+     * Create a webhook.
+     *
+     * @see https://keyauth.readme.io/reference/add-webhook
+     *
+     * @param {CreateWebhook} `data` - All the params needed to create a webhook
+     * @param {CreateWebhook['baseUrl']} `data.baseUrl` - The base url the webhook sends requests to
+     * @param {CreateWebhook['userAgent']} [data.userAgent] - [Default `KeyAuth`] The user agent the webhook sends requests with
+     * @param {CreateWebhook['authenticatedOnly']} [data.authenticatedOnly] - [Default `true`] If users have to be logged in to call the webhook
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<CreateWebhookResponse>} {@link CreateWebhookResponse} - The promise response from creating a webhook with the `webId` to call it with
+     */
+    create: (
+        data: CreateWebhook,
+        options?: RequestOptions,
+    ) => Promise<CreateWebhookResponse>;
+    /**
+     * Delete a webhook.
+     *
+     * @see https://keyauth.readme.io/reference/delete-webhook
+     *
+     * @param {DeleteWebhook} `data` - All the params needed to delete a webhook
+     * @param {DeleteWebhook['webId']} `data.webId` - The id of the webhook to delete
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteWebhookResponse>} {@link DeleteWebhookResponse} - The promise response from deleting a webhook
+     */
+    delete: (
+        data: DeleteWebhook,
+        options?: RequestOptions,
+    ) => Promise<DeleteWebhookResponse>;
+    /**
+     * Fetch all the webhooks of the application
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-webhooks
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllWebhooksResponse>} {@link FetchAllWebhooksResponse} - The promise response from fetching all webhooks
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllWebhooksResponse>;
+    /**
+     * Delete all the webhooks of the application
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-webhooks
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllWebhooksResponse>} {@link DeleteAllWebhooksResponse} - The promise response from deleting all webhooks
+     */
+    deleteAll: (options?: RequestOptions) => Promise<DeleteAllWebhooksResponse>;
+}
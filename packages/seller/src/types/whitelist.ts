@@ -0,0 +1,106 @@
+// Interfaces for various data structures
+
+import { BaseResponse, RequestOptions } from "./client";
+
+/**
+ * A whitelisted ip
+ */
+export interface WhitelistEntry {
+    /**
+     * The whitelisted ip
+     */
+    ip: string;
+}
+
+export interface AddWhitelist {
+    /**
+     * The ip to whitelist
+     */
+    ip: string;
+}
+
+export interface AddWhitelistResponse extends BaseResponse {}
+
+export interface AddWhitelistParams {
+    type: "addWhite";
+    ip: string;
+}
+
+export interface DeleteWhitelist {
+    /**
+     * The ip to remove from the whitelist
+     */
+    ip: string;
+}
+
+export interface DeleteWhitelistResponse extends BaseResponse {}
+
+export interface DeleteWhitelistParams {
+    type: "delWhite";
+    ip: string;
+}
+
+export interface FetchAllWhitelistsResponse extends BaseResponse {
+    whitelists: WhitelistEntry[];
+}
+
+export interface FetchAllWhitelistsParams {
+    type: "fetchallwhites";
+}
+
+export interface DeleteAllWhitelistsResponse extends BaseResponse {}
+
+export interface DeleteAllWhitelistsParams {
+    type: "delwhites";
+}
+
+export interface WhitelistService {
+    /**
+     * Whitelist an ip, keyauth only supports whitelisting ips.
+     *
+     * @see https://keyauth.readme.io/reference/add-whitelist
+     *
+     * @param {AddWhitelist} `data` - All the params needed to whitelist an ip
+     * @param {AddWhitelist['ip']} `data.ip` - The ip to whitelist
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<AddWhitelistResponse>} {@link AddWhitelistResponse} - The promise response from whitelisting an ip
+     */
+    add: (
+        data: AddWhitelist,
+        options?: RequestOptions,
+    ) => Promise<AddWhitelistResponse>;
+    /**
+     * Remove an ip from the whitelist.
+     *
+     * @see https://keyauth.readme.io/reference/delete-whitelist
+     *
+     * @param {DeleteWhitelist} `data` - All the params needed to remove an ip from the whitelist
+     * @param {DeleteWhitelist['ip']} `data.ip` - The ip to remove from the whitelist
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteWhitelistResponse>} {@link DeleteWhitelistResponse} - The promise response from removing an ip from the whitelist
+     */
+    delete: (
+        data: DeleteWhitelist,
+        options?: RequestOptions,
+    ) => Promise<DeleteWhitelistResponse>;
+    /**
+     * Fetch every whitelisted ip
+     *
+     * @see https://keyauth.readme.io/reference/fetch-all-whitelists
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<FetchAllWhitelistsResponse>} {@link FetchAllWhitelistsResponse} - The promise response from fetching the whitelist
+     */
+    all: (options?: RequestOptions) => Promise<FetchAllWhitelistsResponse>;
+    /**
+     * Remove every ip from the whitelist
+     *
+     * @see https://keyauth.readme.io/reference/delete-all-whitelists
+     *
+     * @param {RequestOptions} [options] - The abort signal and timeout for this call.
+     * @returns {Promise<DeleteAllWhitelistsResponse>} {@link DeleteAllWhitelistsResponse} - The promise response from clearing the whitelist
+     */
+    deleteAll: (
+        options?: RequestOptions,
+    ) => Promise<DeleteAllWhitelistsResponse>;
+}
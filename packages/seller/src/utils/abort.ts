@@ -0,0 +1,73 @@
+/**
+ * The signal for a single attempt, aborted when the caller aborts or the timeout runs out.
+ */
+export interface RequestSignal {
+    /**
+     * The signal to pass to the request
+     */
+    signal: AbortSignal;
+    /**
+     * Returns true if the timeout aborted the signal
+     */
+    timedOut: () => boolean;
+    /**
+     * Stop the timeout and stop listening to the caller's signal
+     */
+    clear: () => void;
+}
+
+/**
+ * Create the signal for a single attempt from the caller's signal and timeout.
+ *
+ * @param {AbortSignal} [signal] - The signal passed by the caller.
+ * @param {number} [timeoutMs] - The timeout in milliseconds, `0` or less turns the timeout off.
+ * @returns {RequestSignal} The signal for the attempt.
+ */
+export function createRequestSignal(
+    signal?: AbortSignal,
+    timeoutMs?: number,
+): RequestSignal {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    // Pass the caller's abort on to the attempt
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Abort the attempt when the timeout runs out
+    const timer =
+        timeoutMs && timeoutMs > 0
+            ? setTimeout(() => {
+                  timedOut = true;
+                  controller.abort();
+              }, timeoutMs)
+            : undefined;
+
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        clear: () => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        },
+    };
+}
+
+/**
+ * Wait for a number of milliseconds, resolves early if the signal is aborted.
+ *
+ * @param {number} ms - How long to wait in milliseconds.
+ * @param {AbortSignal} [signal] - The signal that ends the wait early.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve();
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener("abort", done, { once: true });
+    });
+}
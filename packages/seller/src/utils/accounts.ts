@@ -0,0 +1,84 @@
+// Import necessary modules and types
+import {
+    ACCOUNT_ROLE,
+    AccountBalance,
+    CreateAccount,
+    ManagerPermission,
+} from "../types";
+
+/**
+ * Every permission a manager can be given.
+ */
+const MANAGER_PERMISSIONS: ManagerPermission[] = [
+    "licenses",
+    "users",
+    "subscriptions",
+    "chats",
+    "sessions",
+    "webhooks",
+    "files",
+    "vars",
+    "logs",
+    "blacklists",
+    "settings",
+];
+
+/**
+ * Check the params for a new account before it is sent.
+ * Resellers can only get key levels and managers can only get permissions.
+ *
+ * @param {CreateAccount} account - The account to create.
+ * @returns {string | undefined} Why the params are invalid, `undefined` if they are valid.
+ */
+export function validateAccount({
+    role,
+    username,
+    password,
+    keyLevels,
+    permissions,
+}: CreateAccount): string | undefined {
+    if (!username) return "An account needs a username";
+    if (!password) return "An account needs a password";
+
+    if (role === ACCOUNT_ROLE.RESELLER) {
+        if (permissions?.length) {
+            return "Resellers can not be given permissions, only managers can";
+        }
+        if (keyLevels?.some((level) => !Number.isInteger(level) || level < 1)) {
+            return "Key levels have to be whole numbers of 1 or more";
+        }
+        return undefined;
+    }
+    if (role === ACCOUNT_ROLE.MANAGER) {
+        if (keyLevels?.length) {
+            return "Managers can not be given key levels, only resellers can";
+        }
+        if (!permissions?.length) {
+            return "Managers need at least one permission";
+        }
+        const unknown = permissions.find(
+            (permission) => !MANAGER_PERMISSIONS.includes(permission),
+        );
+        if (unknown !== undefined) return `Unknown permission ${unknown}`;
+        return undefined;
+    }
+    return `Unknown role ${role}, use Reseller or Manager`;
+}
+
+/**
+ * Check a reseller balance before it is sent.
+ *
+ * @param {Partial<AccountBalance>} balance - The balance to set.
+ * @returns {string | undefined} Why the balance is invalid, `undefined` if it is valid.
+ */
+export function validateBalance(
+    balance: Partial<AccountBalance>,
+): string | undefined {
+    for (const [expiry, amount] of Object.entries(balance)) {
+        if (amount === undefined) continue;
+        if (!Number.isInteger(amount) || amount < 0) {
+            return `The ${expiry} balance has to be a whole number of 0 or more`;
+        }
+    }
+    return undefined;
+}
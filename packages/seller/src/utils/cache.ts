@@ -0,0 +1,275 @@
+// Import necessary modules and types
+import { readFile, writeFile } from "fs/promises";
+import {
+    CacheableType,
+    CacheEndpointOptions,
+    CacheEntry,
+    CacheOptions,
+    CacheStorage,
+    EVENT_TYPE,
+    EventType,
+} from "../types";
+
+// The cached endpoints that change together
+const LICENSES: CacheableType[] = [EVENT_TYPE.FETCH_ALL_LICENSE];
+const USERNAMES: CacheableType[] = [EVENT_TYPE.GET_ALL_USERS_USERNAMES];
+const GLOBAL_VARS: CacheableType[] = [EVENT_TYPE.GET_GLOBAL_VAR];
+
+/**
+ * The cached endpoints that are cleared when a request of a type succeeds.
+ */
+export const CACHE_INVALIDATIONS: Partial<Record<EventType, CacheableType[]>> =
+    {
+        [EVENT_TYPE.CREATE_LICENSE]: LICENSES,
+        [EVENT_TYPE.CREATE_USER_FROM_LICENSE]: [...LICENSES, ...USERNAMES],
+        [EVENT_TYPE.DELETE_LICENSE]: LICENSES,
+        [EVENT_TYPE.DELETE_ALL_LICENSE]: LICENSES,
+        [EVENT_TYPE.DELETE_MULTIPLE_LICENSE]: LICENSES,
+        [EVENT_TYPE.DELETE_UNUSED_LICENSE]: LICENSES,
+        [EVENT_TYPE.DELETE_USED_LICENSE]: LICENSES,
+        [EVENT_TYPE.ADD_TIME_TO_UNUSED]: LICENSES,
+        [EVENT_TYPE.BAN_LICENSE]: LICENSES,
+        [EVENT_TYPE.UNBAN_LICENSE]: LICENSES,
+        [EVENT_TYPE.SET_LICENSE_NOTE]: LICENSES,
+        [EVENT_TYPE.CREATE_USER]: USERNAMES,
+        [EVENT_TYPE.DELETE_EXISTING_USER]: USERNAMES,
+        [EVENT_TYPE.DELETE_EXPIRED_USERS]: USERNAMES,
+        [EVENT_TYPE.DELETE_ALL_USERS]: USERNAMES,
+        [EVENT_TYPE.CREATE_GLOBAL_VAR]: GLOBAL_VARS,
+        [EVENT_TYPE.UPDATE_GLOBAL_VAR]: GLOBAL_VARS,
+        [EVENT_TYPE.DELETE_GLOBAL_VAR]: GLOBAL_VARS,
+        [EVENT_TYPE.DELETE_ALL_GLOBAL_VARS]: GLOBAL_VARS,
+    };
+
+/**
+ * Keeps cached responses in memory, they are lost when the process exits.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+    private _entries = new Map<string, CacheEntry>();
+
+    get(key: string): CacheEntry | undefined {
+        return this._entries.get(key);
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        this._entries.set(key, entry);
+    }
+
+    delete(key: string): void {
+        this._entries.delete(key);
+    }
+
+    keys(): string[] {
+        return [...this._entries.keys()];
+    }
+}
+
+/**
+ * Keeps cached responses in a json file so they are kept between restarts.
+ * The file is read on first use and written after every change.
+ */
+export class FileCacheStorage implements CacheStorage {
+    private _path: string;
+    private _entries: Promise<Map<string, CacheEntry>> | undefined;
+    private _writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a FileCacheStorage instance.
+     *
+     * @param {string} path - The path of the json file, it is created when it does not exist.
+     */
+    constructor(path: string) {
+        this._path = path;
+    }
+
+    /**
+     * Read the file the first time it is needed, a missing or broken file starts an empty cache.
+     *
+     * @returns {Promise<Map<string, CacheEntry>>} The cached responses by key.
+     */
+    private _load(): Promise<Map<string, CacheEntry>> {
+        this._entries ??= readFile(this._path, "utf8")
+            .then(
+                (raw) =>
+                    new Map<string, CacheEntry>(
+                        Object.entries(JSON.parse(raw)),
+                    ),
+            )
+            .catch(() => new Map<string, CacheEntry>());
+        return this._entries;
+    }
+
+    /**
+     * Write every cached response to the file, writes happen one after the other.
+     *
+     * @param {Map<string, CacheEntry>} entries - The cached responses by key.
+     */
+    private _save(entries: Map<string, CacheEntry>): Promise<void> {
+        this._writing = this._writing
+            .catch(() => {})
+            .then(() =>
+                writeFile(
+                    this._path,
+                    JSON.stringify(Object.fromEntries(entries)),
+                ),
+            );
+        return this._writing;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return (await this._load()).get(key);
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const entries = await this._load();
+        entries.set(key, entry);
+        await this._save(entries);
+    }
+
+    async delete(key: string): Promise<void> {
+        const entries = await this._load();
+        if (entries.delete(key)) await this._save(entries);
+    }
+
+    async keys(): Promise<string[]> {
+        return [...(await this._load()).keys()];
+    }
+}
+
+/**
+ * Caches the successful responses of read heavy endpoints with a ttl for each endpoint.
+ * A stale response can still be returned while it is fetched again in the background.
+ */
+export class ResponseCache {
+    private _storage: CacheStorage;
+    private _ttl: number;
+    private _staleWhileRevalidate: number;
+    private _endpoints: CacheOptions["endpoints"];
+    private _revalidating = new Map<string, Promise<unknown>>();
+    /**
+     * Bumped on every invalidation so a fetch that started before it does not store its stale response.
+     */
+    private _generation = 0;
+
+    /**
+     * Creates a ResponseCache instance.
+     *
+     * @param {CacheOptions} [options] - The storage and how long responses are cached for.
+     */
+    constructor(options: CacheOptions = {}) {
+        this._storage = options.storage ?? new MemoryCacheStorage();
+        this._ttl = options.ttl ?? 30000;
+        this._staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+        this._endpoints = options.endpoints ?? {};
+    }
+
+    /**
+     * The ttl and stale while revalidate time of an endpoint.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @returns {Required<CacheEndpointOptions> | undefined} The times in milliseconds, `undefined` if the endpoint is not cached.
+     */
+    private _options(
+        type: CacheableType,
+    ): Required<CacheEndpointOptions> | undefined {
+        const endpoint = this._endpoints?.[type];
+        if (endpoint === false) return undefined;
+        const ttl = endpoint?.ttl ?? this._ttl;
+        if (ttl <= 0) return undefined;
+        return {
+            ttl,
+            staleWhileRevalidate:
+                endpoint?.staleWhileRevalidate ?? this._staleWhileRevalidate,
+        };
+    }
+
+    /**
+     * Fetch a response and store it when it was successful and nothing was invalidated while it was fetched.
+     *
+     * @param {string} key - The key to store the response under.
+     * @param {Required<CacheEndpointOptions>} options - How long the response is cached for.
+     * @param {() => Promise<T>} fetch - Sends the request.
+     * @returns {Promise<T>} The response.
+     */
+    private async _fetch<T extends { success?: boolean }>(
+        key: string,
+        { ttl, staleWhileRevalidate }: Required<CacheEndpointOptions>,
+        fetch: () => Promise<T>,
+    ): Promise<T> {
+        const generation = this._generation;
+        const response = await fetch();
+        if (response.success !== false && generation === this._generation) {
+            const now = Date.now();
+            await this._storage.set(key, {
+                value: { ...response },
+                expiresAt: now + ttl,
+                staleUntil: now + ttl + staleWhileRevalidate,
+            });
+        }
+        return response;
+    }
+
+    /**
+     * Return the cached response of an endpoint or fetch it when there is none.
+     *
+     * @param {CacheableType} type - The endpoint.
+     * @param {string} id - What makes the response unique for the endpoint, like the variable name.
+     * @param {() => Promise<T>} fetch - Sends the request when the response is not cached.
+     * @param {(error: unknown) => void} onRevalidateError - Called when fetching a stale response again in the background fails.
+     * @returns {Promise<T>} The cached or fetched response.
+     */
+    async wrap<T extends { success?: boolean }>(
+        type: CacheableType,
+        id: string,
+        fetch: () => Promise<T>,
+        onRevalidateError: (error: unknown) => void,
+    ): Promise<T> {
+        const options = this._options(type);
+        if (!options) return fetch();
+
+        const key = `${type}:${id}`;
+        const entry = await this._storage.get(key);
+        const now = Date.now();
+
+        // A fresh response is returned straight away
+        if (entry && now < entry.expiresAt) return { ...entry.value };
+
+        // A stale response is returned while it is fetched again once in the background
+        if (entry && now < entry.staleUntil) {
+            if (!this._revalidating.has(key)) {
+                const revalidate = this._fetch(key, options, fetch)
+                    .catch(onRevalidateError)
+                    .finally(() => this._revalidating.delete(key));
+                this._revalidating.set(key, revalidate);
+            }
+            return { ...entry.value };
+        }
+        return this._fetch(key, options, fetch);
+    }
+
+    /**
+     * Remove the cached responses of endpoints.
+     *
+     * @param {CacheableType[]} [types] - The endpoints to clear, every endpoint is cleared when left out.
+     */
+    async invalidate(types?: CacheableType[]): Promise<void> {
+        this._generation++;
+        const keys = await this._storage.keys();
+        for (const key of keys) {
+            const type = key.slice(0, key.indexOf(":"));
+            if (!types || types.includes(type as CacheableType)) {
+                await this._storage.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Remove the cached responses a successful request of a type changed.
+     *
+     * @param {EventType} type - The request type that succeeded.
+     */
+    async invalidateAfter(type: EventType): Promise<void> {
+        const types = CACHE_INVALIDATIONS[type];
+        if (types) await this.invalidate(types);
+    }
+}
@@ -0,0 +1,131 @@
+// Import necessary modules and types
+import { ERROR_CODE, EventType } from "../types";
+
+/**
+ * Details attached to every error thrown by the seller api
+ */
+export interface KeyAuthErrorDetails {
+    /**
+     * The error code for the error, see {@link ERROR_CODE}
+     */
+    code: ERROR_CODE;
+    /**
+     * The request type that caused the error
+     */
+    type: EventType;
+    /**
+     * The raw response from the keyauth api if there was one
+     */
+    response?: any;
+    /**
+     * The underlying error if there was one
+     */
+    cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the keyauth seller api.
+ */
+export class KeyAuthError extends Error {
+    /**
+     * The error code for the error, see {@link ERROR_CODE}
+     */
+    public readonly code: ERROR_CODE;
+    /**
+     * The request type that caused the error
+     */
+    public readonly type: EventType;
+    /**
+     * The raw response from the keyauth api if there was one
+     */
+    public readonly response?: any;
+    /**
+     * The underlying error if there was one
+     */
+    public readonly cause?: unknown;
+
+    /**
+     * Constructs a KeyAuthError instance.
+     * @param {string} message - The error message.
+     * @param {KeyAuthErrorDetails} details - The error code, request type and raw response.
+     */
+    constructor(
+        message: string,
+        { code, type, response, cause }: KeyAuthErrorDetails,
+    ) {
+        super(message);
+        // Restore the prototype chain so instanceof works when compiled to ES5/ES2019
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.code = code;
+        this.type = type;
+        this.response = response;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Thrown when the keyauth api rate limits the request.
+ */
+export class RateLimitedError extends KeyAuthError {
+    constructor(message: string, details: Omit<KeyAuthErrorDetails, "code">) {
+        super(message, { ...details, code: ERROR_CODE.K_RL });
+    }
+}
+
+/**
+ * Thrown when the request never got a usable response, for example a network error or a bad HTTP status.
+ */
+export class TransportError extends KeyAuthError {
+    /**
+     * The HTTP status code if the server responded
+     */
+    public readonly status?: number;
+
+    constructor(
+        message: string,
+        details: Omit<KeyAuthErrorDetails, "code"> &
+            Partial<Pick<KeyAuthErrorDetails, "code">> & { status?: number },
+    ) {
+        super(message, { code: ERROR_CODE.K_T, ...details });
+        this.status = details.status;
+    }
+}
+
+/**
+ * Thrown when a request did not get a response before the timeout ran out, this can be retried like any other transport error.
+ */
+export class TimeoutError extends TransportError {
+    constructor(message: string, details: Omit<KeyAuthErrorDetails, "code">) {
+        super(message, { ...details, code: ERROR_CODE.K_TO });
+    }
+}
+
+/**
+ * Thrown when the caller aborted the request with an `AbortSignal`.
+ * This is always thrown even when `throwOnError` is disabled.
+ */
+export class AbortError extends KeyAuthError {
+    constructor(message: string, details: Omit<KeyAuthErrorDetails, "code">) {
+        super(message, { ...details, code: ERROR_CODE.K_A });
+    }
+}
+
+/**
+ * Thrown when a call is made with params keyauth would reject, no request is sent.
+ * This is always thrown even when `throwOnError` is disabled.
+ */
+export class InvalidParamsError extends KeyAuthError {
+    constructor(message: string, details: Omit<KeyAuthErrorDetails, "code">) {
+        super(message, { ...details, code: ERROR_CODE.K_IP });
+    }
+}
+
+/**
+ * Thrown when keyauth rejects the seller key.
+ */
+export class InvalidApplicationError extends KeyAuthError {
+    constructor(message: string, details: Omit<KeyAuthErrorDetails, "code">) {
+        super(message, { ...details, code: ERROR_CODE.K_ISK });
+    }
+}
@@ -0,0 +1,233 @@
+// Import necessary modules and types
+import {
+    FetchAllUsersResponse,
+    FetchAllUsersVarsResponse,
+    Key,
+    LicenseEntry,
+    QueryOptions,
+    UserEntry,
+    UserVarEntry,
+} from "../types";
+
+/**
+ * The keys of a query that are not filters.
+ */
+const QUERY_OPTIONS = ["sort", "page", "pageSize"];
+
+/**
+ * Turn a unix time in seconds, or a date string, into a date.
+ *
+ * @param {unknown} value - The value keyauth sent.
+ * @returns {Date | null} The date, `null` if it is not set or not a date.
+ */
+function toDate(value: unknown): Date | null {
+    if (value instanceof Date) return value;
+    if (
+        value === undefined ||
+        value === null ||
+        value === "" ||
+        value === "0"
+    ) {
+        return null;
+    }
+    const date = /^\d+$/.test(String(value))
+        ? new Date(Number(value) * 1000)
+        : new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Turn a value keyauth sent for something that is not always set into a string or `null`.
+ *
+ * @param {unknown} value - The value keyauth sent.
+ * @returns {string | null} The string, `null` if it is not set.
+ */
+function toOptional(value: unknown): string | null {
+    return value === undefined || value === null || value === ""
+        ? null
+        : String(value);
+}
+
+/**
+ * Turn a license from `license.fetchAll` into a license with proper types.
+ *
+ * @param {Key} key - The license.
+ * @returns {LicenseEntry} The license with numbers, booleans and dates.
+ */
+export function toLicenseEntry(key: Key): LicenseEntry {
+    const banReason = toOptional(key.banned);
+    return {
+        id: Number(key.id),
+        key: key.key,
+        note: key.note ?? "",
+        expires: Number(key.expires),
+        status: key.status,
+        used: key.status === "Used" || toOptional(key.usedBy) !== null,
+        banned: banReason !== null || key.status === "Banned",
+        banReason,
+        level: Number(key.level),
+        genBy: key.genBy,
+        genDate: toDate(key.genDate),
+        usedOn: toDate(key.usedOn),
+        usedBy: toOptional(key.usedBy),
+        app: key.app,
+    };
+}
+
+/**
+ * Turn a user from `user.all` into a user with proper types.
+ *
+ * @param {FetchAllUsersResponse['users'][number]} user - The user.
+ * @returns {UserEntry} The user with numbers, booleans and dates.
+ */
+export function toUserEntry(
+    user: FetchAllUsersResponse["users"][number],
+): UserEntry {
+    const banReason = toOptional(user.banned);
+    return {
+        id: Number(user.id),
+        username: user.username,
+        email: user.email ?? "",
+        hwid: toOptional(user.hwid),
+        ip: user.ip ?? "",
+        app: user.app,
+        owner: user.owner,
+        createDate: toDate(user.createDate),
+        lastLogin: toDate(user.lastLogin),
+        banned: banReason !== null,
+        banReason,
+        cooldown: Number(user.cooldown ?? 0),
+    };
+}
+
+/**
+ * Turn a user variable from `user.var.getAll` into a user variable entry.
+ *
+ * @param {FetchAllUsersVarsResponse['vars'][number]} userVar - The user variable.
+ * @returns {UserVarEntry} The user variable.
+ */
+export function toUserVarEntry(
+    userVar: FetchAllUsersVarsResponse["vars"][number],
+): UserVarEntry {
+    return {
+        user: userVar.user,
+        name: userVar.name,
+        data: String(userVar.data ?? ""),
+    };
+}
+
+/**
+ * Turn a value into something that can be compared, dates are compared by their time.
+ *
+ * @param {unknown} value - The value.
+ * @returns {unknown} The value to compare.
+ */
+function comparable(value: unknown): unknown {
+    return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Check a single field against its filter.
+ *
+ * @param {unknown} value - The value of the field.
+ * @param {unknown} filter - The filter for the field.
+ * @returns {boolean} If the field matches.
+ */
+function matches(value: unknown, filter: unknown): boolean {
+    if (filter === null) return value === null;
+    if (filter instanceof RegExp) {
+        return typeof value === "string" && filter.test(value);
+    }
+    if (Array.isArray(filter)) return filter.some((f) => matches(value, f));
+    if (typeof filter !== "object" || filter instanceof Date) {
+        return comparable(value) === comparable(filter);
+    }
+
+    // A range only matches fields that are set
+    if (value === null || value === undefined) return false;
+    const v = comparable(value) as number;
+    const range = filter as Record<string, unknown>;
+    const bound = (key: string) => comparable(range[key]) as number;
+    return (
+        (range.eq === undefined || v === bound("eq")) &&
+        (range.ne === undefined || v !== bound("ne")) &&
+        (range.gt === undefined || v > bound("gt")) &&
+        (range.gte === undefined || v >= bound("gte")) &&
+        (range.lt === undefined || v < bound("lt")) &&
+        (range.lte === undefined || v <= bound("lte")) &&
+        (range.after === undefined || v > bound("after")) &&
+        (range.before === undefined || v < bound("before"))
+    );
+}
+
+/**
+ * Check the pagination of a query before anything is sent.
+ *
+ * @param {Pick<QueryOptions<unknown>, "page" | "pageSize">} query - The query.
+ * @returns {string | undefined} Why the pagination is invalid, `undefined` if it is valid.
+ */
+export function validateQuery({
+    page,
+    pageSize,
+}: Pick<QueryOptions<unknown>, "page" | "pageSize">): string | undefined {
+    if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+        return "The page has to be a whole number of 1 or more";
+    }
+    if (
+        pageSize !== undefined &&
+        (!Number.isInteger(pageSize) || pageSize < 1)
+    ) {
+        return "The page size has to be a whole number of 1 or more";
+    }
+    return undefined;
+}
+
+/**
+ * Filter, sort and paginate a list of entries.
+ *
+ * @param {T[]} entries - The entries to query.
+ * @param {QueryOptions<T>} query - The filters, sorting and pagination, filters that are `undefined` are ignored.
+ * @returns {{ items: T[]; total: number; page: number; pages: number }} The matches on the page and how many there are.
+ */
+export function runQuery<T extends object>(
+    entries: T[],
+    query: QueryOptions<T>,
+): { items: T[]; total: number; page: number; pages: number } {
+    // Every filter that is set has to match
+    const filters = Object.entries(query).filter(
+        ([key, filter]) => !QUERY_OPTIONS.includes(key) && filter !== undefined,
+    );
+    const matched = entries.filter((entry) =>
+        filters.every(([key, filter]) =>
+            matches((entry as Record<string, unknown>)[key], filter),
+        ),
+    );
+
+    // Sort the matches, fields that are not set always go last
+    const { sort } = query;
+    if (sort) {
+        const direction = sort.order === "desc" ? -1 : 1;
+        matched.sort((a, b) => {
+            const x = comparable(a[sort.by]);
+            const y = comparable(b[sort.by]);
+            if (x === y) return 0;
+            if (x === null || x === undefined) return 1;
+            if (y === null || y === undefined) return -1;
+            if (typeof x === "string" && typeof y === "string") {
+                return x.localeCompare(y) * direction;
+            }
+            // Numbers, dates and booleans are compared as numbers
+            return (Number(x) < Number(y) ? -1 : 1) * direction;
+        });
+    }
+
+    // Cut out the page that was asked for
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? Math.max(matched.length, 1);
+    return {
+        items: matched.slice((page - 1) * pageSize, page * pageSize),
+        total: matched.length,
+        page,
+        pages: Math.ceil(matched.length / pageSize),
+    };
+}
@@ -0,0 +1,98 @@
+// Import necessary modules and types
+import {
+    AppMessages,
+    AppSettings,
+    UpdateAppSettings,
+    UpdateAppSettingsParams,
+} from "../types";
+
+/**
+ * The keyauth param name of every setting, `getsettings` responds and `updatesettings` is sent with these names.
+ */
+const SETTING_PARAMS: Record<Exclude<keyof AppSettings, "messages">, string> = {
+    enabled: "enabled",
+    hwidLock: "hwidcheck",
+    vpnBlock: "vpnblock",
+    hashCheck: "hashcheck",
+    version: "ver",
+    download: "download",
+    webhook: "webhook",
+    minHwidLength: "minHwid",
+    sessionExpiry: "sessionexpiry",
+};
+
+/**
+ * The keyauth param name of every custom message.
+ */
+const MESSAGE_PARAMS: Record<keyof AppMessages, string> = {
+    appDisabled: "appdisabled",
+    usernameTaken: "usernametaken",
+    keyNotFound: "keynotfound",
+    keyUsed: "keyused",
+    noSubLevel: "nosublevel",
+    usernameNotFound: "usernamenotfound",
+    passMismatch: "passmismatch",
+    hwidMismatch: "hwidmismatch",
+    noActiveSubs: "noactivesubs",
+    hwidBlacked: "hwidblacked",
+    pausedSub: "pausedsub",
+    vpnBlocked: "vpnblocked",
+    keyBanned: "keybanned",
+    userBanned: "userbanned",
+    sessionUnauthed: "sessionunauthed",
+    hashCheckFail: "hashcheckfail",
+};
+
+/**
+ * Read the settings from a `getsettings` response.
+ *
+ * @param {Record<string, any>} response - The response from keyauth.
+ * @returns {AppSettings} The settings of the application.
+ */
+export function toAppSettings(response: Record<string, any>): AppSettings {
+    const bool = (value: unknown) =>
+        value === true || String(value) === "1" || value === "true";
+    const messages = {} as AppMessages;
+    for (const [key, param] of Object.entries(MESSAGE_PARAMS)) {
+        messages[key as keyof AppMessages] = String(response[param] ?? "");
+    }
+    return {
+        enabled: bool(response[SETTING_PARAMS.enabled]),
+        hwidLock: bool(response[SETTING_PARAMS.hwidLock]),
+        vpnBlock: bool(response[SETTING_PARAMS.vpnBlock]),
+        hashCheck: bool(response[SETTING_PARAMS.hashCheck]),
+        version: String(
+            response[SETTING_PARAMS.version] ?? response.version ?? "",
+        ),
+        download: String(response[SETTING_PARAMS.download] ?? ""),
+        webhook: String(response[SETTING_PARAMS.webhook] ?? ""),
+        minHwidLength: Number(response[SETTING_PARAMS.minHwidLength] ?? 0),
+        sessionExpiry: Number(response[SETTING_PARAMS.sessionExpiry] ?? 0),
+        messages,
+    };
+}
+
+/**
+ * Turn the settings to change into `updatesettings` params, booleans are sent as `1` and `0`.
+ *
+ * @param {UpdateAppSettings} settings - The settings to change.
+ * @returns {UpdateAppSettingsParams} The params to send, settings that are left out are not included.
+ */
+export function toSettingsParams({
+    messages,
+    ...settings
+}: UpdateAppSettings): UpdateAppSettingsParams {
+    const params: UpdateAppSettingsParams = { type: "updatesettings" };
+    for (const [key, value] of Object.entries(settings)) {
+        const param = SETTING_PARAMS[key as keyof typeof SETTING_PARAMS];
+        if (param === undefined || value === undefined) continue;
+        params[param] =
+            typeof value === "boolean" ? (value ? "1" : "0") : String(value);
+    }
+    for (const [key, value] of Object.entries(messages ?? {})) {
+        const param = MESSAGE_PARAMS[key as keyof AppMessages];
+        if (param === undefined || value === undefined) continue;
+        params[param] = value;
+    }
+    return params;
+}
@@ -0,0 +1,294 @@
+// Import necessary modules and types
+import { createReadStream, createWriteStream } from "fs";
+import { readFile } from "fs/promises";
+import { once } from "events";
+import { extname } from "path";
+import { createInterface } from "readline";
+import {
+    LicenseRecord,
+    SubscriptionRecord,
+    TransferFormat,
+    UserRecord,
+    UserVarRecord,
+} from "../types";
+
+/**
+ * The columns written for every license, in order.
+ */
+export const LICENSE_COLUMNS: (keyof LicenseRecord)[] = [
+    "key",
+    "note",
+    "expires",
+    "level",
+    "status",
+    "genBy",
+    "genDate",
+    "usedOn",
+    "usedBy",
+    "banned",
+];
+
+/**
+ * The columns written for every user, in order.
+ */
+export const USER_COLUMNS: (keyof UserRecord)[] = [
+    "username",
+    "email",
+    "hwid",
+    "ip",
+    "createDate",
+    "lastLogin",
+    "banned",
+    "cooldown",
+];
+
+/**
+ * The columns written for every user variable, in order.
+ */
+export const USER_VAR_COLUMNS: (keyof UserVarRecord)[] = [
+    "user",
+    "name",
+    "data",
+];
+
+/**
+ * The columns written for every subscription, in order.
+ */
+export const SUBSCRIPTION_COLUMNS: (keyof SubscriptionRecord)[] = [
+    "name",
+    "level",
+];
+
+/**
+ * Work out the format of an export or import file.
+ *
+ * @param {string} path - The path of the file.
+ * @param {TransferFormat} [format] - The format that was passed, this always wins.
+ * @returns {TransferFormat} The format passed, or the one from the file extension, or `json`.
+ */
+export function resolveFormat(
+    path: string,
+    format?: TransferFormat,
+): TransferFormat {
+    if (format) return format;
+    const extension = extname(path).slice(1).toLowerCase();
+    if (extension === "csv") return "csv";
+    if (extension === "ndjson" || extension === "jsonl") return "ndjson";
+    return "json";
+}
+
+/**
+ * Turn a value into a csv field, fields with a comma, quote or new line are quoted.
+ *
+ * @param {unknown} value - The value of the field.
+ * @returns {string} The csv field.
+ */
+function toCsvField(value: unknown): string {
+    const text = value === undefined || value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Split a csv row into its fields.
+ *
+ * @param {string} row - The row, it can hold new lines inside quoted fields.
+ * @returns {string[] | undefined} The fields, `undefined` if a quoted field is not closed yet.
+ */
+function parseCsvRow(row: string): string[] | undefined {
+    const fields: string[] = [];
+    let field = "";
+    let quoted = false;
+    for (let i = 0; i < row.length; i++) {
+        const char = row[i];
+        if (quoted) {
+            if (char !== '"') field += char;
+            // A doubled quote is a quote inside the field
+            else if (row[i + 1] === '"') field += row[i++];
+            else quoted = false;
+        } else if (char === '"') quoted = true;
+        else if (char === ",") {
+            fields.push(field);
+            field = "";
+        } else field += char;
+    }
+    if (quoted) return undefined;
+    fields.push(field);
+    return fields;
+}
+
+/**
+ * Write records to a file one at a time, waiting for the file to drain when its buffer is full.
+ *
+ * @param {string} path - The path of the file, an existing file is replaced.
+ * @param {TransferFormat} format - The format to write the file in.
+ * @param {string[]} columns - The columns to write, in order, for every record.
+ * @param {Iterable<Record<string, unknown>>} records - The records to write.
+ * @returns {Promise<number>} How many records were written.
+ * @throws {Error} If the file can not be written.
+ */
+export async function writeRecords(
+    path: string,
+    format: TransferFormat,
+    columns: string[],
+    records: Iterable<Record<string, unknown>>,
+): Promise<number> {
+    const stream = createWriteStream(path, { encoding: "utf8" });
+    const failed = once(stream, "error").then(([error]) => {
+        throw error;
+    });
+    // Stop unhandled rejections when the file is written without an error
+    failed.catch(() => {});
+
+    const write = async (chunk: string) => {
+        if (!stream.write(chunk)) {
+            await Promise.race([once(stream, "drain"), failed]);
+        }
+    };
+
+    let count = 0;
+    if (format === "csv") await write(`${columns.join(",")}\n`);
+    if (format === "json") await write("[");
+    for (const record of records) {
+        // Only write the columns asked for, in the same order for every record
+        const picked: Record<string, unknown> = {};
+        for (const column of columns) picked[column] = record[column] ?? "";
+
+        if (format === "csv") {
+            await write(
+                `${columns.map((c) => toCsvField(picked[c])).join(",")}\n`,
+            );
+        } else if (format === "ndjson") {
+            await write(`${JSON.stringify(picked)}\n`);
+        } else {
+            await write(
+                `${count === 0 ? "\n" : ",\n"}  ${JSON.stringify(picked)}`,
+            );
+        }
+        count++;
+    }
+    if (format === "json") await write(count === 0 ? "]\n" : "\n]\n");
+
+    // Wait for everything to be flushed to the file
+    stream.end();
+    await Promise.race([once(stream, "finish"), failed]);
+    return count;
+}
+
+/**
+ * Read records from a file, csv and ndjson files are read a line at a time.
+ *
+ * @param {string} path - The path of the file.
+ * @param {TransferFormat} format - The format the file is in.
+ * @returns {AsyncGenerator<Record<string, unknown>>} Every record in the order of the file.
+ * @throws {Error} If the file can not be read or is not valid for its format.
+ */
+export async function* readRecords(
+    path: string,
+    format: TransferFormat,
+): AsyncGenerator<Record<string, unknown>> {
+    // A json file is a single array so it has to be read as a whole
+    if (format === "json") {
+        const records: unknown = JSON.parse(await readFile(path, "utf8"));
+        if (!Array.isArray(records)) {
+            throw new Error(`${path} does not hold a json array`);
+        }
+        for (const record of records) yield record;
+        return;
+    }
+
+    const lines = createInterface({
+        input: createReadStream(path, { encoding: "utf8" }),
+        crlfDelay: Infinity,
+    });
+    let columns: string[] | undefined;
+    let pending = "";
+    for await (const line of lines) {
+        if (format === "ndjson") {
+            if (line.trim() !== "") yield JSON.parse(line);
+            continue;
+        }
+
+        // A quoted csv field can carry on over more than one line
+        pending = pending === "" ? line : `${pending}\n${line}`;
+        const fields = parseCsvRow(pending);
+        if (fields === undefined) continue;
+        pending = "";
+
+        if (columns === undefined) {
+            columns = fields;
+            continue;
+        }
+        if (fields.length === 1 && fields[0] === "") continue;
+        const record: Record<string, unknown> = {};
+        columns.forEach((column, i) => (record[column] = fields[i] ?? ""));
+        yield record;
+    }
+    if (pending !== "")
+        throw new Error(`${path} has a quoted field that is not closed`);
+}
+
+/**
+ * Check a license from an import can be created with `license.create`.
+ *
+ * @param {string} key - The license key.
+ * @param {Record<string, unknown>} record - The license from the file.
+ * @returns {string | undefined} Why the license can not be created, `undefined` if it can.
+ */
+export function validateLicenseRecord(
+    key: string,
+    record: Record<string, unknown>,
+): string | undefined {
+    // The key is sent as the mask so a `*` would be swapped for a random character
+    if (key.includes("*")) {
+        return "License keys with a * in them can not be recreated";
+    }
+    const level = Number(record.level || 1);
+    if (!Number.isInteger(level) || level < 1) {
+        return "The level has to be a whole number of 1 or more";
+    }
+    const expires = Number(record.expires || 86400);
+    if (!Number.isFinite(expires) || expires <= 0) {
+        return "The expiry has to be a number of seconds above 0";
+    }
+    return undefined;
+}
+
+/**
+ * Read why a license or user from an import was banned.
+ *
+ * @param {Record<string, unknown>} record - The license or user from the file.
+ * @returns {string | undefined} The ban reason, `undefined` if the record is not banned.
+ */
+export function getBanReason(
+    record: Record<string, unknown>,
+): string | undefined {
+    const reason = record.banned;
+    if (reason !== undefined && reason !== null && reason !== "") {
+        return String(reason);
+    }
+    // Licenses can show as banned without a reason
+    return record.status === "Banned" ? "Banned" : undefined;
+}
+
+/**
+ * Check if a failed fetch of every record only failed because there are none yet.
+ *
+ * @param {string} message - The message of the failed fetch, like `No keys found`.
+ * @returns {boolean} True if the application has no records of that kind.
+ */
+export function isEmptyListMessage(message: string): boolean {
+    return /^No .+ found$/i.test(message.trim());
+}
+
+/**
+ * Find a free name for a record that is renamed on import, like `name-1` then `name-2`.
+ *
+ * @param {string} name - The name that is taken.
+ * @param {Set<string>} taken - Every name that is taken.
+ * @returns {string} The first free name.
+ */
+export function freeName(name: string, taken: Set<string>): string {
+    let i = 1;
+    while (taken.has(`${name}-${i}`)) i++;
+    return `${name}-${i}`;
+}
@@ -0,0 +1,119 @@
+// Import necessary modules and types
+import type { AxiosInstance } from "axios";
+import type { Transport, TransportRequest, TransportResponse } from "../types";
+
+/**
+ * Build the url with the query params, `undefined` and `null` params are left out.
+ *
+ * @param {string} url - The base url.
+ * @param {Record<string, any>} params - The query params.
+ * @returns {string} The url with the query string.
+ */
+function buildUrl(url: string, params: Record<string, any>): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+            query.append(key, String(value));
+        }
+    }
+    return `${url}${url.includes("?") ? "&" : "?"}${query.toString()}`;
+}
+
+/**
+ * Parse a raw response body, anything that is not json is passed on as it is.
+ *
+ * @param {string} body - The raw response body.
+ * @returns {any} The parsed body.
+ */
+export function parseBody(body: string): any {
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+/**
+ * The default transport, sends requests with the global `fetch`.
+ */
+export class FetchTransport implements Transport {
+    async send({
+        url,
+        params,
+        headers,
+        signal,
+    }: TransportRequest): Promise<TransportResponse> {
+        const response = await fetch(buildUrl(url, params), {
+            method: "GET",
+            headers,
+            signal,
+        });
+
+        // Copy the headers into a plain object
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+            responseHeaders[key.toLowerCase()] = value;
+        });
+
+        return {
+            status: response.status,
+            headers: responseHeaders,
+            body: await response.text(),
+        };
+    }
+}
+
+/**
+ * Sends requests with an axios instance, axios is not installed with this package so pass your own instance.
+ *
+ * @example
+ * const sellerApi = new SellerApi(seller, { transport: new AxiosTransport(axios.create()) });
+ */
+export class AxiosTransport implements Transport {
+    private _axiosInstance: AxiosInstance;
+
+    /**
+     * Constructs an AxiosTransport instance.
+     * @param {AxiosInstance} axiosInstance - The axios instance to send requests with.
+     */
+    constructor(axiosInstance: AxiosInstance) {
+        this._axiosInstance = axiosInstance;
+    }
+
+    async send({
+        url,
+        params,
+        headers,
+        signal,
+    }: TransportRequest): Promise<TransportResponse> {
+        const response = await this._axiosInstance.request({
+            url,
+            method: "GET",
+            params,
+            headers,
+            signal,
+            // Keep the raw body and let the api client decide what a bad status is
+            responseType: "text",
+            transformResponse: (data) => data,
+            validateStatus: () => true,
+        });
+
+        // Copy the headers into a plain object
+        const responseHeaders: Record<string, string> = {};
+        for (const [key, value] of Object.entries(response.headers)) {
+            if (value === undefined || value === null) continue;
+            responseHeaders[key.toLowerCase()] = Array.isArray(value)
+                ? value.join(", ")
+                : String(value);
+        }
+
+        return {
+            status: response.status,
+            headers: responseHeaders,
+            body:
+                typeof response.data === "string"
+                    ? response.data
+                    : JSON.stringify(response.data),
+        };
+    }
+}
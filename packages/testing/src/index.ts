@@ -0,0 +1,5 @@
+import MockKeyAuthServer from "./server";
+import MockApp from "./server/app";
+export * from "./types";
+
+export { MockKeyAuthServer, MockApp };
@@ -0,0 +1,391 @@
+// Import necessary modules and types
+import {
+    CreateMockApp,
+    MockAccount,
+    MockBlacklist,
+    MockChannel,
+    MockFile,
+    MockLicense,
+    MockLog,
+    MockSession,
+    MockSubscription,
+    MockUser,
+    MockUserSubscription,
+    MockWebhook,
+} from "../types";
+import { createId, createLicenseKey, unixTime } from "../utils/random";
+
+/**
+ * The in-memory state of a single mock application, every collection can be read and changed directly from a test.
+ */
+export default class MockApp {
+    /**
+     * The application name sent with `init`
+     */
+    public readonly name: string;
+    /**
+     * The owner id sent with `init`
+     */
+    public readonly ownerid: string;
+    /**
+     * The version the application has to send with `init`
+     */
+    public version: string;
+    /**
+     * The application secret, when set every client response is signed
+     */
+    public readonly secret: string | undefined;
+    /**
+     * The seller key needed for requests to the seller api
+     */
+    public readonly sellerKey: string;
+    /**
+     * The users by username
+     */
+    public readonly users = new Map<string, MockUser>();
+    /**
+     * The licenses by key
+     */
+    public readonly licenses = new Map<string, MockLicense>();
+    /**
+     * The subscriptions by name
+     */
+    public readonly subscriptions = new Map<string, MockSubscription>();
+    /**
+     * The global variables by name
+     */
+    public readonly vars = new Map<string, string>();
+    /**
+     * The global variables that can be read without logging in
+     */
+    public readonly publicVars = new Set<string>();
+    /**
+     * The chat channels by name
+     */
+    public readonly channels = new Map<string, MockChannel>();
+    /**
+     * The unix time in seconds every muted user is muted until, by username
+     */
+    public readonly mutes = new Map<string, number>();
+    /**
+     * The files by id
+     */
+    public readonly files = new Map<string, MockFile>();
+    /**
+     * The webhooks by id
+     */
+    public readonly webhooks = new Map<string, MockWebhook>();
+    /**
+     * The sessions by id
+     */
+    public readonly sessions = new Map<string, MockSession>();
+    /**
+     * The blacklisted hwids and ips by hwid or ip
+     */
+    public readonly blacklist = new Map<string, MockBlacklist>();
+    /**
+     * The whitelisted ips
+     */
+    public readonly whitelist = new Set<string>();
+    /**
+     * The logs sent by the client api
+     */
+    public readonly logs: MockLog[] = [];
+    /**
+     * The settings changed with the seller api by keyauth param name, like `hwidcheck` and `download`
+     */
+    public readonly settings: Record<string, string> = {
+        enabled: "1",
+        hwidcheck: "1",
+        vpnblock: "0",
+        hashcheck: "0",
+        download: "",
+        webhook: "",
+        minHwid: "20",
+        sessionexpiry: "3600",
+    };
+    /**
+     * If the application was paused with the seller api
+     */
+    public paused = false;
+    /**
+     * The program hashes added with the seller api
+     */
+    public readonly hashes = new Set<string>();
+    /**
+     * The reseller and manager accounts by username
+     */
+    public readonly accounts = new Map<string, MockAccount>();
+
+    private _nextId = 1;
+    // The enckey of every session, kept after a session is killed so its responses can still be signed
+    private _enckeys = new Map<string, string>();
+
+    /**
+     * Constructs a MockApp instance with a `default` subscription at level 1.
+     * @param {CreateMockApp} options - The application to create.
+     */
+    constructor({ name, ownerid, version, secret, sellerKey }: CreateMockApp) {
+        this.name = name;
+        this.ownerid = ownerid;
+        this.version = version ?? "1.0";
+        this.secret = secret;
+        this.sellerKey = sellerKey ?? "mock-seller-key";
+        this.addSubscription("default", "1");
+    }
+
+    /**
+     * Add a subscription level.
+     *
+     * @param {string} name - The name of the subscription.
+     * @param {string} level - The license level that activates the subscription.
+     * @returns {MockSubscription} The created subscription.
+     */
+    addSubscription(name: string, level: string): MockSubscription {
+        const subscription = { name, level, paused: false };
+        this.subscriptions.set(name, subscription);
+        return subscription;
+    }
+
+    /**
+     * Add a license key.
+     *
+     * @param {object} [options] - The license to create.
+     * @param {string} [options.key] - The license key, a random key is created from the mask when left out.
+     * @param {number} [options.level] - [Default `1`] The license level.
+     * @param {string} [options.expiry] - [Default `1`] The duration of the license in days.
+     * @param {string} [options.note] - The note of the license.
+     * @param {string} [options.mask] - [Default `****-***-****`] The mask to create the key from.
+     * @param {string} [options.character] - [Default `1`] The characters to create the key from.
+     * @param {string} [options.owner] - [Default `KeyAuthJS`] Who generated the license.
+     * @returns {MockLicense} The created license.
+     */
+    addLicense({
+        key,
+        level = 1,
+        expiry = "1",
+        note = "",
+        mask = "****-***-****",
+        character = "1",
+        owner = "KeyAuthJS",
+    }: {
+        key?: string;
+        level?: number;
+        expiry?: string;
+        note?: string;
+        mask?: string;
+        character?: string;
+        owner?: string;
+    } = {}): MockLicense {
+        const license: MockLicense = {
+            id: this._nextId++,
+            key: key ?? createLicenseKey(mask, character),
+            note,
+            // Keyauth takes the expiry in days but stores the duration in seconds
+            expires: String(Math.round(Number(expiry) * 86400)),
+            status: "Not Used",
+            level,
+            genby: owner,
+            gendate: unixTime(),
+            usedon: null,
+            usedby: null,
+            banned: null,
+        };
+        this.licenses.set(license.key, license);
+        return license;
+    }
+
+    /**
+     * Add a user.
+     *
+     * @param {object} options - The user to create.
+     * @param {string} options.username - The username of the user.
+     * @param {string} [options.password] - The password of the user, defaults to the username.
+     * @param {string} [options.email] - The email of the user.
+     * @param {string} [options.hwid] - The hwid the user is locked to.
+     * @param {string} [options.subscription] - [Default `default`] The subscription to give the user.
+     * @param {number} [options.expiry] - [Default `1`] How many days the subscription lasts.
+     * @returns {MockUser} The created user.
+     */
+    addUser({
+        username,
+        password,
+        email = "",
+        hwid,
+        subscription = "default",
+        expiry = 1,
+    }: {
+        username: string;
+        password?: string;
+        email?: string;
+        hwid?: string;
+        subscription?: string;
+        expiry?: number;
+    }): MockUser {
+        const user: MockUser = {
+            id: this._nextId++,
+            username,
+            password: password ?? username,
+            email,
+            hwid: hwid ?? null,
+            ip: "127.0.0.1",
+            banned: null,
+            cooldown: 0,
+            createdate: unixTime(),
+            lastlogin: unixTime(),
+            subscriptions: [
+                {
+                    subscription,
+                    key: null,
+                    expiry: unixTime() + Math.round(expiry * 86400),
+                },
+            ],
+            vars: new Map(),
+        };
+        this.users.set(username, user);
+        return user;
+    }
+
+    /**
+     * Add a chat channel.
+     *
+     * @param {string} name - The name of the channel.
+     * @param {number} [delay] - [Default `0`] How many seconds users have to wait between messages.
+     * @returns {MockChannel} The created channel.
+     */
+    addChannel(name: string, delay: number = 0): MockChannel {
+        const channel = { name, delay, messages: [] };
+        this.channels.set(name, channel);
+        return channel;
+    }
+
+    /**
+     * Add a file users can download.
+     *
+     * @param {string} id - The file id users download the file with.
+     * @param {Buffer | string} contents - The contents of the file.
+     * @param {string} [name] - The name of the file, defaults to the id.
+     * @returns {MockFile} The created file.
+     */
+    addFile(id: string, contents: Buffer | string, name?: string): MockFile {
+        const file = {
+            id,
+            name: name ?? id,
+            contents: Buffer.from(contents),
+            url: "",
+            authed: true,
+        };
+        this.files.set(id, file);
+        return file;
+    }
+
+    /**
+     * Add a webhook users can call.
+     *
+     * @param {string} id - The webhook id users call the webhook with.
+     * @param {string} response - The response the webhook answers with.
+     * @returns {MockWebhook} The created webhook.
+     */
+    addWebhook(id: string, response: string): MockWebhook {
+        const webhook = {
+            id,
+            response,
+            baseUrl: "",
+            userAgent: "KeyAuth",
+            authed: true,
+        };
+        this.webhooks.set(id, webhook);
+        return webhook;
+    }
+
+    /**
+     * Create a new session like `init` does.
+     *
+     * @param {string} [enckey] - The enckey sent with `init`.
+     * @returns {MockSession} The created session.
+     */
+    createSession(enckey?: string): MockSession {
+        const session = {
+            id: createId(),
+            enckey,
+            validated: false,
+            createdAt: Date.now(),
+        };
+        this.sessions.set(session.id, session);
+        if (enckey) this._enckeys.set(session.id, enckey);
+        return session;
+    }
+
+    /**
+     * Get the key a client response is signed with.
+     * Init is signed with the secret and everything after init with `enckey-secret`, like keyauth does.
+     *
+     * @param {string} type - The request type.
+     * @param {string} [sessionId] - The session the request was sent with.
+     * @returns {string | undefined} The signing key, `undefined` if the application has no secret.
+     */
+    signingKey(type: string, sessionId?: string): string | undefined {
+        if (!this.secret) return undefined;
+        const enckey =
+            sessionId === undefined ? undefined : this._enckeys.get(sessionId);
+        return type === "init" || !enckey
+            ? this.secret
+            : `${enckey}-${this.secret}`;
+    }
+
+    /**
+     * Kill a session, or every session when no id is passed.
+     *
+     * @param {string} [sessionId] - The session to kill.
+     * @returns {number} How many sessions were killed.
+     */
+    killSessions(sessionId?: string): number {
+        if (sessionId === undefined) {
+            const count = this.sessions.size;
+            this.sessions.clear();
+            return count;
+        }
+        return this.sessions.delete(sessionId) ? 1 : 0;
+    }
+
+    /**
+     * Get the subscriptions of a user that have not expired.
+     *
+     * @param {MockUser} user - The user to get the subscriptions of.
+     * @returns {MockUserSubscription[]} The active subscriptions.
+     */
+    activeSubscriptions(user: MockUser): MockUserSubscription[] {
+        const now = unixTime();
+        return user.subscriptions.filter((sub) => sub.expiry > now);
+    }
+
+    /**
+     * Get the subscription name a license level activates.
+     *
+     * @param {number} level - The license level.
+     * @returns {string} The name of the subscription, `default` if there is no subscription for the level.
+     */
+    subscriptionForLevel(level: number): string {
+        for (const subscription of this.subscriptions.values()) {
+            if (subscription.level === String(level)) return subscription.name;
+        }
+        return "default";
+    }
+
+    /**
+     * Activate a license for a user, the license is marked as used and its subscription is added to the user.
+     *
+     * @param {MockUser} user - The user to activate the license for.
+     * @param {MockLicense} license - The license to activate.
+     */
+    activateLicense(user: MockUser, license: MockLicense) {
+        license.status = "Used";
+        license.usedby = user.username;
+        license.usedon = unixTime();
+        user.subscriptions.push({
+            subscription: this.subscriptionForLevel(license.level),
+            key: license.key,
+            expiry: unixTime() + Number(license.expires),
+        });
+    }
+}
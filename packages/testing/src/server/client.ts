@@ -0,0 +1,425 @@
+// Import necessary modules and types
+import {
+    Handler,
+    HandlerContext,
+    HandlerResponse,
+    MockSession,
+    MockUser,
+} from "../types";
+import { unixTime } from "../utils/random";
+import { failure, success } from "../utils/responses";
+import MockApp from "./app";
+
+// The message keyauth sends when a session does not exist
+const SESSION_NOT_FOUND = "Session not found. Use latest code";
+
+/**
+ * Builds the user info keyauth sends after a login, register or license.
+ *
+ * @param {MockApp} app - The application the user belongs to.
+ * @param {MockUser} user - The user to build the info for.
+ * @returns {Record<string, any>} The user info.
+ */
+function createInfo(app: MockApp, user: MockUser): Record<string, any> {
+    const now = unixTime();
+    return {
+        username: user.username,
+        subscriptions: app.activeSubscriptions(user).map((sub) => ({
+            subscription: sub.subscription,
+            key: sub.key,
+            expiry: String(sub.expiry),
+            timeleft: sub.expiry - now,
+            level: app.subscriptions.get(sub.subscription)?.level ?? "1",
+        })),
+        ip: user.ip,
+        hwid: user.hwid,
+        createdate: String(user.createdate),
+        lastlogin: String(user.lastlogin),
+    };
+}
+
+/**
+ * Find the session a request was sent with.
+ *
+ * @param {HandlerContext} context - The request context.
+ * @returns {MockSession | HandlerResponse} The session or the failed response to send.
+ */
+function findSession({
+    app,
+    params,
+}: HandlerContext): MockSession | HandlerResponse {
+    return app.sessions.get(params.sessionid) ?? failure(SESSION_NOT_FOUND);
+}
+
+/**
+ * Find the user that is logged in with the session a request was sent with.
+ *
+ * @param {HandlerContext} context - The request context.
+ * @returns {{ session: MockSession; user: MockUser } | HandlerResponse} The session and user or the failed response to send.
+ */
+function findLoggedInUser(
+    context: HandlerContext,
+): { session: MockSession; user: MockUser } | HandlerResponse {
+    const session = findSession(context);
+    if ("body" in session) return session;
+
+    const user = session.username
+        ? context.app.users.get(session.username)
+        : undefined;
+    if (!session.validated || !user) {
+        return failure("Session is not validated.");
+    }
+    return { session, user };
+}
+
+/**
+ * Log a user in to a session after their credentials have been checked.
+ *
+ * @param {HandlerContext} context - The request context.
+ * @param {MockSession} session - The session to log in to.
+ * @param {MockUser} user - The user to log in.
+ * @param {string} message - The message to send when the login works.
+ * @returns {HandlerResponse} The response to send.
+ */
+function loginUser(
+    { app, params, ip }: HandlerContext,
+    session: MockSession,
+    user: MockUser,
+    message: string,
+): HandlerResponse {
+    if (user.banned !== null) return failure("The user is banned");
+    if (
+        app.blacklist.has(ip) ||
+        (params.hwid && app.blacklist.has(params.hwid))
+    ) {
+        return failure("You're blacklisted");
+    }
+    // Lock the user to the first hwid they log in with
+    if (params.hwid) {
+        if (user.hwid === null) user.hwid = params.hwid;
+        if (user.hwid !== params.hwid) {
+            return failure("HWID doesn't match. Ask for a HWID reset");
+        }
+    }
+    if (app.activeSubscriptions(user).length === 0) {
+        return failure("No active subscriptions found.");
+    }
+
+    user.ip = ip;
+    user.lastlogin = unixTime();
+    session.username = user.username;
+    session.validated = true;
+    return success(message, { info: createInfo(app, user) });
+}
+
+/**
+ * Check a license can be activated.
+ *
+ * @param {MockApp} app - The application the license belongs to.
+ * @param {string} key - The license key.
+ * @returns {HandlerResponse | undefined} The failed response to send, `undefined` if the license can be activated.
+ */
+function checkLicense(app: MockApp, key: string): HandlerResponse | undefined {
+    const license = app.licenses.get(key);
+    if (!license) return failure("Invalid license key");
+    if (license.banned !== null) {
+        return failure(`Your license is banned. Reason: ${license.banned}`);
+    }
+    if (license.status !== "Not Used") {
+        return failure("License key has already been used");
+    }
+    return undefined;
+}
+
+/**
+ * The handlers for every `type` of the client api, found at `/api/1.2/`.
+ */
+export const clientHandlers: Record<string, Handler> = {
+    init: ({ app, params }) => {
+        if (app.settings.enabled === "0" || app.paused) {
+            return failure("This application is disabled");
+        }
+        if (params.ver !== app.version) {
+            return failure("invalidver", { download: "" });
+        }
+        const session = app.createSession(params.enckey);
+        return success("Initialized", {
+            sessionid: session.id,
+            newSession: true,
+            appinfo: {
+                numUsers: String(app.users.size),
+                numOnlineUsers: String(
+                    [...app.sessions.values()].filter((s) => s.validated)
+                        .length,
+                ),
+                numKeys: String(app.licenses.size),
+                version: app.version,
+                customerPanelLink: "",
+            },
+        });
+    },
+    login: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const user = context.app.users.get(context.params.username);
+        if (!user) return failure("Username not found.");
+        if (user.password !== context.params.pass) {
+            return failure("Password does not match.");
+        }
+        return loginUser(context, session, user, "Logged in!");
+    },
+    register: (context) => {
+        const { app, params } = context;
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        if (app.users.has(params.username)) {
+            return failure("Username already taken, choose a different one");
+        }
+        const licenseFailure = checkLicense(app, params.key);
+        if (licenseFailure) return licenseFailure;
+
+        // Create the user and activate the license for them
+        const user = app.addUser({
+            username: params.username,
+            password: params.pass,
+            email: params.email,
+            hwid: params.hwid,
+        });
+        user.subscriptions = [];
+        app.activateLicense(user, app.licenses.get(params.key)!);
+        return loginUser(context, session, user, "Logged in!");
+    },
+    license: (context) => {
+        const { app, params } = context;
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        // A license that was used before logs in to the user created with it
+        const user = app.users.get(params.key);
+        if (user) return loginUser(context, session, user, "Logged in!");
+
+        const licenseFailure = checkLicense(app, params.key);
+        if (licenseFailure) return licenseFailure;
+
+        const newUser = app.addUser({
+            username: params.key,
+            password: params.key,
+            hwid: params.hwid,
+        });
+        newUser.subscriptions = [];
+        app.activateLicense(newUser, app.licenses.get(params.key)!);
+        return loginUser(context, session, newUser, "Logged in!");
+    },
+    logout: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        context.app.sessions.delete(session.id);
+        return success("Successfully logged out and killed session");
+    },
+    check: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        return session.validated
+            ? success("Session is validated.")
+            : failure("Session is not validated.");
+    },
+    checkblacklist: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const { app, params, ip } = context;
+        return app.blacklist.has(params.hwid) || app.blacklist.has(ip)
+            ? success("Client is blacklisted")
+            : failure("Client is not blacklisted");
+    },
+    ban: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        // Ban the user, blacklist their hwid and kill their session
+        found.user.banned = context.params.reason ?? "";
+        if (found.user.hwid) {
+            context.app.blacklist.set(found.user.hwid, {
+                type: "hwid",
+                value: found.user.hwid,
+                reason: found.user.banned,
+            });
+        }
+        context.app.sessions.delete(found.session.id);
+        return success("Successfully Banned User");
+    },
+    changeUsername: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const { app, params } = context;
+        if (app.users.has(params.newUsername)) {
+            return failure("Username already used!");
+        }
+        app.users.delete(found.user.username);
+        found.user.username = params.newUsername;
+        app.users.set(found.user.username, found.user);
+        found.session.username = found.user.username;
+        return success("Successfully changed username, user logged out.");
+    },
+    forgot: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const user = context.app.users.get(context.params.username);
+        if (!user || user.email !== context.params.email) {
+            return failure("Email address doesn't match the user");
+        }
+        return success("Successfully sent email to change password.");
+    },
+    upgrade: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const { app, params } = context;
+        const user = app.users.get(params.username);
+        if (!user) return failure("Username not found.");
+        const licenseFailure = checkLicense(app, params.key);
+        if (licenseFailure) return licenseFailure;
+
+        app.activateLicense(user, app.licenses.get(params.key)!);
+        return success("Upgraded successfully");
+    },
+    fetchOnline: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const users = [...context.app.sessions.values()]
+            .filter((s) => s.validated && s.username)
+            .map((s) => ({ credential: s.username! }));
+        if (users.length === 0) return failure("No online users found!");
+        return success("Successfully fetched online users.", {
+            users,
+            count: users.length,
+        });
+    },
+    fetchStats: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        const { app } = context;
+        return success("Successfully fetched stats", {
+            appinfo: {
+                numUsers: app.users.size,
+                numOnlineUsers: [...app.sessions.values()].filter(
+                    (s) => s.validated,
+                ).length,
+                numKeys: app.licenses.size,
+                version: app.version,
+                customerPanelLink: "",
+            },
+        });
+    },
+    log: (context) => {
+        const session = findSession(context);
+        if ("body" in session) return session;
+
+        context.app.logs.push({
+            pcuser: context.params.pcuser,
+            message: context.params.message,
+            username: session.username,
+            date: unixTime(),
+        });
+        // Keyauth answers a log with an empty body
+        return { body: "" };
+    },
+    webhook: (context) => {
+        const webhook = context.app.webhooks.get(context.params.webid);
+
+        // Public webhooks only need a session, the rest need a logged in user
+        const found =
+            webhook && !webhook.authed
+                ? findSession(context)
+                : findLoggedInUser(context);
+        if ("body" in found) return found;
+        if (!webhook) return failure("Webhook Not Found.");
+        return success("Webhook request successful", {
+            response: webhook.response,
+        });
+    },
+    file: (context) => {
+        const file = context.app.files.get(context.params.fileid);
+
+        // Public files only need a session, the rest need a logged in user
+        const found =
+            file && !file.authed
+                ? findSession(context)
+                : findLoggedInUser(context);
+        if ("body" in found) return found;
+        if (!file) return failure("File not Found");
+        return success("File download successful", {
+            contents: file.contents.toString("hex"),
+        });
+    },
+    var: (context) => {
+        // Public variables only need a session, the rest need a logged in user
+        const found = context.app.publicVars.has(context.params.var)
+            ? findSession(context)
+            : findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const data = context.app.vars.get(context.params.var);
+        if (data === undefined) return failure("Variable not found.");
+        return success(data);
+    },
+    getvar: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const userVar = found.user.vars.get(context.params.var);
+        if (!userVar) return failure("Variable not found for user");
+        return success("Successfully retrieved variable", {
+            response: userVar.data,
+        });
+    },
+    setvar: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const { params } = context;
+        if (found.user.vars.get(params.var)?.readOnly) {
+            return failure("Variable is readonly");
+        }
+        found.user.vars.set(params.var, { data: params.data, readOnly: false });
+        return success("Successfully set variable");
+    },
+    chatget: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const channel = context.app.channels.get(context.params.channel);
+        if (!channel) return failure("Chat channel not found");
+        return success("Successfully retrieved chat messages", {
+            messages: channel.messages.map((message) => ({
+                ...message,
+                timestamp: String(message.timestamp),
+            })),
+        });
+    },
+    chatsend: (context) => {
+        const found = findLoggedInUser(context);
+        if ("body" in found) return found;
+
+        const channel = context.app.channels.get(context.params.channel);
+        if (!channel) return failure("Chat channel not found");
+        const mutedUntil = context.app.mutes.get(found.user.username) ?? 0;
+        if (mutedUntil > unixTime()) {
+            return failure("You're muted from chat");
+        }
+        channel.messages.push({
+            author: found.user.username,
+            message: context.params.message,
+            timestamp: unixTime(),
+        });
+        return success("Successfully sent chat message");
+    },
+};
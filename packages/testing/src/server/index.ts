@@ -0,0 +1,427 @@
+// Import necessary modules and types
+import { createHmac } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+    FailureInjection,
+    Handler,
+    HandlerResponse,
+    MockApi,
+    MockRequest,
+    MockServerOptions,
+} from "../types";
+import { failure } from "../utils/responses";
+import MockApp from "./app";
+import { clientHandlers } from "./client";
+import { sellerHandlers } from "./seller";
+
+// The application created when no applications are passed
+const DEFAULT_APP = {
+    name: "KeyAuthJS",
+    ownerid: "mockowner1",
+    version: "1.0",
+};
+
+// The paths each api is served from, the same paths keyauth uses
+const API_PATHS: Record<MockApi, string> = {
+    client: "/api/1.2/",
+    seller: "/api/seller/",
+};
+
+/**
+ * MockKeyAuthServer is a local stand-in for the keyauth client and seller api.
+ * It keeps every application in memory and can inject failures into its responses.
+ *
+ * @example
+ * const server = new MockKeyAuthServer();
+ * await server.start();
+ * const clientApi = new ClientApi(
+ *     { name: server.app.name, ownerid: server.app.ownerid, ver: server.app.version },
+ *     { baseUrl: server.clientUrl },
+ * );
+ */
+export default class MockKeyAuthServer {
+    /**
+     * The options the server was created with.
+     */
+    private _options: MockServerOptions;
+    /**
+     * The http server, `undefined` until the server is started.
+     */
+    private _server: Server | undefined;
+    /**
+     * The failures that are injected into responses.
+     */
+    private _failures: FailureInjection;
+    /**
+     * The applications the server keeps in memory.
+     */
+    private _apps: MockApp[] = [];
+    /**
+     * Every request the server received.
+     */
+    private _requests: MockRequest[] = [];
+
+    /**
+     * Constructs a MockKeyAuthServer instance.
+     * @param {MockServerOptions} [options] - Configuration options for the server.
+     * @param {MockServerOptions['apps']} `options.apps` - The applications to create, a default application is created when none are passed.
+     * @param {MockServerOptions['failures']} `options.failures` - The failures to inject from the start.
+     */
+    constructor(options: MockServerOptions = {}) {
+        this._options = options;
+        this._failures = { ...options.failures };
+        this._createApps();
+    }
+
+    /**
+     * The first application, this is the default application when no applications were passed.
+     */
+    get app(): MockApp {
+        return this._apps[0];
+    }
+
+    /**
+     * Every application the server keeps in memory.
+     */
+    get apps(): MockApp[] {
+        return [...this._apps];
+    }
+
+    /**
+     * Every request the server received, oldest first.
+     */
+    get requests(): MockRequest[] {
+        return [...this._requests];
+    }
+
+    /**
+     * The url the server is listening on.
+     * @throws {Error} If the server has not been started.
+     */
+    get url(): string {
+        if (!this._server) throw new Error("Mock server has not been started");
+        const { port } = this._server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * The url to pass as `baseUrl` to the client api.
+     */
+    get clientUrl(): string {
+        return `${this.url}${API_PATHS.client}`;
+    }
+
+    /**
+     * The url to pass as `baseUrl` to the seller api.
+     */
+    get sellerUrl(): string {
+        return `${this.url}${API_PATHS.seller}`;
+    }
+
+    /**
+     * Start listening for requests.
+     *
+     * @param {number} [port] - [Default `0`] The port to listen on, `0` picks a free port.
+     * @returns {Promise<string>} The url the server is listening on.
+     */
+    start(port: number = 0): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = createServer((req, res) => {
+                this._handle(req, res).catch((error) => {
+                    res.statusCode = 500;
+                    res.end(String(error));
+                });
+            });
+            server.once("error", reject);
+            server.listen(port, "127.0.0.1", () => {
+                this._server = server;
+                resolve(this.url);
+            });
+        });
+    }
+
+    /**
+     * Stop listening for requests, open connections are closed.
+     *
+     * @returns {Promise<void>} Resolves once the server is closed.
+     */
+    stop(): Promise<void> {
+        const server = this._server;
+        this._server = undefined;
+        if (!server) return Promise.resolve();
+
+        return new Promise((resolve, reject) => {
+            server.close((error) => (error ? reject(error) : resolve()));
+            server.closeAllConnections?.();
+        });
+    }
+
+    /**
+     * Find an application by name.
+     *
+     * @param {string} name - The name of the application.
+     * @returns {MockApp | undefined} The application, `undefined` if there is no application with the name.
+     */
+    getApp(name: string): MockApp | undefined {
+        return this._apps.find((app) => app.name === name);
+    }
+
+    /**
+     * Inject failures into the next responses, the options are merged with the failures already injected.
+     *
+     * @param {FailureInjection} failures - The failures to inject.
+     * @param {FailureInjection['latency']} `failures.latency` - Delay every response by this many milliseconds.
+     * @param {FailureInjection['rateLimit']} `failures.rateLimit` - Answer the next amount of requests with a `429` status.
+     * @param {FailureInjection['malformed']} `failures.malformed` - Answer the next amount of requests with a body that is not valid json.
+     * @param {FailureInjection['serverError']} `failures.serverError` - Answer the next amount of requests with a `500` status.
+     * @param {FailureInjection['types']} `failures.types` - Only inject failures into requests with these types.
+     */
+    inject(failures: FailureInjection) {
+        this._failures = { ...this._failures, ...failures };
+    }
+
+    /**
+     * Stop injecting failures.
+     */
+    clearFailures() {
+        this._failures = {};
+    }
+
+    /**
+     * Kill a session in every application, or every session when no id is passed.
+     * The next request with a killed session gets the same `Session not found.` response keyauth sends.
+     *
+     * @param {string} [sessionId] - The session to kill.
+     * @returns {number} How many sessions were killed.
+     */
+    killSessions(sessionId?: string): number {
+        return this._apps.reduce(
+            (count, app) => count + app.killSessions(sessionId),
+            0,
+        );
+    }
+
+    /**
+     * Throw away every application, request and failure and create the applications again.
+     */
+    reset() {
+        this._failures = { ...this._options.failures };
+        this._requests = [];
+        this._createApps();
+    }
+
+    /**
+     * Create the applications from the options.
+     *
+     * @private
+     */
+    private _createApps() {
+        const apps = this._options.apps?.length
+            ? this._options.apps
+            : [DEFAULT_APP];
+        this._apps = apps.map((app) => new MockApp(app));
+    }
+
+    /**
+     * Answer a single http request.
+     *
+     * @param {IncomingMessage} req - The http request.
+     * @param {ServerResponse} res - The http response.
+     * @private
+     */
+    private async _handle(req: IncomingMessage, res: ServerResponse) {
+        const url = new URL(req.url ?? "/", "http://127.0.0.1");
+        const path = url.pathname.endsWith("/")
+            ? url.pathname
+            : `${url.pathname}/`;
+        const api = (Object.keys(API_PATHS) as MockApi[]).find(
+            (key) => API_PATHS[key] === path,
+        );
+        if (!api) {
+            res.statusCode = 404;
+            res.end("Not Found");
+            return;
+        }
+
+        // Read the params from the query and a form body
+        const params: Record<string, string> = Object.fromEntries(
+            url.searchParams,
+        );
+        const body = await this._readBody(req);
+        for (const [key, value] of new URLSearchParams(body)) {
+            params[key] = value;
+        }
+        const type = params.type ?? "";
+        this._requests.push({ api, type, params });
+
+        // Inject the failures for this request
+        const failures = this._failures;
+        const inject = !failures.types?.length || failures.types.includes(type);
+        if (inject && failures.latency) {
+            await new Promise((resolve) =>
+                setTimeout(resolve, failures.latency),
+            );
+        }
+        if (inject && this._takeFailure("serverError")) {
+            return this._send(res, {
+                status: 500,
+                body: "Internal Server Error",
+            });
+        }
+        if (inject && this._takeFailure("rateLimit")) {
+            return this._send(res, {
+                status: 429,
+                body: { success: false, message: "Rate limited" },
+            });
+        }
+        if (inject && this._takeFailure("malformed")) {
+            return this._send(res, { body: '{"success":true,"mess' });
+        }
+
+        return api === "client"
+            ? this._handleClient(res, params, req.socket.remoteAddress)
+            : this._handleSeller(res, params, req.socket.remoteAddress);
+    }
+
+    /**
+     * Answer a request to the client api, responses are signed when the application has a secret.
+     *
+     * @param {ServerResponse} res - The http response.
+     * @param {Record<string, string>} params - The params of the request.
+     * @param {string} [ip] - The ip the request was sent from.
+     * @private
+     */
+    private _handleClient(
+        res: ServerResponse,
+        params: Record<string, string>,
+        ip: string = "127.0.0.1",
+    ) {
+        const app = this._apps.find(
+            (app) => app.name === params.name && app.ownerid === params.ownerid,
+        );
+        // Keyauth answers an unknown application with a plain string
+        if (!app) return this._send(res, { body: "KeyAuth_Invalid" });
+
+        const response = this._runHandler(clientHandlers, params, {
+            app,
+            ip,
+        });
+        // Keyauth never signs a log response
+        return this._send(
+            res,
+            response,
+            params.type === "log"
+                ? undefined
+                : app.signingKey(params.type, params.sessionid),
+        );
+    }
+
+    /**
+     * Answer a request to the seller api.
+     *
+     * @param {ServerResponse} res - The http response.
+     * @param {Record<string, string>} params - The params of the request.
+     * @param {string} [ip] - The ip the request was sent from.
+     * @private
+     */
+    private _handleSeller(
+        res: ServerResponse,
+        params: Record<string, string>,
+        ip: string = "127.0.0.1",
+    ) {
+        const app = this._apps.find(
+            (app) => app.sellerKey === params.sellerkey,
+        );
+        if (!app) return this._send(res, failure("Seller key not found"));
+
+        const response = this._runHandler(sellerHandlers, params, { app, ip });
+        return this._send(res, response);
+    }
+
+    /**
+     * Run the handler for the request type.
+     *
+     * @param {Record<string, Handler>} handlers - The handlers of the api.
+     * @param {Record<string, string>} params - The params of the request.
+     * @param {{ app: MockApp; ip: string }} context - The application and ip of the request.
+     * @returns {HandlerResponse} The response to send.
+     * @private
+     */
+    private _runHandler(
+        handlers: Record<string, Handler>,
+        params: Record<string, string>,
+        { app, ip }: { app: MockApp; ip: string },
+    ): HandlerResponse {
+        const handler = Object.prototype.hasOwnProperty.call(
+            handlers,
+            params.type,
+        )
+            ? handlers[params.type]
+            : undefined;
+        if (!handler) return failure("Unhandled Type");
+        return handler({ app, params, ip });
+    }
+
+    /**
+     * Use up one of a counted failure.
+     *
+     * @param {"rateLimit" | "malformed" | "serverError"} name - The failure to use.
+     * @returns {boolean} True if the failure should be injected.
+     * @private
+     */
+    private _takeFailure(
+        name: "rateLimit" | "malformed" | "serverError",
+    ): boolean {
+        const remaining = this._failures[name] ?? 0;
+        if (remaining <= 0) return false;
+        this._failures = { ...this._failures, [name]: remaining - 1 };
+        return true;
+    }
+
+    /**
+     * Send a response, it is signed with the key when one is passed.
+     *
+     * @param {ServerResponse} res - The http response.
+     * @param {HandlerResponse} response - The response to send.
+     * @param {string} [signingKey] - The key to sign the body with.
+     * @private
+     */
+    private _send(
+        res: ServerResponse,
+        { status = 200, body }: HandlerResponse,
+        signingKey?: string,
+    ) {
+        const raw = typeof body === "string" ? body : JSON.stringify(body);
+        res.statusCode = status;
+        res.setHeader(
+            "content-type",
+            typeof body === "string" ? "text/plain" : "application/json",
+        );
+        // Keyauth never signs an invalid application response
+        if (signingKey && raw !== "KeyAuth_Invalid") {
+            res.setHeader(
+                "signature",
+                createHmac("sha256", signingKey).update(raw).digest("hex"),
+            );
+        }
+        res.end(raw);
+    }
+
+    /**
+     * Read the body of a request.
+     *
+     * @param {IncomingMessage} req - The http request.
+     * @returns {Promise<string>} The body of the request.
+     * @private
+     */
+    private _readBody(req: IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = "";
+            req.setEncoding("utf8");
+            req.on("data", (chunk) => (body += chunk));
+            req.on("end", () => resolve(body));
+            req.on("error", reject);
+        });
+    }
+}
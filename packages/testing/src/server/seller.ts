@@ -0,0 +1,860 @@
+// Import necessary modules and types
+import { Handler, HandlerResponse, MockLicense, MockUser } from "../types";
+import { createId, unixTime } from "../utils/random";
+import { failure, success } from "../utils/responses";
+import MockApp from "./app";
+
+// The expiries a reseller has a balance for, by keyauth param name
+const ACCOUNT_BALANCES = [
+    "day",
+    "week",
+    "month",
+    "threemonth",
+    "sixmonth",
+    "lifetime",
+];
+
+// How many seconds a session lasts, like the keyauth default
+const SESSION_LIFETIME = 3600;
+
+/**
+ * Find a user by the `user` param of a request.
+ *
+ * @param {MockApp} app - The application the user belongs to.
+ * @param {Record<string, string>} params - The params of the request.
+ * @returns {MockUser | HandlerResponse} The user or the failed response to send.
+ */
+function findUser(
+    app: MockApp,
+    params: Record<string, string>,
+): MockUser | HandlerResponse {
+    return app.users.get(params.user) ?? failure("User not found");
+}
+
+/**
+ * Find a license by the `key` param of a request.
+ *
+ * @param {MockApp} app - The application the license belongs to.
+ * @param {Record<string, string>} params - The params of the request.
+ * @returns {MockLicense | HandlerResponse} The license or the failed response to send.
+ */
+function findLicense(
+    app: MockApp,
+    params: Record<string, string>,
+): MockLicense | HandlerResponse {
+    return app.licenses.get(params.key) ?? failure("Key not found");
+}
+
+/**
+ * Delete a license and the user created with it if asked to.
+ *
+ * @param {MockApp} app - The application the license belongs to.
+ * @param {MockLicense} license - The license to delete.
+ * @param {string} userToo - `1` to delete the user that used the license too.
+ */
+function deleteLicense(app: MockApp, license: MockLicense, userToo: string) {
+    app.licenses.delete(license.key);
+    if (userToo === "1" && license.usedby) app.users.delete(license.usedby);
+}
+
+/**
+ * Convert days to seconds.
+ *
+ * @param {string} days - The days to convert.
+ * @returns {number} The days in seconds.
+ */
+function daysToSeconds(days: string): number {
+    return Math.round(Number(days) * 86400);
+}
+
+/**
+ * The handlers for every `type` of the seller api, found at `/api/seller/`.
+ */
+export const sellerHandlers: Record<string, Handler> = {
+    add: ({ app, params }) => {
+        const amount = Math.max(Number(params.amount ?? 1), 1);
+        const keys: string[] = [];
+        for (let i = 0; i < amount; i++) {
+            const license = app.addLicense({
+                level: Number(params.level ?? 1),
+                expiry: params.expiry,
+                note: params.note,
+                mask: params.mask,
+                character: params.character,
+                owner: params.owner,
+            });
+            keys.push(license.key);
+        }
+        // Keyauth sends a single key on its own and more than one as a list
+        return amount === 1
+            ? success("License successfully generated", { key: keys[0] })
+            : success("Licenses successfully generated", { keys });
+    },
+    verify: ({ app, params }) => {
+        return app.licenses.has(params.key)
+            ? success("License exists")
+            : failure("License does not exist");
+    },
+    activate: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+        if (license.status !== "Not Used") {
+            return failure("License key has already been used");
+        }
+        if (app.users.has(params.user)) {
+            return failure("Username already taken, choose a different one");
+        }
+
+        const user = app.addUser({
+            username: params.user,
+            password: params.pass,
+        });
+        user.subscriptions = [];
+        app.activateLicense(user, license);
+        return success("Logged in!", {
+            info: {
+                username: user.username,
+                subscriptions: user.subscriptions.map((sub) => ({
+                    ...sub,
+                    expiry: String(sub.expiry),
+                })),
+                ip: user.ip,
+                hwid: user.hwid,
+                createdate: String(user.createdate),
+                lastlogin: String(user.lastlogin),
+            },
+        });
+    },
+    del: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+
+        deleteLicense(app, license, params.userToo);
+        return success("Successfully deleted license");
+    },
+    delmultiple: ({ app, params }) => {
+        for (const key of (params.key ?? "").split(",")) {
+            const license = app.licenses.get(key.trim());
+            if (license) deleteLicense(app, license, params.userToo);
+        }
+        return success("Successfully deleted licenses");
+    },
+    delunused: ({ app }) => {
+        for (const license of [...app.licenses.values()]) {
+            if (license.status === "Not Used") app.licenses.delete(license.key);
+        }
+        return success("Successfully deleted unused licenses");
+    },
+    delused: ({ app }) => {
+        for (const license of [...app.licenses.values()]) {
+            if (license.status === "Used") app.licenses.delete(license.key);
+        }
+        return success("Successfully deleted used licenses");
+    },
+    delalllicenses: ({ app }) => {
+        app.licenses.clear();
+        return success("Successfully deleted all licenses");
+    },
+    fetchallkeys: ({ app }) => {
+        if (app.licenses.size === 0) return failure("No keys found");
+        return success("Successfully fetched keys", {
+            keys: [...app.licenses.values()].map((license) => ({
+                ...license,
+                gendate: String(license.gendate),
+                usedon: license.usedon === null ? null : String(license.usedon),
+                app: app.name,
+            })),
+        });
+    },
+    addtime: ({ app, params }) => {
+        for (const license of app.licenses.values()) {
+            if (license.status !== "Not Used") continue;
+            license.expires = String(
+                Number(license.expires) + daysToSeconds(params.time),
+            );
+        }
+        return success("Added time to unused licenses!");
+    },
+    ban: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+
+        license.status = "Banned";
+        license.banned = params.reason ?? "";
+        if (params.userToo === "1" && license.usedby) {
+            const user = app.users.get(license.usedby);
+            if (user) user.banned = license.banned;
+        }
+        return success("Successfully banned license");
+    },
+    unban: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+
+        license.status = license.usedby ? "Used" : "Not Used";
+        license.banned = null;
+        return success("Successfully unbanned license");
+    },
+    getkey: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        const key = user.subscriptions.find((sub) => sub.key)?.key;
+        if (!key) return failure("No license found for user");
+        return success("Successfully retrieved key", { key });
+    },
+    setnote: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+
+        license.note = params.note ?? "";
+        return success("Successfully set note");
+    },
+    info: ({ app, params }) => {
+        const license = findLicense(app, params);
+        if ("body" in license) return license;
+
+        const user = license.usedby ? app.users.get(license.usedby) : undefined;
+        return success("Successfully retrieved license info", {
+            duration: license.expires,
+            hwid: user?.hwid ?? "N/A",
+            note: license.note,
+            status: license.status,
+            level: license.level,
+            createdby: license.genby,
+            usedby: license.usedby ?? "N/A",
+            usedon: license.usedon === null ? "N/A" : String(license.usedon),
+            creationdate: String(license.gendate),
+        });
+    },
+    adduser: ({ app, params }) => {
+        if (app.users.has(params.user)) {
+            return failure("Username already taken, choose a different one");
+        }
+        app.addUser({
+            username: params.user,
+            password: params.pass,
+            subscription: params.sub,
+            expiry: Number(params.expiry ?? 1),
+        });
+        return success("Successfully created user");
+    },
+    deluser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        app.users.delete(user.username);
+        return success("Successfully deleted user");
+    },
+    delexpusers: ({ app }) => {
+        for (const user of [...app.users.values()]) {
+            if (app.activeSubscriptions(user).length === 0) {
+                app.users.delete(user.username);
+            }
+        }
+        return success("Successfully deleted expired users");
+    },
+    resetuser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.hwid = null;
+        return success("Successfully reset user");
+    },
+    setvar: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.vars.set(params.var, {
+            data: params.data ?? "",
+            readOnly: params.readonly === "1",
+        });
+        return success("Successfully set variable");
+    },
+    getvar: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        const userVar = user.vars.get(params.var);
+        if (!userVar) return failure("Variable not found for user");
+        return success("Successfully retrieved variable", {
+            response: userVar.data,
+        });
+    },
+    deluservar: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        if (!user.vars.delete(params.var)) {
+            return failure("Variable not found for user");
+        }
+        return success("Successfully deleted user variable");
+    },
+    massUserVarDelete: ({ app, params }) => {
+        for (const user of app.users.values()) user.vars.delete(params.name);
+        return success("Successfully deleted user variable with name");
+    },
+    fetchalluservars: ({ app }) => {
+        const vars = [...app.users.values()].flatMap((user) =>
+            [...user.vars.entries()].map(([name, userVar]) => ({
+                name,
+                data: userVar.data,
+                user: user.username,
+            })),
+        );
+        if (vars.length === 0) return failure("No user variables found");
+        return success("Successfully fetched user variables", { vars });
+    },
+    banuser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.banned = params.reason ?? "";
+        // Banning a user also kills their sessions
+        for (const session of [...app.sessions.values()]) {
+            if (session.username === user.username)
+                app.sessions.delete(session.id);
+        }
+        return success("Successfully banned user");
+    },
+    unbanuser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.banned = null;
+        return success("Successfully unbanned user");
+    },
+    delsub: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.subscriptions = user.subscriptions.filter(
+            (sub) => sub.subscription !== params.sub,
+        );
+        return success("Successfully deleted subscription");
+    },
+    subtract: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        for (const sub of user.subscriptions) {
+            if (sub.subscription === params.sub)
+                sub.expiry -= Number(params.seconds);
+        }
+        return success("Successfully subtracted time from subscription");
+    },
+    extend: ({ app, params }) => {
+        const now = unixTime();
+        for (const user of app.users.values()) {
+            if (params.user !== "all" && user.username !== params.user)
+                continue;
+            const subs = user.subscriptions.filter(
+                (sub) =>
+                    sub.subscription === params.sub &&
+                    (params.activeOnly !== "1" || sub.expiry > now),
+            );
+            for (const sub of subs) sub.expiry += daysToSeconds(params.expiry);
+            // Users without the subscription are given it
+            if (subs.length === 0 && params.activeOnly !== "1") {
+                user.subscriptions.push({
+                    subscription: params.sub,
+                    key: null,
+                    expiry: now + daysToSeconds(params.expiry),
+                });
+            }
+        }
+        return success("Successfully extended user(s)");
+    },
+    delallusers: ({ app }) => {
+        app.users.clear();
+        return success("Successfully deleted all users");
+    },
+    resetalluser: ({ app }) => {
+        for (const user of app.users.values()) user.hwid = null;
+        return success("Successfully reset all users");
+    },
+    verifyuser: ({ app, params }) => {
+        return app.users.has(params.user)
+            ? success("User exists")
+            : failure("User does not exist");
+    },
+    addhwiduser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.hwid = (user.hwid ?? "") + (params.hwid ?? "");
+        return success("Successfully added HWID");
+    },
+    fetchallusers: ({ app }) => {
+        if (app.users.size === 0) return failure("No users found");
+        return success("Successfully fetched users", {
+            users: [...app.users.values()].map((user) => ({
+                id: user.id,
+                username: user.username,
+                email: user.email,
+                password: user.password,
+                hwid: user.hwid,
+                app: app.name,
+                owner: app.ownerid,
+                createdate: String(user.createdate),
+                lastlogin: String(user.lastlogin),
+                banned: user.banned,
+                ip: user.ip,
+                cooldown: String(user.cooldown),
+            })),
+        });
+    },
+    resetpw: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.password = "";
+        return success("Successfully reset password");
+    },
+    editemail: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.email = params.email ?? "";
+        return success("Successfully updated user email");
+    },
+    userdata: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        return success("Successfully retrieved user data", {
+            username: user.username,
+            subscriptions: user.subscriptions.map((sub) => ({
+                ...sub,
+                expiry: String(sub.expiry),
+            })),
+            uservars: [...user.vars.entries()].map(([name, userVar]) => ({
+                name,
+                data: userVar.data,
+            })),
+            ip: user.ip,
+            hwid: user.hwid,
+            createdate: String(user.createdate),
+            lastlogin: String(user.lastlogin),
+            cooldown: String(user.cooldown),
+            password: user.password,
+            token: "",
+            banned: user.banned,
+        });
+    },
+    fetchallusernames: ({ app }) => {
+        if (app.users.size === 0) return failure("No users found");
+        return success("Successfully fetched usernames", {
+            usernames: [...app.users.keys()].map((username) => ({ username })),
+        });
+    },
+    countsubs: ({ app, params }) => {
+        const count = [...app.users.values()].filter((user) =>
+            app
+                .activeSubscriptions(user)
+                .some((sub) => sub.subscription === params.name),
+        ).length;
+        return success("Successfully counted subscriptions", { count });
+    },
+    setcooldown: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        user.cooldown = Number(params.cooldown ?? 0);
+        return success("Successfully set cooldown");
+    },
+    addsub: ({ app, params }) => {
+        if (!params.name) return failure("Subscription name not set");
+        if (app.subscriptions.has(params.name)) {
+            return failure("Subscription already exists");
+        }
+
+        app.addSubscription(params.name, params.level ?? "1");
+        return success("Successfully added subscription");
+    },
+    editsub: ({ app, params }) => {
+        const subscription = app.subscriptions.get(params.sub);
+        if (!subscription) return failure("Subscription not found");
+
+        subscription.level = params.level ?? subscription.level;
+        return success("Successfully edited subscription");
+    },
+    delappsub: ({ app, params }) => {
+        if (!app.subscriptions.delete(params.name)) {
+            return failure("Subscription not found");
+        }
+        return success("Successfully deleted subscription");
+    },
+    fetchallsubs: ({ app }) => {
+        if (app.subscriptions.size === 0) {
+            return failure("No subscriptions found");
+        }
+        return success("Successfully fetched subscriptions", {
+            subs: [...app.subscriptions.values()].map(({ name, level }) => ({
+                name,
+                level,
+            })),
+        });
+    },
+    pausesub: ({ app, params }) => {
+        const subscription = app.subscriptions.get(params.subscription);
+        if (!subscription) return failure("Subscription not found");
+
+        subscription.paused = true;
+        return success("Successfully paused subscription");
+    },
+    unpausesub: ({ app, params }) => {
+        const subscription = app.subscriptions.get(params.subscription);
+        if (!subscription) return failure("Subscription not found");
+
+        subscription.paused = false;
+        return success("Successfully unpaused subscription");
+    },
+    addvar: ({ app, params }) => {
+        if (!params.name) return failure("Variable name not set");
+        if (app.vars.has(params.name))
+            return failure("Variable already exists");
+
+        app.vars.set(params.name, params.data ?? "");
+        if (params.authed === "0") app.publicVars.add(params.name);
+        return success("Successfully created variable");
+    },
+    editvar: ({ app, params }) => {
+        if (!app.vars.has(params.varid)) return failure("Variable not found");
+
+        app.vars.set(params.varid, params.data ?? "");
+        return success("Successfully edited variable");
+    },
+    delvar: ({ app, params }) => {
+        if (!app.vars.delete(params.name)) return failure("Variable not found");
+
+        app.publicVars.delete(params.name);
+        return success("Successfully deleted variable");
+    },
+    retrvvar: ({ app, params }) => {
+        const data = app.vars.get(params.name);
+        if (data === undefined) return failure("Variable not found");
+        return success("Successfully retrieved variable", { response: data });
+    },
+    fetchallvars: ({ app }) => {
+        if (app.vars.size === 0) return failure("No variables found");
+        return success("Successfully fetched variables", {
+            vars: [...app.vars.entries()].map(([varid, msg]) => ({
+                varid,
+                msg,
+                authed: app.publicVars.has(varid) ? "0" : "1",
+            })),
+        });
+    },
+    delallvars: ({ app }) => {
+        app.vars.clear();
+        app.publicVars.clear();
+        return success("Successfully deleted all variables");
+    },
+    upload: ({ app, params }) => {
+        if (!params.url) return failure("No URL specified");
+
+        // The mock server does not download the url, the file is added without contents
+        const name = params.url.split("/").pop() || params.url;
+        const file = app.addFile(createId(), "", name);
+        file.url = params.url;
+        file.authed = params.authed !== "0";
+        return success("Successfully uploaded file", { id: file.id });
+    },
+    fetchallfiles: ({ app }) => {
+        if (app.files.size === 0) return failure("No files found");
+        return success("Successfully fetched files", {
+            files: [...app.files.values()].map((file) => ({
+                id: file.id,
+                url: file.url,
+                name: file.name,
+                size: `${(file.contents.length / 1024).toFixed(2)} KB`,
+                authed: file.authed ? "1" : "0",
+            })),
+        });
+    },
+    delfile: ({ app, params }) => {
+        if (!app.files.delete(params.fileid)) return failure("File not found");
+        return success("Successfully deleted file");
+    },
+    delallfiles: ({ app }) => {
+        app.files.clear();
+        return success("Successfully deleted all files");
+    },
+    editfile: ({ app, params }) => {
+        const file = app.files.get(params.id);
+        if (!file) return failure("File not found");
+
+        file.url = params.url ?? file.url;
+        file.authed = params.authed !== "0";
+        return success("Successfully edited file");
+    },
+    addchannel: ({ app, params }) => {
+        if (!params.name) return failure("Channel name not set");
+        if (app.channels.has(params.name)) {
+            return failure("Channel already exists");
+        }
+
+        app.addChannel(params.name, Number(params.delay ?? 0));
+        return success("Successfully created channel");
+    },
+    editchan: ({ app, params }) => {
+        const channel = app.channels.get(params.name);
+        if (!channel) return failure("Channel not found");
+
+        channel.delay = Number(params.delay ?? channel.delay);
+        return success("Successfully edited channel");
+    },
+    delchannel: ({ app, params }) => {
+        if (!app.channels.delete(params.name)) {
+            return failure("Channel not found");
+        }
+        return success("Successfully deleted channel");
+    },
+    clearchannel: ({ app, params }) => {
+        const channel = app.channels.get(params.name);
+        if (!channel) return failure("Channel not found");
+
+        channel.messages = [];
+        return success("Successfully cleared channel");
+    },
+    fetchallchats: ({ app }) => {
+        if (app.channels.size === 0) return failure("No channels found");
+        return success("Successfully fetched channels", {
+            chats: [...app.channels.values()].map(({ name, delay }) => ({
+                name,
+                delay: String(delay),
+            })),
+        });
+    },
+    muteuser: ({ app, params }) => {
+        const user = findUser(app, params);
+        if ("body" in user) return user;
+
+        app.mutes.set(user.username, unixTime() + Number(params.time ?? 0));
+        return success("Successfully muted user");
+    },
+    unmuteuser: ({ app, params }) => {
+        if (!app.mutes.delete(params.user)) return failure("User is not muted");
+        return success("Successfully unmuted user");
+    },
+    fetchallmutes: ({ app }) => {
+        const now = unixTime();
+        const mutes = [...app.mutes.entries()].filter(
+            ([, until]) => until > now,
+        );
+        if (mutes.length === 0) return failure("No muted users found");
+        return success("Successfully fetched mutes", {
+            mutes: mutes.map(([user, time]) => ({ user, time: String(time) })),
+        });
+    },
+    chathistory: ({ app, params }) => {
+        const channel = app.channels.get(params.channel);
+        if (!channel) return failure("Channel not found");
+        return success("Successfully fetched chat history", {
+            messages: channel.messages.map((message) => ({
+                ...message,
+                timestamp: String(message.timestamp),
+            })),
+        });
+    },
+    black: ({ app, params }) => {
+        const type = params.hwid ? "hwid" : "ip";
+        const value = params[type];
+        if (!value) return failure("No IP or HWID specified");
+
+        app.blacklist.set(value, { type, value, reason: params.reason ?? "" });
+        return success("Successfully added blacklist");
+    },
+    delblack: ({ app, params }) => {
+        const entry = app.blacklist.get(params.data);
+        if (!entry || entry.type !== params.blacktype) {
+            return failure("Blacklist not found");
+        }
+        app.blacklist.delete(params.data);
+        return success("Successfully deleted blacklist");
+    },
+    fetchallblacks: ({ app }) => {
+        if (app.blacklist.size === 0) return failure("No blacklists found");
+        return success("Successfully fetched blacklists", {
+            blacklists: [...app.blacklist.values()].map((entry) => ({
+                [entry.type]: entry.value,
+                type: entry.type,
+                reason: entry.reason,
+            })),
+        });
+    },
+    delblacks: ({ app }) => {
+        app.blacklist.clear();
+        return success("Successfully deleted all blacklists");
+    },
+    addWhite: ({ app, params }) => {
+        if (!params.ip) return failure("No IP specified");
+
+        app.whitelist.add(params.ip);
+        return success("Successfully added whitelist");
+    },
+    delWhite: ({ app, params }) => {
+        if (!app.whitelist.delete(params.ip)) {
+            return failure("Whitelist not found");
+        }
+        return success("Successfully deleted whitelist");
+    },
+    fetchallwhites: ({ app }) => {
+        if (app.whitelist.size === 0) return failure("No whitelists found");
+        return success("Successfully fetched whitelists", {
+            whitelists: [...app.whitelist].map((ip) => ({ ip })),
+        });
+    },
+    delwhites: ({ app }) => {
+        app.whitelist.clear();
+        return success("Successfully deleted all whitelists");
+    },
+    fetchallsessions: ({ app }) => {
+        if (app.sessions.size === 0) return failure("No active sessions");
+        return success("Successfully fetched sessions", {
+            sessions: [...app.sessions.values()].map((session) => ({
+                id: session.id,
+                credential: session.username ?? "",
+                expiry: String(
+                    Math.floor(session.createdAt / 1000) + SESSION_LIFETIME,
+                ),
+                validated: session.validated ? 1 : 0,
+            })),
+        });
+    },
+    kill: ({ app, params }) => {
+        if (app.killSessions(params.sessid) === 0) {
+            return failure("Session not found");
+        }
+        return success("Successfully killed session");
+    },
+    killall: ({ app }) => {
+        app.killSessions();
+        return success("Successfully killed all sessions");
+    },
+    addwebhook: ({ app, params }) => {
+        if (!params.baseurl) return failure("No base URL specified");
+
+        // The mock server does not call the url, the webhook answers with an empty response
+        const webhook = app.addWebhook(createId(), "");
+        webhook.baseUrl = params.baseurl;
+        webhook.userAgent = params.ua ?? "KeyAuth";
+        webhook.authed = params.authed !== "0";
+        return success("Successfully created webhook", { webid: webhook.id });
+    },
+    delwebhook: ({ app, params }) => {
+        if (!app.webhooks.delete(params.webid)) {
+            return failure("Webhook not found");
+        }
+        return success("Successfully deleted webhook");
+    },
+    fetchallwebhooks: ({ app }) => {
+        if (app.webhooks.size === 0) return failure("No webhooks found");
+        return success("Successfully fetched webhooks", {
+            webhooks: [...app.webhooks.values()].map((webhook) => ({
+                webid: webhook.id,
+                baseurl: webhook.baseUrl,
+                useragent: webhook.userAgent,
+                authed: webhook.authed ? "1" : "0",
+            })),
+        });
+    },
+    delallwebhooks: ({ app }) => {
+        app.webhooks.clear();
+        return success("Successfully deleted all webhooks");
+    },
+    getsettings: ({ app }) => {
+        return success("Successfully retrieved settings", {
+            ...app.settings,
+            ver: app.version,
+        });
+    },
+    updatesettings: ({ app, params }) => {
+        const { type, sellerkey, ver, ...settings } = params;
+        if (ver !== undefined) app.version = ver;
+        Object.assign(app.settings, settings);
+        return success("Successfully updated settings");
+    },
+    pauseapp: ({ app }) => {
+        app.paused = true;
+        return success("Successfully paused application");
+    },
+    unpauseapp: ({ app }) => {
+        app.paused = false;
+        return success("Successfully unpaused application");
+    },
+    addhash: ({ app, params }) => {
+        if (!params.hash) return failure("No hash specified");
+
+        app.hashes.add(params.hash);
+        return success("Successfully added hash");
+    },
+    resethash: ({ app }) => {
+        app.hashes.clear();
+        return success("Successfully reset hash");
+    },
+    fetchalllogs: ({ app }) => {
+        if (app.logs.length === 0) return failure("No logs found");
+        return success("Successfully fetched logs", {
+            logs: app.logs.map((log) => ({
+                logdate: String(log.date),
+                logdata: log.message,
+                credential: log.username ?? "",
+                pcuser: log.pcuser,
+            })),
+        });
+    },
+    dellogs: ({ app }) => {
+        app.logs.length = 0;
+        return success("Successfully deleted all logs");
+    },
+    addacc: ({ app, params }) => {
+        if (params.role !== "Reseller" && params.role !== "Manager") {
+            return failure("Invalid role");
+        }
+        if (!params.user || !params.pass) {
+            return failure("Username and password are required");
+        }
+        if (app.accounts.has(params.user)) {
+            return failure("Username already taken");
+        }
+        app.accounts.set(params.user, {
+            username: params.user,
+            password: params.pass,
+            email: params.email ?? "",
+            role: params.role,
+            keylevels: params.keylevels ?? "",
+            perms: params.perms ?? "",
+            balance: Object.fromEntries(
+                ACCOUNT_BALANCES.map((expiry) => [expiry, 0]),
+            ),
+        });
+        return success("Successfully created account");
+    },
+    delacc: ({ app, params }) => {
+        if (!app.accounts.delete(params.user)) {
+            return failure("Account not found");
+        }
+        return success("Successfully deleted account");
+    },
+    fetchallaccs: ({ app }) => {
+        if (app.accounts.size === 0) return failure("No accounts found");
+        return success("Successfully fetched accounts", {
+            accounts: [...app.accounts.values()].map(
+                ({ password, ...account }) => account,
+            ),
+        });
+    },
+    setbalance: ({ app, params }) => {
+        const account = app.accounts.get(params.username);
+        if (!account) return failure("Account not found");
+        if (account.role !== "Reseller") {
+            return failure("Only resellers have a balance");
+        }
+        for (const expiry of ACCOUNT_BALANCES) {
+            account.balance[expiry] = Number(params[expiry] ?? 0);
+        }
+        return success("Successfully set balance");
+    },
+};
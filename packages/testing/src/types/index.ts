@@ -0,0 +1,315 @@
+// Interfaces for the in-memory data the mock server keeps
+
+import type MockApp from "../server/app";
+
+/**
+ * The options used to create a mock application
+ */
+export interface CreateMockApp {
+    /**
+     * The application name sent with `init`
+     */
+    name: string;
+    /**
+     * The owner id sent with `init`
+     */
+    ownerid: string;
+    /**
+     * [Default `1.0`] The version the application has to send with `init`
+     */
+    version?: string;
+    /**
+     * The application secret, when set every client response is signed like keyauth does
+     */
+    secret?: string;
+    /**
+     * [Default `mock-seller-key`] The seller key needed for requests to the seller api
+     */
+    sellerKey?: string;
+}
+
+/**
+ * A subscription level that licenses and users can be assigned to
+ */
+export interface MockSubscription {
+    name: string;
+    level: string;
+    /**
+     * If the subscription was paused with the seller api
+     */
+    paused: boolean;
+}
+
+/**
+ * A subscription a user has activated
+ */
+export interface MockUserSubscription {
+    subscription: string;
+    key: string | null;
+    /**
+     * The unix time in seconds the subscription expires at
+     */
+    expiry: number;
+}
+
+/**
+ * A variable stored for a single user
+ */
+export interface MockUserVar {
+    data: string;
+    readOnly: boolean;
+}
+
+/**
+ * A user of a mock application
+ */
+export interface MockUser {
+    id: number;
+    username: string;
+    password: string;
+    email: string;
+    hwid: string | null;
+    ip: string;
+    /**
+     * The ban reason, `null` if the user is not banned
+     */
+    banned: string | null;
+    cooldown: number;
+    /**
+     * The unix time in seconds the user was created at
+     */
+    createdate: number;
+    /**
+     * The unix time in seconds the user last logged in at
+     */
+    lastlogin: number;
+    subscriptions: MockUserSubscription[];
+    vars: Map<string, MockUserVar>;
+}
+
+/**
+ * A license key of a mock application
+ */
+export interface MockLicense {
+    id: number;
+    key: string;
+    note: string;
+    /**
+     * The duration of the license in seconds
+     */
+    expires: string;
+    status: "Not Used" | "Used" | "Banned";
+    level: number;
+    genby: string;
+    /**
+     * The unix time in seconds the license was created at
+     */
+    gendate: number;
+    usedon: number | null;
+    usedby: string | null;
+    /**
+     * The ban reason, `null` if the license is not banned
+     */
+    banned: string | null;
+}
+
+/**
+ * A message sent to a chat channel
+ */
+export interface MockChatMessage {
+    author: string;
+    message: string;
+    /**
+     * The unix time in seconds the message was sent at
+     */
+    timestamp: number;
+}
+
+/**
+ * A chat channel of a mock application
+ */
+export interface MockChannel {
+    name: string;
+    /**
+     * How many seconds users have to wait between messages
+     */
+    delay: number;
+    messages: MockChatMessage[];
+}
+
+/**
+ * A file users can download
+ */
+export interface MockFile {
+    id: string;
+    name: string;
+    contents: Buffer;
+    /**
+     * The url the file was uploaded from with the seller api, files uploaded this way have no contents
+     */
+    url: string;
+    /**
+     * If users have to be logged in to download the file
+     */
+    authed: boolean;
+}
+
+/**
+ * A webhook users can call, the mock server answers with the stored response instead of calling a url
+ */
+export interface MockWebhook {
+    id: string;
+    response: string;
+    /**
+     * The base url the webhook was created with using the seller api
+     */
+    baseUrl: string;
+    userAgent: string;
+    /**
+     * If users have to be logged in to call the webhook
+     */
+    authed: boolean;
+}
+
+/**
+ * A session created by `init`
+ */
+export interface MockSession {
+    id: string;
+    /**
+     * The enckey sent with `init`, used to sign every response after init
+     */
+    enckey?: string;
+    /**
+     * The username of the user that logged in with this session
+     */
+    username?: string;
+    validated: boolean;
+    /**
+     * The unix time in milliseconds the session was created at
+     */
+    createdAt: number;
+}
+
+/**
+ * A blacklisted hwid or ip
+ */
+export interface MockBlacklist {
+    type: "ip" | "hwid";
+    value: string;
+    reason: string;
+}
+
+/**
+ * A reseller or manager account
+ */
+export interface MockAccount {
+    username: string;
+    password: string;
+    email: string;
+    role: "Reseller" | "Manager";
+    keylevels: string;
+    perms: string;
+    /**
+     * How many licenses of every expiry the reseller can still create, by keyauth param name
+     */
+    balance: Record<string, number>;
+}
+
+/**
+ * A log sent by the client api
+ */
+export interface MockLog {
+    pcuser: string;
+    message: string;
+    username?: string;
+    /**
+     * The unix time in seconds the log was sent at
+     */
+    date: number;
+}
+
+/**
+ * The api a request was sent to
+ */
+export type MockApi = "client" | "seller";
+
+/**
+ * A request the mock server received, used to check what the sdk sent
+ */
+export interface MockRequest {
+    api: MockApi;
+    type: string;
+    params: Record<string, string>;
+}
+
+/**
+ * The failures the mock server will inject into its responses
+ */
+export interface FailureInjection {
+    /**
+     * Delay every response by this many milliseconds
+     */
+    latency?: number;
+    /**
+     * Answer the next amount of requests with a `429` status
+     */
+    rateLimit?: number;
+    /**
+     * Answer the next amount of requests with a body that is not valid json
+     */
+    malformed?: number;
+    /**
+     * Answer the next amount of requests with a `500` status
+     */
+    serverError?: number;
+    /**
+     * Only inject failures into requests with these types, leave empty to inject into every request
+     */
+    types?: string[];
+}
+
+/**
+ * The options used to create a mock server
+ */
+export interface MockServerOptions {
+    /**
+     * The applications to create, a default application is created when none are passed
+     */
+    apps?: CreateMockApp[];
+    /**
+     * The failures to inject from the start
+     */
+    failures?: FailureInjection;
+}
+
+/**
+ * The response a request handler sends back, objects are sent as json and strings as they are
+ */
+export interface HandlerResponse {
+    status?: number;
+    body: Record<string, any> | string;
+}
+
+/**
+ * Everything a request handler needs to answer a request
+ */
+export interface HandlerContext {
+    /**
+     * The application the request was sent for
+     */
+    app: MockApp;
+    /**
+     * The query and body params of the request
+     */
+    params: Record<string, string>;
+    /**
+     * The ip the request was sent from
+     */
+    ip: string;
+}
+
+/**
+ * Answers a single request `type`
+ */
+export type Handler = (context: HandlerContext) => HandlerResponse;
@@ -0,0 +1,44 @@
+// Import necessary modules
+import { randomBytes, randomInt } from "crypto";
+
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const NUMBERS = "0123456789";
+
+/**
+ * Creates a random id like the ones keyauth uses for sessions.
+ *
+ * @returns {string} A random 8 character hex string.
+ */
+export function createId(): string {
+    return randomBytes(4).toString("hex");
+}
+
+/**
+ * Creates a license key from a mask, every `*` in the mask is replaced with a random character.
+ *
+ * @param {string} mask - The mask to create the license from, for example `****-***-****`.
+ * @param {string} character - `1` for mixed case, `2` for uppercase and `3` for lowercase.
+ * @returns {string} The license key.
+ */
+export function createLicenseKey(mask: string, character: string): string {
+    // Pick the characters to build the license from
+    const letters =
+        character === "2"
+            ? UPPERCASE
+            : character === "3"
+            ? LOWERCASE
+            : UPPERCASE + LOWERCASE;
+    const characters = letters + NUMBERS;
+
+    return mask.replace(/\*/g, () => characters[randomInt(characters.length)]);
+}
+
+/**
+ * The current unix time in seconds.
+ *
+ * @returns {number} The current unix time in seconds.
+ */
+export function unixTime(): number {
+    return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,35 @@
+// Import necessary modules and types
+import { HandlerResponse } from "../types";
+import { createId } from "./random";
+
+/**
+ * Creates a successful response like keyauth sends.
+ *
+ * @param {string} message - The message of the response.
+ * @param {Record<string, any>} [data] - Any extra data to send with the response.
+ * @returns {HandlerResponse} The successful response.
+ */
+export function success(
+    message: string,
+    data: Record<string, any> = {},
+): HandlerResponse {
+    return {
+        body: { success: true, message, ...data, nonce: createId() },
+    };
+}
+
+/**
+ * Creates a failed response like keyauth sends.
+ *
+ * @param {string} message - The message of the response.
+ * @param {Record<string, any>} [data] - Any extra data to send with the response.
+ * @returns {HandlerResponse} The failed response.
+ */
+export function failure(
+    message: string,
+    data: Record<string, any> = {},
+): HandlerResponse {
+    return {
+        body: { success: false, message, ...data, nonce: createId() },
+    };
+}
@@ -0,0 +1,94 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import * as Client from "../../client/src";
+import * as Seller from "../../seller/src";
+import { MockKeyAuthServer } from "../src";
+import {
+    countRequests,
+    createClient,
+    createSeller,
+    startServer,
+} from "./helpers";
+
+describe("timeouts and cancelling", () => {
+    let server: MockKeyAuthServer;
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("rejects with a TimeoutError once every attempt timed out", async () => {
+        const client = createClient(server, {
+            throwOnError: true,
+            timeoutMs: 50,
+            retry: { maxAttempts: 2 },
+        });
+        // A timed out attempt may be cancelled before it reaches the server so attempts are counted on the client
+        const attempts: number[] = [];
+        client.on("request", (event) => attempts.push(event.attempt));
+
+        server.inject({ latency: 300 });
+        await assert.rejects(client.init(), (error) => {
+            assert.ok(error instanceof Client.TimeoutError);
+            assert.equal(error.code, Client.ERROR_CODE.K_TO);
+            return true;
+        });
+        assert.deepEqual(attempts, [1, 2]);
+    });
+
+    test("a call can override the timeout", async () => {
+        const client = createClient(server, { timeoutMs: 50 });
+
+        server.inject({ latency: 150 });
+        const response = await client.init({ timeoutMs: 2000 });
+        assert.equal(response.success, true);
+        assert.equal(countRequests(server, "init"), 1);
+    });
+
+    test("rejects with an AbortError and does not retry", async () => {
+        const client = createClient(server);
+        const controller = new AbortController();
+
+        server.inject({ latency: 300 });
+        setTimeout(() => controller.abort(), 50);
+        await assert.rejects(
+            client.init({ signal: controller.signal }),
+            Client.AbortError,
+        );
+        assert.equal(countRequests(server, "init"), 1);
+    });
+
+    test("sends nothing when the signal is already aborted", async () => {
+        const client = createClient(server);
+
+        await assert.rejects(
+            client.init({ signal: AbortSignal.abort() }),
+            Client.AbortError,
+        );
+        assert.equal(countRequests(server, "init"), 0);
+    });
+
+    test("the seller api times out and can be aborted", async () => {
+        const seller = createSeller(server, {
+            throwOnError: true,
+            timeoutMs: 50,
+            retry: { maxAttempts: 1 },
+        });
+
+        server.inject({ latency: 300 });
+        await assert.rejects(seller.license.fetchAll(), Seller.TimeoutError);
+
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+        await assert.rejects(
+            seller.license.fetchAll({
+                signal: controller.signal,
+                timeoutMs: 2000,
+            }),
+            Seller.AbortError,
+        );
+    });
+});
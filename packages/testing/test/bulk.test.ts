@@ -0,0 +1,131 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import * as Seller from "../../seller/src";
+import { MockKeyAuthServer } from "../src";
+import { countRequests, createSeller, startServer } from "./helpers";
+
+describe("bulk license calls", () => {
+    let server: MockKeyAuthServer;
+
+    // Add licenses straight to the mock application
+    const addLicenses = (amount: number) =>
+        Array.from({ length: amount }, () => server.app.addLicense().key);
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("a failed license does not stop the run and is not checkpointed", async () => {
+        const seller = createSeller(server);
+        const licenses = [...addLicenses(5), "MISSING-KEY"];
+
+        const result = await seller.license.bulk.ban({
+            licenses,
+            reason: "chargeback",
+        });
+        assert.equal(result.success, false);
+        assert.equal(result.succeeded, 5);
+        assert.equal(result.failed, 1);
+        assert.deepEqual(
+            [...result.checkpoint.processed].sort(),
+            licenses.slice(0, 5).sort(),
+        );
+        for (const license of licenses.slice(0, 5)) {
+            assert.equal(
+                server.app.licenses.get(license)?.banned,
+                "chargeback",
+            );
+        }
+    });
+
+    test("resuming from a checkpoint only sends what did not succeed", async () => {
+        const seller = createSeller(server);
+        const licenses = [...addLicenses(3), "MISSING-KEY"];
+        const first = await seller.license.bulk.unban({ licenses });
+
+        // The missing license is created before the run is resumed
+        server.app.addLicense({ key: "MISSING-KEY" });
+        const before = countRequests(server, "unban");
+        const resumed = await seller.license.bulk.unban(
+            { licenses },
+            { checkpoint: first.checkpoint },
+        );
+        assert.equal(countRequests(server, "unban") - before, 1);
+        assert.equal(resumed.success, true);
+        assert.equal(resumed.skipped, 3);
+        assert.deepEqual(
+            resumed.results.map((item) => item.license),
+            ["MISSING-KEY"],
+        );
+        assert.equal(resumed.checkpoint.processed.length, 4);
+    });
+
+    test("reports progress after every license and sends duplicates once", async () => {
+        const seller = createSeller(server);
+        const [license, other] = addLicenses(2);
+        const completed: number[] = [];
+        seller.on("bulkprogress", (progress) =>
+            completed.push(progress.completed),
+        );
+
+        const result = await seller.license.bulk.unban(
+            { licenses: [license, other, license] },
+            { concurrency: 1 },
+        );
+        assert.equal(result.total, 2);
+        assert.deepEqual(completed, [1, 2]);
+        assert.equal(countRequests(server, "unban"), 2);
+    });
+
+    test("an aborted run can be resumed from the last progress event", async () => {
+        const seller = createSeller(server);
+        const licenses = addLicenses(6);
+        let checkpoint: Seller.BulkCheckpoint | undefined;
+        seller.on("bulkprogress", (progress) => {
+            checkpoint = JSON.parse(JSON.stringify(progress.checkpoint));
+        });
+
+        server.inject({ latency: 40 });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        await assert.rejects(
+            seller.license.bulk.unban(
+                { licenses },
+                { concurrency: 1, signal: controller.signal },
+            ),
+            Seller.AbortError,
+        );
+        assert.ok(checkpoint);
+        const done = checkpoint.processed.length;
+        assert.ok(done > 0 && done < licenses.length);
+
+        server.clearFailures();
+        const resumed = await seller.license.bulk.unban(
+            { licenses },
+            { checkpoint },
+        );
+        assert.equal(resumed.skipped, done);
+        assert.equal(resumed.checkpoint.processed.length, licenses.length);
+    });
+
+    test("invalid options are rejected before anything is sent", async () => {
+        const seller = createSeller(server);
+        const licenses = addLicenses(1);
+
+        await assert.rejects(
+            seller.license.bulk.unban({ licenses }, { concurrency: 0 }),
+            Seller.InvalidParamsError,
+        );
+        await assert.rejects(
+            seller.license.bulk.unban(
+                { licenses },
+                { checkpoint: { type: "ban", processed: [] } },
+            ),
+            Seller.InvalidParamsError,
+        );
+        assert.equal(countRequests(server, "unban"), 0);
+    });
+});
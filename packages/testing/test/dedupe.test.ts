@@ -0,0 +1,87 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import { MockKeyAuthServer } from "../src";
+import { countRequests, createClient, startServer } from "./helpers";
+
+describe("sharing identical reads", () => {
+    let server: MockKeyAuthServer;
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("concurrent identical reads share one request", async () => {
+        const client = createClient(server);
+        await client.init();
+
+        const responses = await Promise.all([
+            client.fetchOnlineUsers(),
+            client.fetchOnlineUsers(),
+            client.fetchOnlineUsers(),
+        ]);
+        assert.equal(countRequests(server, "fetchOnline"), 1);
+
+        // Every caller gets its own copy of the response
+        assert.notEqual(responses[0], responses[1]);
+        assert.deepEqual(responses[0], responses[1]);
+    });
+
+    test("reads in a row are sent on their own", async () => {
+        const client = createClient(server);
+        await client.init();
+
+        await client.fetchOnlineUsers();
+        await client.fetchOnlineUsers();
+        assert.equal(countRequests(server, "fetchOnline"), 2);
+    });
+
+    test("reads with an abort signal are never shared", async () => {
+        const client = createClient(server);
+        await client.init();
+
+        const { signal } = new AbortController();
+        await Promise.all([
+            client.fetchOnlineUsers({}, { signal }),
+            client.fetchOnlineUsers({}, { signal }),
+        ]);
+        assert.equal(countRequests(server, "fetchOnline"), 2);
+    });
+
+    test("a read sent after a write does not share a read sent before it", async () => {
+        server.app.addUser({ username: "bob" });
+        const client = createClient(server);
+        await client.init();
+        await client.login({ username: "bob", password: "bob" });
+        await client.var.user.set({
+            varId: "color",
+            varData: "red",
+            skipError: false,
+            skipResponse: false,
+        });
+
+        // The first read is slow so it is still in flight when the write is done
+        const reads = countRequests(server, "getvar");
+        server.inject({ latency: 200, types: ["getvar"] });
+        const get = () =>
+            client.var.user.get({
+                varId: "color",
+                skipError: false,
+                skipResponse: false,
+            });
+        const sentBefore = get();
+        await client.var.user.set({
+            varId: "color",
+            varData: "blue",
+            skipError: false,
+            skipResponse: false,
+        });
+        const afterWrite = get();
+
+        await sentBefore;
+        assert.equal((await afterWrite).response, "blue");
+        assert.equal(countRequests(server, "getvar") - reads, 2);
+    });
+});
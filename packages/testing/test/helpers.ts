@@ -0,0 +1,80 @@
+// Import necessary modules and types
+import { ClientApi, ClientOptions, METADATA } from "../../client/src";
+import { SellerApi, SellerOptions } from "../../seller/src";
+import { MockKeyAuthServer, MockServerOptions } from "../src";
+
+/**
+ * Start a mock server on a free port.
+ *
+ * @param {MockServerOptions} [options] - The applications and failures to start with.
+ * @returns {Promise<MockKeyAuthServer>} The started server, stop it when the test is done.
+ */
+export async function startServer(
+    options?: MockServerOptions,
+): Promise<MockKeyAuthServer> {
+    const server = new MockKeyAuthServer(options);
+    await server.start();
+    return server;
+}
+
+/**
+ * Create a client api for the default application of a mock server.
+ * The rate limiter never waits and retries have no delay so tests stay fast.
+ *
+ * @param {MockKeyAuthServer} server - The started mock server.
+ * @param {ClientOptions<D>} [options] - Options that replace the test defaults.
+ * @returns {ClientApi<D>} The client api, call `init()` before using it.
+ */
+export function createClient<D extends METADATA = METADATA>(
+    server: MockKeyAuthServer,
+    options: ClientOptions<D> = {},
+): ClientApi<D> {
+    return new ClientApi<D>(
+        {
+            name: server.app.name,
+            ownerid: server.app.ownerid,
+            ver: server.app.version,
+            secret: server.app.secret,
+        },
+        {
+            baseUrl: server.clientUrl,
+            ratelimit: { maxTokens: 1000, refillRate: 1 },
+            ...options,
+            retry: { baseDelay: 1, jitter: false, ...options.retry },
+        },
+    );
+}
+
+/**
+ * Create a seller api for the default application of a mock server.
+ * The rate limiter never waits and retries have no delay so tests stay fast.
+ *
+ * @param {MockKeyAuthServer} server - The started mock server.
+ * @param {SellerOptions} [options] - Options that replace the test defaults.
+ * @returns {SellerApi} The seller api.
+ */
+export function createSeller(
+    server: MockKeyAuthServer,
+    options: SellerOptions = {},
+): SellerApi {
+    return new SellerApi(
+        { sellerKey: server.app.sellerKey },
+        {
+            baseUrl: server.sellerUrl,
+            ratelimit: { maxTokens: 1000, refillRate: 1 },
+            ...options,
+            retry: { baseDelay: 1, jitter: false, ...options.retry },
+        },
+    );
+}
+
+/**
+ * Count the requests of a type the mock server received.
+ *
+ * @param {MockKeyAuthServer} server - The mock server.
+ * @param {string} type - The request type, like `fetchOnline`.
+ * @returns {number} How many requests of the type were received.
+ */
+export function countRequests(server: MockKeyAuthServer, type: string): number {
+    return server.requests.filter((request) => request.type === type).length;
+}
@@ -0,0 +1,101 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import { MockKeyAuthServer } from "../src";
+import { createClient, startServer } from "./helpers";
+
+type Counter = {
+    count: number;
+    settings?: { theme?: string; sound?: boolean };
+};
+
+describe("metadata updates", () => {
+    let server: MockKeyAuthServer;
+
+    // Create a client that is logged in as bob
+    const login = async () => {
+        const client = createClient<Counter>(server, {
+            metaData: { defaults: { count: 0 }, updateAttempts: 20 },
+        });
+        await client.init();
+        await client.login({ username: "bob", password: "bob" });
+        return client;
+    };
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("concurrent updates from one client are all kept", async () => {
+        server.app.addUser({ username: "bob" });
+        const client = await login();
+
+        const responses = await Promise.all(
+            Array.from({ length: 6 }, () =>
+                client.metaData.update({
+                    updater: (metaData) => ({
+                        ...metaData,
+                        count: metaData.count + 1,
+                    }),
+                }),
+            ),
+        );
+        assert.ok(responses.every((response) => response.success));
+        assert.deepEqual(
+            responses.map((response) => response.metaData?.count).sort(),
+            [1, 2, 3, 4, 5, 6],
+        );
+
+        const stored = await client.metaData.get({});
+        assert.equal(stored.metaData?.count, 6);
+        assert.equal(stored.revision, 6);
+    });
+
+    test("patch merges and delete removes nested keys", async () => {
+        server.app.addUser({ username: "bob" });
+        const client = await login();
+
+        await client.metaData.patch({
+            metaData: { settings: { theme: "dark", sound: true } },
+        });
+        await client.metaData.patch({
+            metaData: { settings: { sound: false } },
+        });
+        const patched = await client.metaData.get({});
+        assert.deepEqual(patched.metaData, {
+            count: 0,
+            settings: { theme: "dark", sound: false },
+        });
+
+        const deleted = await client.metaData.delete({
+            keys: ["settings.theme"],
+        });
+        assert.deepEqual(deleted.metaData, {
+            count: 0,
+            settings: { sound: false },
+        });
+        assert.equal(deleted.revision, 3);
+    });
+
+    test("an update that fails validation is not stored", async () => {
+        server.app.addUser({ username: "bob" });
+        const client = createClient<Counter>(server, {
+            metaData: {
+                defaults: { count: 0 },
+                validator: (data) =>
+                    typeof (data as Counter).count === "number" &&
+                    (data as Counter).count >= 0,
+            },
+        });
+        await client.init();
+        await client.login({ username: "bob", password: "bob" });
+
+        const response = await client.metaData.update({
+            updater: () => ({ count: -1 }),
+        });
+        assert.equal(response.success, false);
+        assert.equal(server.app.users.get("bob")?.vars.has("metaData"), false);
+    });
+});
@@ -0,0 +1,131 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import * as Client from "../../client/src";
+import * as Seller from "../../seller/src";
+import { MockKeyAuthServer } from "../src";
+import {
+    countRequests,
+    createClient,
+    createSeller,
+    startServer,
+} from "./helpers";
+
+describe("retrying requests", () => {
+    let server: MockKeyAuthServer;
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("sends a read again after a server error until it succeeds", async () => {
+        const client = createClient(server);
+        const attempts: number[] = [];
+        client.on("request", (event) => attempts.push(event.attempt));
+
+        server.inject({ serverError: 2 });
+        const response = await client.init();
+
+        assert.equal(response.success, true);
+        assert.equal(countRequests(server, "init"), 3);
+        assert.deepEqual(attempts, [1, 2, 3]);
+    });
+
+    test("stops after maxAttempts and resolves with the transport error", async () => {
+        const client = createClient(server, { retry: { maxAttempts: 2 } });
+
+        server.inject({ serverError: 5 });
+        const response = await client.init();
+
+        assert.equal(response.success, false);
+        assert.equal(response.message, "Request failed with status code 500");
+        assert.equal(countRequests(server, "init"), 2);
+    });
+
+    test("retries a rate limited request", async () => {
+        const client = createClient(server, { throwOnError: true });
+
+        server.inject({ rateLimit: 1 });
+        const response = await client.init();
+
+        assert.equal(response.success, true);
+        assert.equal(countRequests(server, "init"), 2);
+    });
+
+    test("does not send a password reset again", async () => {
+        server.app.addUser({ username: "bob", email: "bob@mail.com" });
+        const client = createClient(server, { throwOnError: true });
+        await client.init();
+
+        server.inject({ serverError: 1, types: ["forgot"] });
+        await assert.rejects(
+            client.forgotPassword({ username: "bob", email: "bob@mail.com" }),
+            Client.TransportError,
+        );
+        assert.equal(countRequests(server, "forgot"), 1);
+    });
+
+    test("retries and reports a body that is not json", async () => {
+        const client = createClient(server);
+        await client.init();
+
+        server.inject({ malformed: 1 });
+        const retried = await client.fetchOnlineUsers();
+        assert.equal(typeof retried.message, "string");
+        assert.equal(countRequests(server, "fetchOnline"), 2);
+
+        const errors: string[] = [];
+        client.on("error", (error) => errors.push(error.message));
+        server.inject({ malformed: 3 });
+        const failed = await client.fetchOnlineUsers();
+        assert.deepEqual(
+            { success: failed.success, message: failed.message },
+            {
+                success: false,
+                message: "Response body is not a JSON object",
+            },
+        );
+        assert.deepEqual(errors, ["Response body is not a JSON object"]);
+    });
+
+    test("rejects a body that is not json with throwOnError", async () => {
+        const client = createClient(server, {
+            throwOnError: true,
+            retry: { maxAttempts: 1 },
+        });
+
+        server.inject({ malformed: 1 });
+        await assert.rejects(client.init(), (error) => {
+            assert.ok(error instanceof Client.TransportError);
+            assert.equal(error.response, '{"success":true,"mess');
+            return true;
+        });
+    });
+
+    test("the seller api retries reads and not creates", async () => {
+        const seller = createSeller(server);
+
+        server.inject({ serverError: 1 });
+        const fetched = await seller.license.fetchAll();
+        assert.equal(fetched.message, "No keys found");
+        assert.equal(countRequests(server, "fetchallkeys"), 2);
+
+        server.inject({ serverError: 1 });
+        const created = await seller.license.create();
+        assert.equal(created.success, false);
+        assert.equal(countRequests(server, "add"), 1);
+        assert.equal(server.app.licenses.size, 0);
+    });
+
+    test("the seller api rejects a body that is not json", async () => {
+        const seller = createSeller(server, {
+            throwOnError: true,
+            retry: { maxAttempts: 1 },
+        });
+
+        server.inject({ malformed: 1 });
+        await assert.rejects(seller.license.fetchAll(), Seller.TransportError);
+    });
+});
@@ -0,0 +1,84 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import { MockKeyAuthServer } from "../src";
+import { startServer } from "./helpers";
+
+describe("MockKeyAuthServer failure injection", () => {
+    let server: MockKeyAuthServer;
+
+    // Send a raw request to the client api of the default application
+    const send = (type: string) =>
+        fetch(
+            `${server.clientUrl}?${new URLSearchParams({
+                type,
+                name: server.app.name,
+                ownerid: server.app.ownerid,
+                ver: server.app.version,
+            })}`,
+        );
+
+    before(async () => {
+        server = await startServer();
+    });
+    afterEach(() => server.reset());
+    after(() => server.stop());
+
+    test("answers the next requests with a 500 status", async () => {
+        server.inject({ serverError: 2 });
+        assert.equal((await send("init")).status, 500);
+        assert.equal((await send("init")).status, 500);
+        const response = await send("init");
+        assert.equal(response.status, 200);
+        assert.equal((await response.json()).success, true);
+    });
+
+    test("answers the next requests with a 429 status", async () => {
+        server.inject({ rateLimit: 1 });
+        const limited = await send("init");
+        assert.equal(limited.status, 429);
+        assert.deepEqual(await limited.json(), {
+            success: false,
+            message: "Rate limited",
+        });
+        assert.equal((await send("init")).status, 200);
+    });
+
+    test("answers the next requests with a body that is not json", async () => {
+        server.inject({ malformed: 1 });
+        const malformed = await send("init");
+        assert.equal(malformed.status, 200);
+        await assert.rejects(malformed.json());
+        assert.equal((await (await send("init")).json()).success, true);
+    });
+
+    test("delays every response by the latency", async () => {
+        server.inject({ latency: 150 });
+        const start = Date.now();
+        await send("init");
+        assert.ok(Date.now() - start >= 140);
+    });
+
+    test("only injects into the request types it was given", async () => {
+        server.inject({ serverError: 1, types: ["fetchOnline"] });
+        assert.equal((await send("init")).status, 200);
+        assert.equal((await send("fetchOnline")).status, 500);
+        assert.equal((await send("fetchOnline")).status, 200);
+    });
+
+    test("records every request and forgets them on reset", async () => {
+        await send("init");
+        await send("fetchOnline");
+        assert.deepEqual(
+            server.requests.map((request) => [request.api, request.type]),
+            [
+                ["client", "init"],
+                ["client", "fetchOnline"],
+            ],
+        );
+        server.inject({ serverError: 1 });
+        server.reset();
+        assert.equal(server.requests.length, 0);
+        assert.equal((await send("init")).status, 200);
+    });
+});
@@ -0,0 +1,171 @@
+// Import necessary modules and types
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, describe, test } from "node:test";
+import { MockKeyAuthServer } from "../src";
+import { countRequests, createSeller, startServer } from "./helpers";
+
+describe("export and import", () => {
+    let server: MockKeyAuthServer;
+    let dir: string;
+
+    before(async () => {
+        server = await startServer();
+        dir = await mkdtemp(join(tmpdir(), "keyauthjs-transfer-"));
+    });
+    afterEach(() => server.reset());
+    after(async () => {
+        await server.stop();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    for (const format of ["json", "csv", "ndjson"] as const) {
+        test(`licenses survive a round trip through ${format}`, async () => {
+            const seller = createSeller(server);
+            server.app.addLicense({ key: "AAAA-1111", level: 2, expiry: "3" });
+            server.app.addLicense({
+                key: "BBBB-2222",
+                note: 'a, "quoted" note',
+            });
+            await seller.license.ban({ license: "BBBB-2222", reason: "fraud" });
+            const path = join(dir, `licenses.${format}`);
+
+            const exported = await seller.transfer.export.licenses({ path });
+            assert.equal(exported.count, 2);
+            assert.equal(exported.format, format);
+
+            server.reset();
+            const imported = await seller.transfer.import.licenses({ path });
+            assert.equal(imported.success, true);
+            assert.equal(imported.created, 2);
+
+            const first = server.app.licenses.get("AAAA-1111");
+            assert.equal(first?.level, 2);
+            assert.equal(first?.expires, String(3 * 86400));
+            const second = server.app.licenses.get("BBBB-2222");
+            assert.equal(second?.note, 'a, "quoted" note');
+            assert.equal(second?.banned, "fraud");
+        });
+    }
+
+    test("the conflict policy decides what happens to existing licenses", async () => {
+        const seller = createSeller(server);
+        const path = join(dir, "conflict.json");
+        await writeFile(
+            path,
+            JSON.stringify([{ key: "TAKEN-1", level: 3, expires: "86400" }]),
+        );
+        server.app.addLicense({ key: "TAKEN-1", level: 1 });
+
+        const skipped = await seller.transfer.import.licenses({ path });
+        assert.equal(skipped.skipped, 1);
+        assert.equal(server.app.licenses.get("TAKEN-1")?.level, 1);
+
+        const dryRun = await seller.transfer.import.licenses({
+            path,
+            conflict: "rename",
+            dryRun: true,
+        });
+        assert.deepEqual(dryRun.results[0].importedAs, "TAKEN-1-1");
+        assert.equal(server.app.licenses.size, 1);
+
+        const renamed = await seller.transfer.import.licenses({
+            path,
+            conflict: "rename",
+        });
+        assert.equal(renamed.renamed, 1);
+        assert.equal(server.app.licenses.get("TAKEN-1-1")?.level, 3);
+
+        const overwritten = await seller.transfer.import.licenses({
+            path,
+            conflict: "overwrite",
+        });
+        assert.equal(overwritten.overwritten, 1);
+        assert.equal(server.app.licenses.get("TAKEN-1")?.level, 3);
+    });
+
+    test("an invalid license is not deleted on overwrite", async () => {
+        const seller = createSeller(server);
+        const path = join(dir, "invalid.json");
+        await writeFile(
+            path,
+            JSON.stringify([{ key: "KEEP-1", level: 1.5, expires: "86400" }]),
+        );
+        server.app.addLicense({ key: "KEEP-1" });
+
+        const result = await seller.transfer.import.licenses({
+            path,
+            conflict: "overwrite",
+        });
+        assert.equal(result.failed, 1);
+        assert.ok(server.app.licenses.has("KEEP-1"));
+    });
+
+    test("nothing is imported when the existing records can not be fetched", async () => {
+        const seller = createSeller(server, { retry: { maxAttempts: 1 } });
+        const path = join(dir, "blocked.json");
+        await writeFile(
+            path,
+            JSON.stringify([{ key: "NEW-1", expires: "86400" }]),
+        );
+
+        server.inject({ serverError: 1, types: ["fetchallkeys"] });
+        const result = await seller.transfer.import.licenses({ path });
+        assert.equal(result.success, false);
+        assert.match(result.message, /status code 500/);
+        assert.equal(countRequests(server, "add"), 0);
+        assert.equal(server.app.licenses.size, 0);
+    });
+
+    test("users are imported with a password, email and ban", async () => {
+        const seller = createSeller(server);
+        const path = join(dir, "users.csv");
+        await writeFile(
+            path,
+            "username,email,banned\nalice,alice@mail.com,\nmallory,,spam\n",
+        );
+
+        const result = await seller.transfer.import.users({
+            path,
+            password: "changeme",
+        });
+        assert.equal(result.created, 2);
+        const alice = server.app.users.get("alice");
+        assert.equal(alice?.password, "changeme");
+        assert.equal(alice?.email, "alice@mail.com");
+        assert.equal(alice?.banned, null);
+        assert.equal(server.app.users.get("mallory")?.banned, "spam");
+    });
+
+    test("user variables and subscriptions survive a round trip", async () => {
+        const seller = createSeller(server);
+        server.app.addUser({ username: "bob" });
+        server.app.addSubscription("gold", "5");
+        await seller.user.var.set({
+            username: "bob",
+            varName: "color",
+            varData: "red",
+        });
+        const varsPath = join(dir, "vars.ndjson");
+        const subsPath = join(dir, "subs.json");
+        await seller.transfer.export.userVars({ path: varsPath });
+        await seller.transfer.export.subscriptions({ path: subsPath });
+        assert.match(await readFile(varsPath, "utf8"), /"color"/);
+
+        server.reset();
+        server.app.addUser({ username: "bob" });
+        const vars = await seller.transfer.import.userVars({ path: varsPath });
+        const subs = await seller.transfer.import.subscriptions({
+            path: subsPath,
+        });
+        assert.equal(vars.created, 1);
+        assert.equal(subs.success, true);
+        assert.equal(
+            server.app.users.get("bob")?.vars.get("color")?.data,
+            "red",
+        );
+        assert.equal(server.app.subscriptions.get("gold")?.level, "5");
+    });
+});